@@ -1,165 +1,78 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { LiveEvent } from "@/utils/liveTypes";
 import { useLiveSession } from "@/hooks/useLiveSession";
-import { sendLiveEvent } from "@/utils/liveRealtime";
+import { useTaskModule } from "@/hooks/useTaskModule";
 import Whiteboard from "@/components/Whiteboard";
+import FractionModel, { type FractionModelKind } from "@/components/FractionModel";
+import {
+  broekerModule,
+  operationSymbols,
+  commonDenominator,
+  fitsModel,
+  isImproper,
+  shadingModel,
+  taskFractions,
+  toMixed,
+  type BroekerAnswerForm as AnswerForm,
+  type Comparison,
+  type BroekerModel as Model,
+  type BroekerOperation as Operation,
+  type BroekerRange as Range,
+  type Fraction,
+} from "@/utils/tracks/broeker";
 
-type Operation =
-  | "add"
-  | "subtract"
-  | "multiply"
-  | "divide"
-  | "mulInt"
-  | "divInt";
-
-type Range = "small" | "medium" | "large";
-
-type Fraction = { n: number; d: number };
-type Task = {
-  operation: Operation;
-  a: Fraction;
-  b: Fraction | number;
-};
-
-type Settings = {
-  operation: Operation;
-  range: Range;
-};
-
-const LS_STREAK = "broeker_streak_v1";
-const LS_BEST_STREAK = "broeker_best_streak_v1";
-const LS_SETTINGS = "broeker_settings_v1";
-const AUTO_NEXT_MS = 1600;
 const MAX_ANSWER_LEN = 20;
-const operationLabels: Record<Operation, string> = {
-  add: "Plus",
-  subtract: "Minus",
-  multiply: "Gange",
-  divide: "Divider",
-  mulInt: "Gange med helt tal",
-  divInt: "Divider med helt tal",
-};
-
-const operationSymbols: Record<Operation, string> = {
-  add: "+",
-  subtract: "-",
-  multiply: "x",
-  divide: "/",
-  mulInt: "x",
-  divInt: "/",
-};
-
-const ranges: Record<Range, { maxNum: number; maxDen: number; maxInt: number }> =
-  {
-    small: { maxNum: 5, maxDen: 5, maxInt: 5 },
-    medium: { maxNum: 15, maxDen: 15, maxInt: 15 },
-    large: { maxNum: 35, maxDen: 35, maxInt: 35 },
-  };
-
-function randInt(min: number, max: number) {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-function gcd(a: number, b: number) {
-  let x = Math.abs(a);
-  let y = Math.abs(b);
-  while (y !== 0) {
-    const t = x % y;
-    x = y;
-    y = t;
-  }
-  return x || 1;
-}
-
-function simplifyFraction(f: Fraction): Fraction {
-  const sign = f.d < 0 ? -1 : 1;
-  const n = f.n * sign;
-  const d = f.d * sign;
-  const g = gcd(n, d);
-  return { n: n / g, d: d / g };
-}
 
-function compareFractions(a: Fraction, b: Fraction) {
-  return a.n * b.d - b.n * a.d;
-}
-
-function addFractions(a: Fraction, b: Fraction): Fraction {
-  return simplifyFraction({ n: a.n * b.d + b.n * a.d, d: a.d * b.d });
-}
-
-function subtractFractions(a: Fraction, b: Fraction): Fraction {
-  return simplifyFraction({ n: a.n * b.d - b.n * a.d, d: a.d * b.d });
-}
-
-function multiplyFractions(a: Fraction, b: Fraction): Fraction {
-  return simplifyFraction({ n: a.n * b.n, d: a.d * b.d });
-}
-
-function divideFractions(a: Fraction, b: Fraction): Fraction {
-  return simplifyFraction({ n: a.n * b.d, d: a.d * b.n });
-}
-
-function randomFraction(range: Range): Fraction {
-  const { maxNum, maxDen } = ranges[range];
-  const d = randInt(2, maxDen);
-  const n = randInt(1, maxNum);
-  return simplifyFraction({ n, d });
-}
-
-function randomProperFraction(range: Range): Fraction {
-  const { maxDen } = ranges[range];
-  const d = randInt(2, maxDen);
-  const n = randInt(1, d - 1);
-  return simplifyFraction({ n, d });
-}
-
-function buildTask(settings: Settings): Task {
-  if (settings.operation === "mulInt") {
-    const a = randomFraction(settings.range);
-    const intB = randInt(2, ranges[settings.range].maxInt);
-    return { operation: settings.operation, a, b: intB };
-  }
-  if (settings.operation === "divInt") {
-    const a = randomFraction(settings.range);
-    const intB = randInt(2, ranges[settings.range].maxInt);
-    return { operation: settings.operation, a, b: intB };
-  }
-  const a = randomProperFraction(settings.range);
-  const b = randomProperFraction(settings.range);
-  if (settings.operation === "subtract" && compareFractions(a, b) < 0) {
-    return { operation: settings.operation, a: b, b: a };
-  }
-  if (settings.operation === "divide") {
-    return { operation: settings.operation, a, b: b.n === 0 ? { ...b, n: 1 } : b };
-  }
-  return { operation: settings.operation, a, b };
+// Broeken som model; split > 1 deler hver del op, fx ved faelles naevner.
+function OperandModel({
+  kind,
+  value,
+  split,
+  common,
+  showSplit,
+}: {
+  kind: FractionModelKind;
+  value: Fraction;
+  split: number;
+  common: number;
+  showSplit: boolean;
+}) {
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <FractionModel
+        kind={kind}
+        parts={value.d}
+        shaded={value.n * split}
+        wholes={Math.ceil(value.n / value.d)}
+        split={split}
+        showSplit={showSplit}
+      />
+      <span className="text-sm font-semibold text-slate-600">
+        {value.n}/{value.d}
+        {showSplit && split > 1 && ` = ${value.n * split}/${common}`}
+      </span>
+    </div>
+  );
 }
 
-function solveTask(task: Task): Fraction {
-  const a = task.a;
-  const b = task.b;
-  switch (task.operation) {
-    case "add":
-      return addFractions(a, b as Fraction);
-    case "subtract":
-      return subtractFractions(a, b as Fraction);
-    case "multiply":
-      return multiplyFractions(a, b as Fraction);
-    case "divide":
-      return divideFractions(a, b as Fraction);
-    case "mulInt":
-      return simplifyFraction({ n: a.n * (b as number), d: a.d });
-    case "divInt":
-      return simplifyFraction({ n: a.n, d: a.d * (b as number) });
-    default:
-      return simplifyFraction(a);
+function FractionView({
+  value,
+  mixed = false,
+}: {
+  value: Fraction;
+  mixed?: boolean;
+}) {
+  if (mixed && isImproper(value)) {
+    const { whole, n, d } = toMixed(value);
+    return (
+      <span className="inline-flex items-center gap-1">
+        <span className="text-3xl font-semibold text-slate-900">{whole}</span>
+        {n !== 0 && <FractionView value={{ n, d }} />}
+      </span>
+    );
   }
-}
-
-function FractionView({ value }: { value: Fraction }) {
   return (
     <span className="inline-flex flex-col items-center leading-none">
       <span className="text-lg font-semibold text-slate-900">{value.n}</span>
@@ -169,31 +82,7 @@ function FractionView({ value }: { value: Fraction }) {
   );
 }
 
-function formatFractionText(value: Fraction) {
-  return `${value.n}/${value.d}`;
-}
-
 export default function BroekerPage() {
-  const defaultSettings: Settings = {
-    operation: "add",
-    range: "small",
-  };
-
-  const loadSettings = () => {
-    if (typeof window === "undefined") return defaultSettings;
-    const saved = localStorage.getItem(LS_SETTINGS);
-    if (!saved) return defaultSettings;
-    try {
-      const parsed = JSON.parse(saved);
-      return {
-        ...defaultSettings,
-        ...parsed,
-      };
-    } catch {
-      return defaultSettings;
-    }
-  };
-
   const router = useRouter();
   const {
     isJoined,
@@ -201,75 +90,32 @@ export default function BroekerPage() {
     hasGlobalIdentity,
     identityChecked,
     roomId,
+    seed,
   } = useLiveSession({
-    storageKey: "broeker",
-    trackLabel: "Brøker",
+    storageKey: broekerModule.id,
+    trackLabel: broekerModule.trackLabel,
     onInvalidSession: () => router.replace("/"),
   });
-  const [settings, setSettings] = useState<Settings>(defaultSettings);
-  const [task, setTask] = useState<Task>(() => buildTask(defaultSettings));
-  const [settingsReady, setSettingsReady] = useState(false);
-  const [answerNum, setAnswerNum] = useState("");
-  const [answerDen, setAnswerDen] = useState("");
-  const [feedback, setFeedback] = useState<{
-    type: "idle" | "correct" | "wrong" | "error" | "info";
-    message: string;
-  }>({ type: "idle", message: "" });
-  const [revealed, setRevealed] = useState(false);
+  const {
+    settings,
+    task,
+    updateSetting,
+    newTask,
+    answer,
+    setAnswer,
+    feedback,
+    revealed,
+    streak,
+    level,
+    progress,
+    toNext,
+    checkAnswer,
+    revealAnswer,
+  } = useTaskModule(broekerModule, roomId, seed);
   const [showSettings, setShowSettings] = useState(false);
   const [showCanvas, setShowCanvas] = useState(false);
-  const autoNextRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const inputDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const readNumber = (key: string, fallback: number) => {
-    if (typeof window === "undefined") return fallback;
-    const raw = localStorage.getItem(key);
-    const parsed = raw ? Number(raw) : NaN;
-    return Number.isFinite(parsed) ? parsed : fallback;
-  };
-
-  const [streak, setStreak] = useState(() => readNumber(LS_STREAK, 0));
-  const [bestStreak, setBestStreak] = useState(() =>
-    readNumber(LS_BEST_STREAK, 0)
-  );
-  const statsRef = useRef({ attempts: 0, correct: 0 });
-
-  useEffect(() => {
-    localStorage.setItem(LS_STREAK, String(streak));
-  }, [streak]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_BEST_STREAK, String(bestStreak));
-  }, [bestStreak]);
-
-  
-
-  
-
-  
-
-  
-
-  
-
-  
-
-  
-
-  
-
-  useEffect(() => {
-    if (!settingsReady) return;
-    localStorage.setItem(LS_SETTINGS, JSON.stringify(settings));
-  }, [settings, settingsReady]);
-
-  useEffect(() => {
-    const loaded = loadSettings();
-    setSettings(loaded);
-    setTask(buildTask(loaded));
-    setSettingsReady(true);
-  }, []);
-
-  
+  // Opgaven, hvor faelles naevner vises; en ny opgave nulstiller visningen.
+  const [splitFor, setSplitFor] = useState<typeof task | null>(null);
 
   useEffect(() => {
     if (!identityChecked) return;
@@ -278,176 +124,53 @@ export default function BroekerPage() {
     router.replace("/");
   }, [identityChecked, isJoined, joining, hasGlobalIdentity, router]);
 
-  useEffect(() => {
-    if (!roomId) return;
-    if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    const value =
-      answerNum || answerDen ? `${answerNum}/${answerDen}` : "";
-    inputDebounceRef.current = setTimeout(() => {
-      emitLiveEvent({ type: "input", value, ts: Date.now() });
-    }, 140);
-    return () => {
-      if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    };
-  }, [answerNum, answerDen, roomId]);
-
-  useEffect(() => {
-    return () => {
-      if (autoNextRef.current) {
-        clearTimeout(autoNextRef.current);
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    function onKey(e: KeyboardEvent) {
-      const target = e.target as HTMLElement | null;
-      if (
-        target &&
-        (target.tagName === "INPUT" ||
-          target.tagName === "TEXTAREA" ||
-          target.isContentEditable)
-      ) {
-        return;
-      }
-      if (e.key.toLowerCase() === "n" && !e.repeat) {
-        e.preventDefault();
-        newTask();
-      }
-    }
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [settings]);
-
-  const correct = useMemo(() => solveTask(task), [task]);
-  const equationText = useMemo(() => {
-    const aText = formatFractionText(task.a);
-    const bText =
-      typeof task.b === "number" ? String(task.b) : formatFractionText(task.b);
-    return `${aText} ${operationSymbols[task.operation]} ${bText}`;
-  }, [task]);
-
-  useEffect(() => {
-    if (!roomId) return;
-    emitLiveEvent({
-      type: "task",
-      equation: equationText,
-      operation: operationLabels[task.operation],
-      ts: Date.now(),
-    });
-  }, [roomId, equationText, task.operation]);
-
-  function updateSetting<K extends keyof Settings>(
-    key: K,
-    value: Settings[K]
-  ) {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    const next = { ...settings, [key]: value };
-    setSettings(next);
-    setTask(buildTask(next));
-    setAnswerNum("");
-    setAnswerDen("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-  function newTask() {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    setTask(buildTask(settings));
-    setAnswerNum("");
-    setAnswerDen("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-
-  function parseAnswer(): Fraction | null {
-    const n = Number.parseInt(answerNum.trim(), 10);
-    if (!Number.isFinite(n)) return null;
-    const denRaw = answerDen.trim();
-    const d = denRaw === "" ? 1 : Number.parseInt(denRaw, 10);
-    if (!Number.isFinite(d) || d === 0) return null;
-    return simplifyFraction({ n, d });
-  }
-
-  function checkAnswer() {
-    emitLiveEvent({ type: "action", action: "check", ts: Date.now() });
-    statsRef.current.attempts += 1;
-    if (revealed) {
-      setFeedback({
-        type: "info",
-        message: "Facit er vist. Lav en ny opgave for at fortsætte.",
-      });
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak,
-        ts: Date.now(),
-      });
-      return;
-    }
-    const parsed = parseAnswer();
-    if (!parsed) {
-      setFeedback({
-        type: "error",
-        message: "Skriv et gyldigt svar. Nævner må ikke være 0.",
+  const modelKind = settings.model === "none" ? null : settings.model;
+  const fractions = taskFractions(task);
+  const isConversion =
+    task.operation === "expand" || task.operation === "reduce";
+  const isArithmetic =
+    !isConversion && !["lcd", "compare", "order"].includes(task.operation);
+  // Faelles naevner vises kun, hvor den er et hjaelpetrin og ikke selve svaret.
+  const common = ["add", "subtract", "compare", "order"].includes(task.operation)
+    ? commonDenominator(fractions)
+    : null;
+  const canSplit =
+    !!common &&
+    fractions.every((f) => fitsModel(f, common)) &&
+    fractions.some((f) => f.d !== common);
+  const showSplit = splitFor === task;
+  const shading = modelKind ? shadingModel(task) : null;
+  const shadedCount =
+    shading && answer.den.trim() === String(shading.parts)
+      ? (Number.parseInt(answer.whole, 10) || 0) * shading.parts +
+        (Number.parseInt(answer.num, 10) || 0)
+      : 0;
+
+  // Klik paa en del skraverer op til og med den; klik paa den sidste fjerner den.
+  function pickShade(index: number) {
+    if (!shading) return;
+    const count = index + 1 === shadedCount ? index : index + 1;
+    if (task.answerForm === "mixed" && count >= shading.parts) {
+      setAnswer({
+        ...answer,
+        whole: String(Math.floor(count / shading.parts)),
+        num: String(count % shading.parts),
+        den: String(shading.parts),
       });
       return;
     }
-    const simplified = simplifyFraction(parsed);
-    if (simplified.n === correct.n && simplified.d === correct.d) {
-      setFeedback({ type: "correct", message: "Korrekt! Flot arbejde." });
-      const nextStreak = streak + 1;
-      setStreak(nextStreak);
-      statsRef.current.correct += 1;
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak: nextStreak,
-        ts: Date.now(),
-      });
-      if (nextStreak > bestStreak) {
-        setBestStreak(nextStreak);
-      }
-      setRevealed(true);
-      if (autoNextRef.current) {
-        clearTimeout(autoNextRef.current);
-      }
-      autoNextRef.current = setTimeout(() => {
-        newTask();
-      }, AUTO_NEXT_MS);
-      return;
-    }
-    setFeedback({
-      type: "wrong",
-      message: "Ikke helt. Prøv igen.",
-    });
-    setStreak(0);
-    emitLiveEvent({
-      type: "result",
-      attempts: statsRef.current.attempts,
-      correct: statsRef.current.correct,
-      streak: 0,
-      ts: Date.now(),
+    setAnswer({
+      ...answer,
+      whole: "",
+      num: String(count),
+      den: String(shading.parts),
     });
   }
 
-  function revealAnswer() {
-    emitLiveEvent({ type: "action", action: "reveal", ts: Date.now() });
-    setRevealed(true);
-    setFeedback({
-      type: "info",
-      message: `Facit: ${formatFractionText(correct)}.`,
-    });
-    setStreak(0);
+  // Klik paa en broek tilfoejer den til raekkefoelgen; valgte broeker springes over.
+  function pickOrder(index: number) {
+    if (answer.order.includes(index)) return;
+    setAnswer({ ...answer, order: [...answer.order, index] });
   }
 
   const selectClass =
@@ -486,16 +209,6 @@ export default function BroekerPage() {
     return null;
   }
 
-  function emitLiveEvent(event: LiveEvent) {
-    if (!roomId) return;
-    sendLiveEvent(roomId, event);
-  }
-
-  const level = Math.floor(streak / 5) + 1;
-  const progressInLevel = streak % 5;
-  const progress = progressInLevel / 5;
-  const toNext = progressInLevel === 0 ? 5 : 5 - progressInLevel;
-
   return (
     <main className="relative min-h-screen overflow-hidden px-6 py-10 md:px-10">
       <div
@@ -565,45 +278,175 @@ export default function BroekerPage() {
               </div>
 
               <div className="mt-8 flex flex-col gap-6">
-                <div className="flex flex-wrap items-center justify-center gap-6 text-2xl font-semibold text-slate-900">
-                  <FractionView value={task.a} />
-                  <span className="text-3xl text-slate-600">
-                    {operationSymbols[task.operation]}
-                  </span>
-                  {typeof task.b === "number" ? (
-                    <span className="text-3xl text-slate-900">{task.b}</span>
-                  ) : (
-                    <FractionView value={task.b} />
-                  )}
-                  <span className="text-3xl text-slate-600">=</span>
-                  <span className="text-2xl text-slate-500">?</span>
-                </div>
+                {task.operation === "order" && (
+                  <div className="flex flex-col items-center gap-4">
+                    <p className="text-sm text-slate-600">
+                      Klik på brøkerne fra mindst til størst.
+                    </p>
+                    <div className="flex flex-wrap justify-center gap-4">
+                      {fractions.map((f, i) => (
+                        <button
+                          key={i}
+                          type="button"
+                          disabled={revealed || answer.order.includes(i)}
+                          onClick={() => pickOrder(i)}
+                          className="rounded-2xl border border-black/10 bg-white px-5 py-3 shadow-sm transition hover:-translate-y-px hover:border-[var(--brand-2)] disabled:opacity-40"
+                        >
+                          <FractionView value={f} />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {task.operation === "lcd" && (
+                  <div className="flex flex-wrap items-center justify-center gap-6">
+                    <span className="text-base text-slate-600">
+                      Find mindste fællesnævner for
+                    </span>
+                    {fractions.map((f, i) => (
+                      <FractionView key={i} value={f} />
+                    ))}
+                  </div>
+                )}
+                {task.operation === "compare" && (
+                  <div className="flex flex-wrap items-center justify-center gap-6">
+                    <FractionView value={task.a} />
+                    <span className="min-w-[3rem] rounded-xl border border-dashed border-black/20 px-3 py-1 text-center text-3xl font-semibold text-slate-700">
+                      {answer.relation || "?"}
+                    </span>
+                    <FractionView value={task.b as Fraction} />
+                  </div>
+                )}
+                {isConversion && (
+                  <div className="flex flex-wrap items-center justify-center gap-6">
+                    <FractionView value={task.a} />
+                    <span className="text-3xl text-slate-600">=</span>
+                    <span className="inline-flex flex-col items-center leading-none">
+                      <span className="text-lg font-semibold text-slate-500">?</span>
+                      <span className="my-1 h-px w-8 bg-slate-900/70" />
+                      <span className="text-lg font-semibold text-slate-900">
+                        {task.b as number}
+                      </span>
+                    </span>
+                  </div>
+                )}
+                {isArithmetic && (
+                  <div className="flex flex-wrap items-center justify-center gap-6 text-2xl font-semibold text-slate-900">
+                    <FractionView value={task.a} mixed={task.mixed} />
+                    <span className="text-3xl text-slate-600">
+                      {operationSymbols[task.operation]}
+                    </span>
+                    {typeof task.b === "number" ? (
+                      <span className="text-3xl text-slate-900">{task.b}</span>
+                    ) : (
+                      <FractionView value={task.b} mixed={task.mixed} />
+                    )}
+                    <span className="text-3xl text-slate-600">=</span>
+                    <span className="text-2xl text-slate-500">?</span>
+                  </div>
+                )}
+
+                {modelKind && (
+                  <div className="flex flex-col items-center gap-3">
+                    <div className="flex flex-wrap items-start justify-center gap-6">
+                      {fractions.map(
+                        (f, i) =>
+                          fitsModel(f) && (
+                            <OperandModel
+                              key={i}
+                              kind={modelKind}
+                              value={f}
+                              split={canSplit && common ? common / f.d : 1}
+                              common={common ?? f.d}
+                              showSplit={showSplit}
+                            />
+                          )
+                      )}
+                    </div>
+                    {canSplit && (
+                      <button
+                        type="button"
+                        onClick={() => setSplitFor(showSplit ? null : task)}
+                        className="rounded-full border border-black/10 bg-white px-4 py-2 text-xs font-semibold text-slate-700 shadow-sm transition hover:translate-y-[-1px]"
+                      >
+                        {showSplit ? "Skjul fælles nævner" : "Vis fælles nævner"}
+                      </button>
+                    )}
+                  </div>
+                )}
 
                 <div className="flex flex-col gap-4">
-                  <div className="flex flex-col items-center gap-2">
-                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                      Svar
-                    </label>
-                    <div className="flex flex-col items-center">
-                      <input
-                        value={answerNum}
-                        onChange={(e) =>
-                          setAnswerNum(e.target.value.slice(0, MAX_ANSWER_LEN))
-                        }
-                        inputMode="numeric"
-                        onKeyDown={(e) => {
-                          if (e.key === "Enter") checkAnswer();
-                        }}
-                        maxLength={MAX_ANSWER_LEN}
+                  {shading && modelKind && (
+                    <div className="flex flex-col items-center gap-2">
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Skravér dit svar
+                      </label>
+                      <FractionModel
+                        kind={modelKind}
+                        parts={shading.parts}
+                        wholes={shading.wholes}
+                        shaded={shadedCount}
+                        onPick={pickShade}
                         disabled={revealed}
-                        className="w-20 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
-                        placeholder="tæller"
                       />
-                      <span className="my-1 h-px w-16 bg-slate-900/70" />
+                    </div>
+                  )}
+                  {task.operation === "compare" && (
+                    <div className="flex justify-center gap-3">
+                      {(["<", "=", ">"] as Comparison[]).map((relation) => (
+                        <button
+                          key={relation}
+                          type="button"
+                          disabled={revealed}
+                          onClick={() => setAnswer({ ...answer, relation })}
+                          className={`h-12 w-12 rounded-xl border text-2xl font-semibold shadow-sm transition disabled:opacity-50 ${
+                            answer.relation === relation
+                              ? "border-transparent bg-[var(--brand-2)] text-white"
+                              : "border-black/10 bg-white text-slate-800"
+                          }`}
+                        >
+                          {relation}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {task.operation === "order" && (
+                    <div className="flex flex-col items-center gap-2">
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Din rækkefølge
+                      </label>
+                      <div className="flex min-h-[3.5rem] flex-wrap items-center justify-center gap-3">
+                        {answer.order.map((index, i) => (
+                          <span key={index} className="flex items-center gap-3">
+                            {i > 0 && (
+                              <span className="text-2xl text-slate-600">&lt;</span>
+                            )}
+                            <FractionView value={fractions[index]} />
+                          </span>
+                        ))}
+                      </div>
+                      <button
+                        type="button"
+                        disabled={revealed || answer.order.length === 0}
+                        onClick={() => setAnswer({ ...answer, order: [] })}
+                        className="rounded-full border border-black/10 bg-white px-4 py-1 text-xs font-semibold text-slate-700 shadow-sm disabled:opacity-50"
+                      >
+                        Ryd
+                      </button>
+                    </div>
+                  )}
+                  {task.operation === "lcd" && (
+                    <div className="flex flex-col items-center gap-2">
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Mindste fællesnævner
+                      </label>
                       <input
-                        value={answerDen}
+                        value={answer.den}
                         onChange={(e) =>
-                          setAnswerDen(e.target.value.slice(0, MAX_ANSWER_LEN))
+                          setAnswer({
+                            ...answer,
+                            den: e.target.value.slice(0, MAX_ANSWER_LEN),
+                          })
                         }
                         inputMode="numeric"
                         onKeyDown={(e) => {
@@ -611,11 +454,76 @@ export default function BroekerPage() {
                         }}
                         maxLength={MAX_ANSWER_LEN}
                         disabled={revealed}
-                        className="w-20 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
-                        placeholder="nævner"
+                        className="w-24 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
                       />
                     </div>
-                  </div>
+                  )}
+                  {(isArithmetic || isConversion) && (
+                    <div className="flex flex-col items-center gap-2">
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Svar
+                      </label>
+                      <div className="flex items-center gap-2">
+                        {task.answerForm !== "improper" && !isConversion && (
+                          <input
+                            value={answer.whole}
+                            onChange={(e) =>
+                              setAnswer({
+                                ...answer,
+                                whole: e.target.value.slice(0, MAX_ANSWER_LEN),
+                              })
+                            }
+                            inputMode="numeric"
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") checkAnswer();
+                            }}
+                            maxLength={MAX_ANSWER_LEN}
+                            disabled={revealed}
+                            aria-label="Helt tal"
+                            className="w-16 rounded-lg border border-black/10 bg-white/90 px-2 py-2 text-center text-2xl font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                            placeholder="helt"
+                          />
+                        )}
+                        <div className="flex flex-col items-center">
+                          <input
+                            value={answer.num}
+                            onChange={(e) =>
+                              setAnswer({
+                                ...answer,
+                                num: e.target.value.slice(0, MAX_ANSWER_LEN),
+                              })
+                            }
+                            inputMode="numeric"
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") checkAnswer();
+                            }}
+                            maxLength={MAX_ANSWER_LEN}
+                            disabled={revealed}
+                            className="w-20 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                            placeholder="tæller"
+                          />
+                          <span className="my-1 h-px w-16 bg-slate-900/70" />
+                          <input
+                            value={answer.den}
+                            onChange={(e) =>
+                              setAnswer({
+                                ...answer,
+                                den: e.target.value.slice(0, MAX_ANSWER_LEN),
+                              })
+                            }
+                            inputMode="numeric"
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") checkAnswer();
+                            }}
+                            maxLength={MAX_ANSWER_LEN}
+                            disabled={revealed}
+                            className="w-20 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                            placeholder="nævner"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  )}
 
                   <div className="flex w-full flex-col gap-3 sm:flex-row">
                     <button
@@ -728,6 +636,11 @@ export default function BroekerPage() {
                         <option value="divide">Divider</option>
                         <option value="mulInt">Gange med helt tal</option>
                         <option value="divInt">Divider med helt tal</option>
+                        <option value="expand">Forlæng til ny nævner</option>
+                        <option value="reduce">Forkort til ny nævner</option>
+                        <option value="lcd">Mindste fællesnævner</option>
+                        <option value="compare">Sammenlign to brøker</option>
+                        <option value="order">Ordn efter størrelse</option>
                       </select>
                     </div>
 
@@ -747,6 +660,63 @@ export default function BroekerPage() {
                         <option value="large">Level 3</option>
                       </select>
                     </div>
+
+                    <div>
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Blandede tal i opgaven
+                      </label>
+                      <select
+                        className={selectClass}
+                        value={settings.mixedOperands ? "yes" : "no"}
+                        onChange={(e) =>
+                          updateSetting(
+                            "mixedOperands",
+                            e.target.value === "yes"
+                          )
+                        }
+                      >
+                        <option value="no">Nej - kun ægte brøker</option>
+                        <option value="yes">Ja - fx 2 1/3</option>
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Svarform
+                      </label>
+                      <select
+                        className={selectClass}
+                        value={settings.answerForm}
+                        onChange={(e) =>
+                          updateSetting(
+                            "answerForm",
+                            e.target.value as AnswerForm
+                          )
+                        }
+                      >
+                        <option value="any">Valgfri</option>
+                        <option value="mixed">Blandet tal</option>
+                        <option value="improper">Uægte brøk</option>
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Model
+                      </label>
+                      <select
+                        className={selectClass}
+                        value={settings.model}
+                        onChange={(e) =>
+                          updateSetting("model", e.target.value as Model)
+                        }
+                      >
+                        <option value="none">Ingen - kun tal</option>
+                        <option value="pie">Cirkel (lagkage)</option>
+                        <option value="bar">Stang</option>
+                        <option value="grid">Kvadratnet</option>
+                      </select>
+                    </div>
                   </div>
 
                 </>
@@ -1,211 +1,31 @@
-
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { LiveEvent } from "@/utils/liveTypes";
 import { useLiveSession } from "@/hooks/useLiveSession";
-import { sendLiveEvent } from "@/utils/liveRealtime";
+import { useTaskModule } from "@/hooks/useTaskModule";
+import NumberLine from "@/components/NumberLine";
 import Whiteboard from "@/components/Whiteboard";
+import { checkSteps, type StepStatus } from "@/utils/linearEquation";
+import {
+  ligningerModule,
+  numberLineExtent,
+  parseInequality,
+  type LigningerMode as Mode,
+  type LigningerOperation as Operation,
+  type LigningerRange as Range,
+} from "@/utils/tracks/ligninger";
 
-type Operation = "oneStep" | "twoStep" | "mixed";
-type Range = "small" | "medium" | "large";
-
-type Task = {
-  operation: Exclude<Operation, "mixed">;
-  equation: string;
-  expected: number;
-  label: string;
-};
-
-type Settings = {
-  operation: Operation;
-  range: Range;
-};
-
-const LS_STREAK = "ligninger_streak_v1";
-const LS_BEST_STREAK = "ligninger_best_streak_v1";
-const LS_SETTINGS = "ligninger_settings_v1";
-const AUTO_NEXT_MS = 1600;
 const MAX_ANSWER_LEN = 20;
+const MAX_STEPS_LEN = 300;
 
-const ranges: Record<
-  Range,
-  { xMin: number; xMax: number; coeffMax: number; offsetMax: number }
-> = {
-  small: { xMin: 1, xMax: 12, coeffMax: 5, offsetMax: 10 },
-  medium: { xMin: 2, xMax: 25, coeffMax: 8, offsetMax: 20 },
-  large: { xMin: 5, xMax: 50, coeffMax: 12, offsetMax: 35 },
+const stepIcons: Record<StepStatus, string> = {
+  ok: "✓",
+  invalid: "✗",
+  unreadable: "?",
 };
 
-function randInt(min: number, max: number) {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-function normalizeNumberString(raw: string) {
-  let s = raw.trim().replace(/\s+/g, "").replace(",", ".");
-  if (!s) return null;
-  if (!/^-?\d*(\.\d*)?$/.test(s)) return null;
-  if (s === "." || s === "-") return null;
-  if (s.startsWith(".")) s = `0${s}`;
-  const [intPartRaw, fracPartRaw] = s.split(".");
-  const intPart = intPartRaw.replace(/^(-?)0+(?=\d)/, "$1") || "0";
-  const fracPart = fracPartRaw?.replace(/0+$/, "") ?? "";
-  if (!fracPart) return intPart;
-  return `${intPart}.${fracPart}`;
-}
-
-function buildOneStep(range: Range): Task {
-  const { xMin, xMax, coeffMax, offsetMax } = ranges[range];
-  const kinds = ["add", "sub", "mul", "div"] as const;
-  for (let i = 0; i < 200; i += 1) {
-    const kind = kinds[randInt(0, kinds.length - 1)];
-    if (kind === "add") {
-      const x = randInt(xMin, xMax);
-      const b = randInt(1, offsetMax);
-      const c = x + b;
-      return {
-        operation: "oneStep",
-        equation: `x + ${b} = ${c}`,
-        expected: x,
-        label: "1 trin",
-      };
-    }
-    if (kind === "sub") {
-      const x = randInt(Math.max(2, xMin), xMax);
-      const bMax = Math.min(offsetMax, x - 1);
-      if (bMax < 1) continue;
-      const b = randInt(1, bMax);
-      const c = x - b;
-      return {
-        operation: "oneStep",
-        equation: `x - ${b} = ${c}`,
-        expected: x,
-        label: "1 trin",
-      };
-    }
-    if (kind === "mul") {
-      const x = randInt(xMin, xMax);
-      const a = randInt(2, coeffMax);
-      const c = a * x;
-      return {
-        operation: "oneStep",
-        equation: `${a}x = ${c}`,
-        expected: x,
-        label: "1 trin",
-      };
-    }
-    const a = randInt(2, coeffMax);
-    const cMax = Math.floor(xMax / a);
-    if (cMax < xMin) continue;
-    const c = randInt(xMin, cMax);
-    const x = a * c;
-    return {
-      operation: "oneStep",
-      equation: `x / ${a} = ${c}`,
-      expected: x,
-      label: "1 trin",
-    };
-  }
-  return {
-    operation: "oneStep",
-    equation: "x + 1 = 2",
-    expected: 1,
-    label: "1 trin",
-  };
-}
-
-function buildTwoStep(range: Range): Task {
-  const { xMin, xMax, coeffMax, offsetMax } = ranges[range];
-  const kinds = ["add", "sub", "bothSides"] as const;
-  for (let i = 0; i < 200; i += 1) {
-    const kind = kinds[randInt(0, kinds.length - 1)];
-    const x = randInt(xMin, xMax);
-    const a = randInt(2, coeffMax);
-    const formatSide = (coeff: number, constant: number) => {
-      if (constant === 0) return `${coeff}x`;
-      const sign = constant > 0 ? "+" : "-";
-      return `${coeff}x ${sign} ${Math.abs(constant)}`;
-    };
-    if (kind === "bothSides") {
-      let c = randInt(2, coeffMax);
-      if (coeffMax <= 2 && c === a) continue;
-      while (c === a) {
-        c = randInt(2, coeffMax);
-      }
-      const b = randInt(-offsetMax, offsetMax);
-      if (b === 0) continue;
-      const d = (a - c) * x + b;
-      if (d === 0 || Math.abs(d) > offsetMax) continue;
-      return {
-        operation: "twoStep",
-        equation: `${formatSide(a, b)} = ${formatSide(c, d)}`,
-        expected: x,
-        label: "2 trin",
-      };
-    }
-    if (kind === "add") {
-      const b = randInt(1, offsetMax);
-      const c = a * x + b;
-      return {
-        operation: "twoStep",
-        equation: `${a}x + ${b} = ${c}`,
-        expected: x,
-        label: "2 trin",
-      };
-    }
-    const bMax = Math.min(offsetMax, a * x - 1);
-    if (bMax < 1) continue;
-    const b = randInt(1, bMax);
-    const c = a * x - b;
-    return {
-      operation: "twoStep",
-      equation: `${a}x - ${b} = ${c}`,
-      expected: x,
-      label: "2 trin",
-    };
-  }
-  return {
-    operation: "twoStep",
-    equation: "2x + 3 = 11",
-    expected: 4,
-    label: "2 trin",
-  };
-}
-
-function buildTask(settings: Settings): Task {
-  const op =
-    settings.operation === "mixed"
-      ? Math.random() < 0.5
-        ? "oneStep"
-        : "twoStep"
-      : settings.operation;
-  return op === "oneStep"
-    ? buildOneStep(settings.range)
-    : buildTwoStep(settings.range);
-}
-
 export default function LigningerPage() {
-  const defaultSettings: Settings = {
-    operation: "mixed",
-    range: "small",
-  };
-
-  const loadSettings = () => {
-    if (typeof window === "undefined") return defaultSettings;
-    const saved = localStorage.getItem(LS_SETTINGS);
-    if (!saved) return defaultSettings;
-    try {
-      const parsed = JSON.parse(saved);
-      return {
-        ...defaultSettings,
-        ...parsed,
-      };
-    } catch {
-      return defaultSettings;
-    }
-  };
-
   const router = useRouter();
   const {
     isJoined,
@@ -213,47 +33,33 @@ export default function LigningerPage() {
     hasGlobalIdentity,
     identityChecked,
     roomId,
+    seed,
   } = useLiveSession({
-    storageKey: "ligninger",
-    trackLabel: "Ligninger",
+    storageKey: ligningerModule.id,
+    trackLabel: ligningerModule.trackLabel,
     onInvalidSession: () => router.replace("/"),
   });
-  const [settings, setSettings] = useState<Settings>(defaultSettings);
-  const [task, setTask] = useState<Task>(() => buildTask(defaultSettings));
-  const [settingsReady, setSettingsReady] = useState(false);
-  const [answer, setAnswer] = useState("");
-  const [feedback, setFeedback] = useState<{
-    type: "idle" | "correct" | "wrong" | "error" | "info";
-    message: string;
-  }>({ type: "idle", message: "" });
-  const [revealed, setRevealed] = useState(false);
+  const {
+    settings,
+    task,
+    updateSetting,
+    newTask,
+    answer,
+    setAnswer,
+    feedback,
+    revealed,
+    streak,
+    level,
+    progress,
+    toNext,
+    checkAnswer,
+    revealAnswer,
+    equationText,
+  } = useTaskModule(ligningerModule, roomId, seed);
   const [showSettings, setShowSettings] = useState(false);
   const [showCanvas, setShowCanvas] = useState(false);
-  const autoNextRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const inputDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const readNumber = (key: string, fallback: number) => {
-    if (typeof window === "undefined") return fallback;
-    const raw = localStorage.getItem(key);
-    const parsed = raw ? Number(raw) : NaN;
-    return Number.isFinite(parsed) ? parsed : fallback;
-  };
-  const [streak, setStreak] = useState(() => readNumber(LS_STREAK, 0));
-  const [bestStreak, setBestStreak] = useState(() =>
-    readNumber(LS_BEST_STREAK, 0)
-  );
-  const statsRef = useRef({ attempts: 0, correct: 0 });
-
-  useEffect(() => {
-    if (!settingsReady) return;
-    localStorage.setItem(LS_SETTINGS, JSON.stringify(settings));
-  }, [settings, settingsReady]);
-
-  useEffect(() => {
-    const loaded = loadSettings();
-    setSettings(loaded);
-    setTask(buildTask(loaded));
-    setSettingsReady(true);
-  }, []);
+  // Linjemarkeringer fra sidste tjek; gaelder kun saa laenge svaret er uaendret.
+  const [checked, setChecked] = useState({ answer: "", task });
 
   useEffect(() => {
     if (!identityChecked) return;
@@ -261,187 +67,20 @@ export default function LigningerPage() {
     if (hasGlobalIdentity) return;
     router.replace("/");
   }, [identityChecked, isJoined, joining, hasGlobalIdentity, router]);
-  useEffect(() => {
-    if (!roomId) return;
-    if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    inputDebounceRef.current = setTimeout(() => {
-      emitLiveEvent({ type: "input", value: answer, ts: Date.now() });
-    }, 140);
-    return () => {
-      if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    };
-  }, [answer, roomId]);
 
-  useEffect(() => {
-    return () => {
-      if (autoNextRef.current) {
-        clearTimeout(autoNextRef.current);
-      }
-    };
-  }, []);
+  const stepStatuses =
+    task.steps && checked.task === task && checked.answer === answer
+      ? checkSteps(task.equation, answer).statuses
+      : [];
 
-  useEffect(() => {
-    function onKey(e: KeyboardEvent) {
-      const target = e.target as HTMLElement | null;
-      if (
-        target &&
-        (target.tagName === "INPUT" ||
-          target.tagName === "TEXTAREA" ||
-          target.isContentEditable)
-      ) {
-        return;
-      }
-      if (e.key.toLowerCase() === "n" && !e.repeat) {
-        e.preventDefault();
-        newTask();
-      }
-    }
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [settings]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_STREAK, String(streak));
-  }, [streak]);
+  const inequality = task.relation ? parseInequality(answer) : null;
+  const extent = numberLineExtent(task);
 
-  useEffect(() => {
-    localStorage.setItem(LS_BEST_STREAK, String(bestStreak));
-  }, [bestStreak]);
-
-  const equationText = useMemo(() => task.equation, [task]);
-  const operationLabel = useMemo(
-    () => (task.operation === "oneStep" ? "Ligninger (1 trin)" : "Ligninger (2 trin)"),
-    [task.operation]
-  );
-
-  useEffect(() => {
-    if (!roomId) return;
-    emitLiveEvent({
-      type: "task",
-      equation: equationText,
-      operation: operationLabel,
-      ts: Date.now(),
-    });
-  }, [roomId, equationText, operationLabel]);
-
-  function updateSetting<K extends keyof Settings>(key: K, value: Settings[K]) {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    const next = { ...settings, [key]: value };
-    setSettings(next);
-    setTask(buildTask(next));
-    setAnswer("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-  function newTask() {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    setTask(buildTask(settings));
-    setAnswer("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-  function parseAnswer() {
-    return normalizeNumberString(answer);
+  function checkCurrent() {
+    setChecked({ answer, task });
+    checkAnswer();
   }
 
-  function checkAnswer() {
-    emitLiveEvent({ type: "action", action: "check", ts: Date.now() });
-    statsRef.current.attempts += 1;
-    if (revealed) {
-      setFeedback({
-        type: "info",
-        message: "Facit er vist. Lav en ny opgave for at fortsætte.",
-      });
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak,
-        ts: Date.now(),
-      });
-      return;
-    }
-    const parsed = parseAnswer();
-    if (!parsed) {
-      setFeedback({
-        type: "error",
-        message: "Skriv et gyldigt tal.",
-      });
-      return;
-    }
-    const expected = String(task.expected);
-    if (parsed === expected) {
-      setFeedback({ type: "correct", message: "Korrekt! Flot arbejde." });
-      const nextStreak = streak + 1;
-      setStreak(nextStreak);
-      statsRef.current.correct += 1;
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak: nextStreak,
-        ts: Date.now(),
-      });
-      if (nextStreak > bestStreak) {
-        setBestStreak(nextStreak);
-      }
-      setRevealed(true);
-      if (autoNextRef.current) {
-        clearTimeout(autoNextRef.current);
-      }
-      autoNextRef.current = setTimeout(() => {
-        newTask();
-      }, AUTO_NEXT_MS);
-      return;
-    }
-    setFeedback({
-      type: "wrong",
-      message: "Ikke helt. Prøv igen.",
-    });
-    setStreak(0);
-    emitLiveEvent({
-      type: "result",
-      attempts: statsRef.current.attempts,
-      correct: statsRef.current.correct,
-      streak: 0,
-      ts: Date.now(),
-    });
-  }
-
-  function revealAnswer() {
-    emitLiveEvent({ type: "action", action: "reveal", ts: Date.now() });
-    setRevealed(true);
-    setFeedback({
-      type: "info",
-      message: `Facit: x = ${task.expected}`,
-    });
-    setStreak(0);
-    emitLiveEvent({
-      type: "result",
-      attempts: statsRef.current.attempts,
-      correct: statsRef.current.correct,
-      streak: 0,
-      ts: Date.now(),
-    });
-  }
-  function emitLiveEvent(event: LiveEvent) {
-    if (!roomId) return;
-    sendLiveEvent(roomId, event);
-  }
-
-  const level = Math.floor(streak / 5) + 1;
-  const progressInLevel = streak % 5;
-  const progress = progressInLevel / 5;
-  const toNext = progressInLevel === 0 ? 5 : 5 - progressInLevel;
-
   const selectClass =
     "mt-2 w-full rounded-xl border border-black/10 bg-white/80 px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
 
@@ -498,7 +137,8 @@ export default function LigningerPage() {
               Ligningsværksted
             </h1>
             <p className="max-w-xl text-base text-slate-600">
-              Træn i at isolere x med 1- og 2-trins ligninger.
+              Træn i at isolere x - fra 1- og 2-trins ligninger til parenteser
+              og løsninger, der er negative tal eller brøker.
             </p>
           </div>
           <div className="flex flex-wrap gap-3">
@@ -550,29 +190,88 @@ export default function LigningerPage() {
                 </div>
 
                 <div className="flex flex-col gap-4">
-                  <div className="flex flex-col items-center gap-2">
-                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                      Svar (x)
-                    </label>
-                    <input
-                      value={answer}
-                      onChange={(e) =>
-                        setAnswer(e.target.value.slice(0, MAX_ANSWER_LEN))
-                      }
-                      inputMode="numeric"
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter") checkAnswer();
-                      }}
-                      maxLength={MAX_ANSWER_LEN}
-                      disabled={revealed}
-                      className="w-44 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
-                      placeholder="x = ?"
-                    />
-                  </div>
+                  {task.steps ? (
+                    <div className="flex flex-col items-center gap-2">
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Dine trin (én ligning pr. linje)
+                      </label>
+                      <div className="flex w-full max-w-md gap-2">
+                        <textarea
+                          value={answer}
+                          onChange={(e) =>
+                            setAnswer(e.target.value.slice(0, MAX_STEPS_LEN))
+                          }
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                              checkCurrent();
+                            }
+                          }}
+                          rows={5}
+                          maxLength={MAX_STEPS_LEN}
+                          disabled={revealed}
+                          spellCheck={false}
+                          className="flex-1 resize-y rounded-lg border border-black/10 bg-white/90 px-3 py-2 font-mono text-lg leading-8 shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                          placeholder={"2x = 8\nx = 4"}
+                        />
+                        {stepStatuses.length > 0 && (
+                          <div className="flex flex-col py-2 font-mono text-lg leading-8">
+                            {stepStatuses.map((status, index) => (
+                              <span
+                                key={index}
+                                className={
+                                  status === "ok"
+                                    ? "text-emerald-600"
+                                    : "text-red-600"
+                                }
+                              >
+                                {stepIcons[status]}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex flex-col items-center gap-2">
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Svar (x)
+                      </label>
+                      <input
+                        value={answer}
+                        onChange={(e) =>
+                          setAnswer(e.target.value.slice(0, MAX_ANSWER_LEN))
+                        }
+                        inputMode="text"
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") checkAnswer();
+                        }}
+                        maxLength={MAX_ANSWER_LEN}
+                        disabled={revealed}
+                        className="w-44 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                        placeholder={task.relation ? "x < ?" : "x = ?"}
+                      />
+                      {task.relation && (
+                        <NumberLine
+                          min={-extent}
+                          max={extent}
+                          boundary={
+                            inequality
+                              ? inequality.value.n / inequality.value.d
+                              : null
+                          }
+                          relation={inequality?.relation ?? null}
+                          onChange={(boundary, relation) =>
+                            setAnswer(`x ${relation} ${boundary}`)
+                          }
+                          disabled={revealed}
+                        />
+                      )}
+                    </div>
+                  )}
 
                   <div className="flex w-full flex-col gap-3 sm:flex-row">
                     <button
-                      onClick={checkAnswer}
+                      onClick={checkCurrent}
                       disabled={revealed}
                       className="flex-1 rounded-full bg-[var(--brand-2)] px-4 py-3 text-sm font-semibold text-white shadow-lg shadow-blue-200/50 transition hover:translate-y-[-1px] hover:bg-blue-600 disabled:opacity-50"
                     >
@@ -610,7 +309,11 @@ export default function LigningerPage() {
                   </div>
                 )}
                 <p className="text-sm text-slate-500">
-                  Tip: Tryk Enter for at tjekke, og N for ny opgave.
+                  {task.steps
+                    ? "Tip: Skriv hver omformning på en ny linje, og slut med x = ... Tryk Ctrl+Enter for at tjekke."
+                    : task.relation
+                    ? "Tip: Skriv fx x ≥ -2 (eller x >= -2), eller klik på tallinjen. Husk at vende tegnet, når du dividerer med et negativt tal."
+                    : "Tip: Skriv brøker som -3/4 og decimaltal med komma. Tryk Enter for at tjekke, og N for ny opgave."}
                 </p>
               </div>
             </div>
@@ -670,9 +373,28 @@ export default function LigningerPage() {
                         updateSetting("operation", e.target.value as Operation)
                       }
                     >
-                      <option value="mixed">Blandet</option>
+                      <option value="mixed">Blandet (1-2 trin)</option>
                       <option value="oneStep">1 trin</option>
                       <option value="twoStep">2 trin</option>
+                      <option value="parens">Parenteser</option>
+                      <option value="fractions">Brøk- og decimalløsninger</option>
+                      <option value="inequalities">Uligheder</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Svarform
+                    </label>
+                    <select
+                      className={selectClass}
+                      value={settings.mode}
+                      onChange={(e) =>
+                        updateSetting("mode", e.target.value as Mode)
+                      }
+                    >
+                      <option value="answer">Kun facit (x = ...)</option>
+                      <option value="steps">Trin for trin</option>
                     </select>
                   </div>
 
@@ -0,0 +1,402 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useLiveSession } from "@/hooks/useLiveSession";
+import { useTaskModule } from "@/hooks/useTaskModule";
+import Whiteboard from "@/components/Whiteboard";
+import { drawSystemPlot } from "@/utils/systemPlot";
+import {
+  formatSystemEquation,
+  ligningssystemerModule,
+  methodLabels,
+  type SystemMethod as Method,
+  type SystemRange as Range,
+} from "@/utils/tracks/ligningssystemer";
+
+const MAX_ANSWER_LEN = 6;
+
+export default function LigningssystemerPage() {
+  const router = useRouter();
+  const {
+    isJoined,
+    joining,
+    hasGlobalIdentity,
+    identityChecked,
+    roomId,
+    seed,
+  } = useLiveSession({
+    storageKey: ligningssystemerModule.id,
+    trackLabel: ligningssystemerModule.trackLabel,
+    onInvalidSession: () => router.replace("/"),
+  });
+  const {
+    settings,
+    task,
+    updateSetting,
+    newTask,
+    answer,
+    setAnswer,
+    feedback,
+    revealed,
+    streak,
+    level,
+    progress,
+    toNext,
+    checkAnswer,
+    revealAnswer,
+  } = useTaskModule(ligningssystemerModule, roomId, seed);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showCanvas, setShowCanvas] = useState(false);
+
+  useEffect(() => {
+    if (!identityChecked) return;
+    if (isJoined || joining) return;
+    if (hasGlobalIdentity) return;
+    router.replace("/");
+  }, [identityChecked, isJoined, joining, hasGlobalIdentity, router]);
+
+  const inputClass =
+    "w-24 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
+
+  const selectClass =
+    "mt-2 w-full rounded-xl border border-black/10 bg-white/80 px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
+
+  if (!isJoined) {
+    if (hasGlobalIdentity) {
+      return (
+        <main className="relative min-h-screen overflow-hidden px-6 py-10 md:px-10">
+          <div
+            aria-hidden
+            className="pointer-events-none absolute -top-24 right-0 h-64 w-64 rounded-full bg-[var(--brand-2)]/20 blur-3xl float-slow"
+          />
+          <div
+            aria-hidden
+            className="pointer-events-none absolute bottom-0 left-0 h-72 w-72 rounded-full bg-[var(--brand-1)]/20 blur-3xl float-slow"
+          />
+          <div className="relative mx-auto flex max-w-3xl flex-col gap-6">
+            <header className="flex flex-col gap-4 rise-in">
+              <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+                Forbinder
+              </p>
+              <h1 className="text-4xl font-[var(--font-display)] text-slate-900 md:text-5xl">
+                Klar om et øjeblik
+              </h1>
+              <p className="max-w-2xl text-base text-slate-600">
+                Vi forbinder til din session.
+              </p>
+            </header>
+          </div>
+        </main>
+      );
+    }
+
+    return null;
+  }
+
+  return (
+    <main className="relative min-h-screen overflow-hidden px-6 py-10 md:px-10">
+      <div
+        aria-hidden
+        className="pointer-events-none absolute -top-24 right-0 h-64 w-64 rounded-full bg-[var(--brand-2)]/20 blur-3xl float-slow"
+      />
+      <div
+        aria-hidden
+        className="pointer-events-none absolute bottom-0 left-0 h-72 w-72 rounded-full bg-[var(--brand-1)]/20 blur-3xl float-slow"
+      />
+
+      <div className="relative mx-auto flex max-w-6xl flex-col gap-8">
+        <header className="flex flex-col gap-5 md:flex-row md:items-end md:justify-between rise-in">
+          <div className="space-y-3">
+            <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+              Ligningssystemer
+            </p>
+            <h1 className="text-4xl font-[var(--font-display)] text-slate-900 md:text-5xl">
+              To ligninger, to ubekendte
+            </h1>
+            <p className="max-w-xl text-base text-slate-600">
+              Find det talpar (x, y), der passer i begge ligninger - med
+              substitution, lige store koefficienter eller en graf.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <div className="rounded-2xl border border-[var(--border)] bg-[var(--panel)]/80 px-4 py-3 shadow-[var(--shadow-1)]">
+              <div className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                Genvej
+              </div>
+              <div className="text-lg font-semibold text-slate-800">
+                N = ny opgave
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <section className="grid gap-6 lg:grid-cols-[1.1fr,0.9fr]">
+          <div className="rise-in rise-in-delay-1">
+            <div className="rounded-3xl border border-[var(--border)] bg-[var(--panel)]/90 p-6 shadow-[var(--shadow-1)] backdrop-blur">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-xs uppercase tracking-[0.25em] text-slate-500">
+                    Opgave
+                  </p>
+                  <h2 className="text-2xl font-semibold text-slate-900">
+                    Løs ligningssystemet
+                  </h2>
+                </div>
+                <div className="min-w-[180px] rounded-2xl border border-[var(--border)] bg-[var(--panel)]/80 px-4 py-3 shadow-[var(--shadow-1)]">
+                  <div className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                    Niveau {level}
+                  </div>
+                  <div className="text-lg font-semibold text-slate-800">
+                    {streak} streak
+                  </div>
+                  <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-black/10">
+                    <div
+                      className="h-full rounded-full bg-[var(--brand-2)] transition-all"
+                      style={{ width: `${Math.round(progress * 100)}%` }}
+                    />
+                  </div>
+                  <div className="mt-1 text-[11px] text-slate-500">
+                    {toNext} til næste level
+                  </div>
+                </div>
+              </div>
+
+              <div className="mt-8 flex flex-col gap-6">
+                <div className="flex justify-center">
+                  <div className="flex items-stretch gap-3 text-2xl font-semibold text-slate-900">
+                    <span className="text-5xl font-light text-slate-400">{"{"}</span>
+                    <div className="flex flex-col justify-center gap-2">
+                      {task.equations.map((equation, index) => (
+                        <span key={index}>{formatSystemEquation(equation)}</span>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex flex-col gap-4">
+                  <div className="flex flex-wrap items-end justify-center gap-4">
+                    <label className="flex flex-col items-center gap-2 text-xs uppercase tracking-[0.2em] text-slate-500">
+                      x
+                      <input
+                        value={answer.x}
+                        onChange={(e) =>
+                          setAnswer({
+                            ...answer,
+                            x: e.target.value.slice(0, MAX_ANSWER_LEN),
+                          })
+                        }
+                        inputMode="numeric"
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") checkAnswer();
+                        }}
+                        maxLength={MAX_ANSWER_LEN}
+                        disabled={revealed}
+                        className={inputClass}
+                        placeholder="x"
+                      />
+                    </label>
+                    <label className="flex flex-col items-center gap-2 text-xs uppercase tracking-[0.2em] text-slate-500">
+                      y
+                      <input
+                        value={answer.y}
+                        onChange={(e) =>
+                          setAnswer({
+                            ...answer,
+                            y: e.target.value.slice(0, MAX_ANSWER_LEN),
+                          })
+                        }
+                        inputMode="numeric"
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") checkAnswer();
+                        }}
+                        maxLength={MAX_ANSWER_LEN}
+                        disabled={revealed}
+                        className={inputClass}
+                        placeholder="y"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-2 text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Metode (valgfri)
+                      <select
+                        value={answer.method}
+                        onChange={(e) =>
+                          setAnswer({ ...answer, method: e.target.value as Method })
+                        }
+                        disabled={revealed}
+                        className="rounded-lg border border-black/10 bg-white/90 px-3 py-2.5 text-sm normal-case tracking-normal text-slate-700 shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                      >
+                        <option value="">Vælg metode</option>
+                        {Object.entries(methodLabels).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+
+                  <div className="flex w-full flex-col gap-3 sm:flex-row">
+                    <button
+                      onClick={checkAnswer}
+                      disabled={revealed}
+                      className="flex-1 rounded-full bg-[var(--brand-2)] px-4 py-3 text-sm font-semibold text-white shadow-lg shadow-blue-200/50 transition hover:translate-y-[-1px] hover:bg-blue-600 disabled:opacity-50"
+                    >
+                      Tjek svar
+                    </button>
+                    <button
+                      onClick={revealAnswer}
+                      disabled={revealed}
+                      className="flex-1 rounded-full border border-black/10 bg-white px-4 py-3 text-sm font-semibold text-slate-800 shadow-sm transition hover:translate-y-[-1px] disabled:opacity-50"
+                    >
+                      Vis facit
+                    </button>
+                    <button
+                      onClick={() => setShowCanvas((prev) => !prev)}
+                      className="flex-1 rounded-full border border-black/10 bg-white px-4 py-3 text-sm font-semibold text-slate-800 shadow-sm transition hover:translate-y-[-1px]"
+                    >
+                      {showCanvas ? "Skjul whiteboard" : "Whiteboard"}
+                    </button>
+                  </div>
+                </div>
+
+                {feedback.type !== "idle" && (
+                  <div
+                    className={`rounded-2xl border px-4 py-3 text-sm ${
+                      feedback.type === "correct"
+                        ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                        : feedback.type === "wrong"
+                        ? "border-amber-200 bg-amber-50 text-amber-700"
+                        : feedback.type === "info"
+                        ? "border-sky-200 bg-sky-50 text-sky-700"
+                        : "border-red-200 bg-red-50 text-red-700"
+                    }`}
+                  >
+                    {feedback.message}
+                  </div>
+                )}
+                <p className="text-sm text-slate-500">
+                  Tip: Whiteboardet har et koordinatsystem, hvor du kan tegne
+                  linjerne. Tryk Enter for at tjekke, og N for ny opgave.
+                </p>
+              </div>
+            </div>
+
+            <Whiteboard
+              visible={showCanvas}
+              roomId={roomId}
+              resetKey={task}
+              enableWheelZoom
+              enablePinchZoom
+              showZoomButtons={false}
+              blockPageScroll
+              height={420}
+              background={(ctx, center) =>
+                drawSystemPlot(ctx, center, task, settings.showLines)
+              }
+            />
+          </div>
+          <div className="rise-in rise-in-delay-2">
+            <div className="rounded-3xl border border-[var(--border)] bg-[var(--panel)]/90 p-6 shadow-[var(--shadow-1)] backdrop-blur">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <p className="text-xs uppercase tracking-[0.25em] text-slate-500">
+                    Missionskontrol
+                  </p>
+                  <h2 className="text-2xl font-semibold text-slate-900">
+                    Indstillinger
+                  </h2>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setShowSettings((prev) => !prev)}
+                    aria-label={
+                      showSettings ? "Skjul indstillinger" : "Vis indstillinger"
+                    }
+                    title={
+                      showSettings ? "Skjul indstillinger" : "Vis indstillinger"
+                    }
+                    className="flex items-center justify-center rounded-full border border-black/10 bg-white p-2 text-slate-700 shadow-sm transition"
+                  >
+                    <img
+                      src="/gear.png"
+                      alt=""
+                      aria-hidden="true"
+                      className="h-4 w-4"
+                    />
+                  </button>
+                </div>
+              </div>
+
+              {showSettings ? (
+                <div className="mt-6 grid gap-5">
+                  <div>
+                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Sværhedsgrad
+                    </label>
+                    <select
+                      className={selectClass}
+                      value={settings.range}
+                      onChange={(e) =>
+                        updateSetting("range", e.target.value as Range)
+                      }
+                    >
+                      <option value="small">Level 1</option>
+                      <option value="medium">Level 2</option>
+                      <option value="large">Level 3</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Graf på whiteboard
+                    </label>
+                    <select
+                      className={selectClass}
+                      value={settings.showLines ? "lines" : "grid"}
+                      onChange={(e) =>
+                        updateSetting("showLines", e.target.value === "lines")
+                      }
+                    >
+                      <option value="lines">Koordinatsystem med linjer</option>
+                      <option value="grid">Kun koordinatsystem</option>
+                    </select>
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-6 rounded-2xl border border-dashed border-black/10 bg-white/70 px-4 py-4 text-sm text-slate-600">
+                  Indstillingerne er skjult. Tryk på tandhjulet for at åbne dem
+                  igen.
+                </div>
+              )}
+
+              <button
+                onClick={newTask}
+                className="mt-6 w-full rounded-full bg-[var(--brand-3)] px-4 py-3 text-sm font-semibold text-white shadow-lg shadow-emerald-200/40 transition hover:translate-y-[-1px] hover:bg-emerald-600"
+              >
+                Ny opgave
+              </button>
+            </div>
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
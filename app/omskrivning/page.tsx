@@ -1,189 +1,21 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { LiveEvent } from "@/utils/liveTypes";
 import { useLiveSession } from "@/hooks/useLiveSession";
-import { sendLiveEvent } from "@/utils/liveRealtime";
+import { useTaskModule } from "@/hooks/useTaskModule";
 import Whiteboard from "@/components/Whiteboard";
+import {
+  formatDecimalDisplay,
+  givenDisplay as formatGiven,
+  omskrivningModule,
+  splitPeriod,
+  type OmskrivningDifficulty as Difficulty,
+} from "@/utils/tracks/omskrivning";
 
-type Difficulty = "easy" | "medium" | "hard";
-type GivenType = "fraction" | "decimal" | "percent";
-
-type Fraction = { n: number; d: number };
-type Task = {
-  givenType: GivenType;
-  fraction: Fraction;
-  decimal: string;
-  percent: string;
-  label: string;
-};
-
-type Settings = {
-  difficulty: Difficulty;
-};
-
-const LS_STREAK = "omskrivning_streak_v1";
-const LS_BEST_STREAK = "omskrivning_best_streak_v1";
-const LS_SETTINGS = "omskrivning_settings_v1";
-const AUTO_NEXT_MS = 1600;
 const MAX_ANSWER_LEN = 20;
 
-const difficulties: Record<
-  Difficulty,
-  { denominators: number[]; numeratorMaxFactor: number; label: string }
-> = {
-  easy: {
-    denominators: [2, 4, 5, 10, 20, 25, 50],
-    numeratorMaxFactor: 1,
-    label: "Let",
-  },
-  medium: {
-    denominators: [4, 5, 8, 10, 16, 20, 25, 40, 50, 125],
-    numeratorMaxFactor: 2,
-    label: "Mellem",
-  },
-  hard: {
-    denominators: [8, 10, 16, 20, 32, 40, 50, 64, 100, 125, 200, 250, 500],
-    numeratorMaxFactor: 3,
-    label: "Svær",
-  },
-};
-
-function randInt(min: number, max: number) {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-function gcd(a: number, b: number) {
-  let x = Math.abs(a);
-  let y = Math.abs(b);
-  while (y !== 0) {
-    const t = x % y;
-    x = y;
-    y = t;
-  }
-  return x || 1;
-}
-
-function simplifyFraction(f: Fraction): Fraction {
-  const sign = f.d < 0 ? -1 : 1;
-  const n = f.n * sign;
-  const d = f.d * sign;
-  const g = gcd(n, d);
-  return { n: n / g, d: d / g };
-}
-
-function decimalFromFraction(n: number, d: number) {
-  const sign = n < 0 ? "-" : "";
-  let nn = Math.abs(n);
-  let dd = Math.abs(d);
-  const g = gcd(nn, dd);
-  nn /= g;
-  dd /= g;
-  let tmp = dd;
-  let pow2 = 0;
-  let pow5 = 0;
-  while (tmp % 2 === 0) {
-    pow2 += 1;
-    tmp /= 2;
-  }
-  while (tmp % 5 === 0) {
-    pow5 += 1;
-    tmp /= 5;
-  }
-  if (tmp !== 1) {
-    const fallback = (sign ? -1 : 1) * (nn / dd);
-    return String(fallback);
-  }
-  const k = Math.max(pow2, pow5);
-  const scale = 10 ** k;
-  const value = (nn * scale) / dd;
-  let digits = String(value);
-  if (k === 0) return sign + digits;
-  if (digits.length <= k) digits = digits.padStart(k + 1, "0");
-  const intPart = digits.slice(0, digits.length - k);
-  const fracPart = digits.slice(digits.length - k);
-  let s = `${intPart}.${fracPart}`;
-  s = s.replace(/0+$/, "").replace(/\.$/, "");
-  return sign + s;
-}
-
-function normalizeNumberString(raw: string) {
-  let s = raw.trim().replace(/\s+/g, "").replace(",", ".");
-  if (!s) return null;
-  if (!/^-?\d*(\.\d*)?$/.test(s)) return null;
-  if (s === "." || s === "-") return null;
-  if (s.startsWith(".")) s = `0${s}`;
-  const [intPartRaw, fracPartRaw] = s.split(".");
-  const intPart = intPartRaw.replace(/^(-?)0+(?=\d)/, "$1") || "0";
-  const fracPart = fracPartRaw?.replace(/0+$/, "") ?? "";
-  if (!fracPart) return intPart;
-  return `${intPart}.${fracPart}`;
-}
-
-function normalizePercentInput(raw: string) {
-  const trimmed = raw.replace("%", "");
-  return normalizeNumberString(trimmed);
-}
-
-function formatFractionDisplay(value: Fraction) {
-  if (value.d === 1) return String(value.n);
-  return `${value.n}/${value.d}`;
-}
-
-function formatDecimalDisplay(value: string) {
-  return value.replace(".", ",");
-}
-
-function parseFraction(raw: string): Fraction | null {
-  const s = raw.trim().replace(/\s+/g, "");
-  if (!s) return null;
-  if (s.includes("/")) {
-    const [nRaw, dRaw] = s.split("/");
-    if (!nRaw || !dRaw) return null;
-    const n = Number.parseInt(nRaw, 10);
-    const d = Number.parseInt(dRaw, 10);
-    if (!Number.isFinite(n) || !Number.isFinite(d) || d === 0) return null;
-    return simplifyFraction({ n, d });
-  }
-  const n = Number.parseInt(s, 10);
-  if (!Number.isFinite(n)) return null;
-  return simplifyFraction({ n, d: 1 });
-}
-
-function buildTask(settings: Settings): Task {
-  const { denominators, numeratorMaxFactor, label } =
-    difficulties[settings.difficulty];
-  const d = denominators[randInt(0, denominators.length - 1)];
-  const maxNumerator = d * numeratorMaxFactor;
-  const n = randInt(1, Math.max(1, maxNumerator));
-  const fraction = simplifyFraction({ n, d });
-  const decimal = decimalFromFraction(fraction.n, fraction.d);
-  const percent = decimalFromFraction(fraction.n * 100, fraction.d);
-  const givenType = (["fraction", "decimal", "percent"] as const)[
-    randInt(0, 2)
-  ];
-  return { givenType, fraction, decimal, percent, label };
-}
-
 export default function OmskrivningPage() {
-  const defaultSettings: Settings = { difficulty: "easy" };
-
-  const loadSettings = () => {
-    if (typeof window === "undefined") return defaultSettings;
-    const saved = localStorage.getItem(LS_SETTINGS);
-    if (!saved) return defaultSettings;
-    try {
-      const parsed = JSON.parse(saved);
-      return {
-        ...defaultSettings,
-        ...parsed,
-      };
-    } catch {
-      return defaultSettings;
-    }
-  };
-
   const router = useRouter();
   const {
     isJoined,
@@ -191,49 +23,30 @@ export default function OmskrivningPage() {
     hasGlobalIdentity,
     identityChecked,
     roomId,
+    seed,
   } = useLiveSession({
-    storageKey: "omskrivning",
-    trackLabel: "Omskrivning",
+    storageKey: omskrivningModule.id,
+    trackLabel: omskrivningModule.trackLabel,
     onInvalidSession: () => router.replace("/"),
   });
-  const [settings, setSettings] = useState<Settings>(defaultSettings);
-  const [task, setTask] = useState<Task>(() => buildTask(defaultSettings));
-  const [settingsReady, setSettingsReady] = useState(false);
-  const [answerFraction, setAnswerFraction] = useState("");
-  const [answerDecimal, setAnswerDecimal] = useState("");
-  const [answerPercent, setAnswerPercent] = useState("");
-  const [feedback, setFeedback] = useState<{
-    type: "idle" | "correct" | "wrong" | "error" | "info";
-    message: string;
-  }>({ type: "idle", message: "" });
-  const [revealed, setRevealed] = useState(false);
+  const {
+    settings,
+    task,
+    updateSetting,
+    newTask,
+    answer,
+    setAnswer,
+    feedback,
+    revealed,
+    streak,
+    level,
+    progress,
+    toNext,
+    checkAnswer,
+    revealAnswer,
+  } = useTaskModule(omskrivningModule, roomId, seed);
   const [showSettings, setShowSettings] = useState(false);
   const [showCanvas, setShowCanvas] = useState(false);
-  const autoNextRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const inputDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const readNumber = (key: string, fallback: number) => {
-    if (typeof window === "undefined") return fallback;
-    const raw = localStorage.getItem(key);
-    const parsed = raw ? Number(raw) : NaN;
-    return Number.isFinite(parsed) ? parsed : fallback;
-  };
-  const [streak, setStreak] = useState(() => readNumber(LS_STREAK, 0));
-  const [bestStreak, setBestStreak] = useState(() =>
-    readNumber(LS_BEST_STREAK, 0)
-  );
-  const statsRef = useRef({ attempts: 0, correct: 0 });
-
-  useEffect(() => {
-    if (!settingsReady) return;
-    localStorage.setItem(LS_SETTINGS, JSON.stringify(settings));
-  }, [settings, settingsReady]);
-
-  useEffect(() => {
-    const loaded = loadSettings();
-    setSettings(loaded);
-    setTask(buildTask(loaded));
-    setSettingsReady(true);
-  }, []);
 
   useEffect(() => {
     if (!identityChecked) return;
@@ -241,250 +54,21 @@ export default function OmskrivningPage() {
     if (hasGlobalIdentity) return;
     router.replace("/");
   }, [identityChecked, isJoined, joining, hasGlobalIdentity, router]);
-
-  useEffect(() => {
-    if (!roomId) return;
-    if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    const value = [answerFraction, answerDecimal, answerPercent]
-      .filter(Boolean)
-      .join(" | ");
-    inputDebounceRef.current = setTimeout(() => {
-      emitLiveEvent({ type: "input", value, ts: Date.now() });
-    }, 140);
-    return () => {
-      if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    };
-  }, [answerFraction, answerDecimal, answerPercent, roomId]);
-
-  useEffect(() => {
-    return () => {
-      if (autoNextRef.current) {
-        clearTimeout(autoNextRef.current);
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    function onKey(e: KeyboardEvent) {
-      const target = e.target as HTMLElement | null;
-      if (
-        target &&
-        (target.tagName === "INPUT" ||
-          target.tagName === "TEXTAREA" ||
-          target.isContentEditable)
-      ) {
-        return;
-      }
-      if (e.key.toLowerCase() === "n" && !e.repeat) {
-        e.preventDefault();
-        newTask();
-      }
-    }
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [settings]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_STREAK, String(streak));
-  }, [streak]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_BEST_STREAK, String(bestStreak));
-  }, [bestStreak]);
-
-  const givenDisplay = useMemo(() => {
-    if (task.givenType === "fraction") {
-      return formatFractionDisplay(task.fraction);
-    }
-    if (task.givenType === "decimal") {
-      return formatDecimalDisplay(task.decimal);
-    }
-    return `${formatDecimalDisplay(task.percent)}%`;
-  }, [task]);
-
-  const givenLabel = useMemo(() => {
-    if (task.givenType === "fraction") return "Brøk";
-    if (task.givenType === "decimal") return "Decimaltal";
-    return "Procent";
-  }, [task.givenType]);
-
-  const equationText = useMemo(() => {
-    return `Omskriv: ${givenDisplay}`;
-  }, [givenDisplay]);
-
-  const operationLabel = useMemo(
-    () => `Omskrivning (${task.label})`,
-    [task.label]
-  );
-
-  useEffect(() => {
-    if (!roomId) return;
-    emitLiveEvent({
-      type: "task",
-      equation: equationText,
-      operation: operationLabel,
-      ts: Date.now(),
-    });
-  }, [roomId, equationText, operationLabel]);
-
-  function updateSetting<K extends keyof Settings>(key: K, value: Settings[K]) {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    const next = { ...settings, [key]: value };
-    setSettings(next);
-    setTask(buildTask(next));
-    setAnswerFraction("");
-    setAnswerDecimal("");
-    setAnswerPercent("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-  function newTask() {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    setTask(buildTask(settings));
-    setAnswerFraction("");
-    setAnswerDecimal("");
-    setAnswerPercent("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-  function checkAnswer() {
-    emitLiveEvent({ type: "action", action: "check", ts: Date.now() });
-    statsRef.current.attempts += 1;
-    if (revealed) {
-      setFeedback({
-        type: "info",
-        message: "Facit er vist. Lav en ny opgave for at fortsætte.",
-      });
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak,
-        ts: Date.now(),
-      });
-      return;
-    }
-
-    if (task.givenType !== "fraction") {
-      const parsed = parseFraction(answerFraction);
-      if (!parsed) {
-        setFeedback({
-          type: "error",
-          message: "Skriv en gyldig brøk som fx 1/2.",
-        });
-        return;
-      }
-      const expected = simplifyFraction(task.fraction);
-      if (parsed.n !== expected.n || parsed.d !== expected.d) {
-        setFeedback({ type: "wrong", message: "Ikke helt. Prøv igen." });
-        setStreak(0);
-        emitLiveEvent({
-          type: "result",
-          attempts: statsRef.current.attempts,
-          correct: statsRef.current.correct,
-          streak: 0,
-          ts: Date.now(),
-        });
-        return;
-      }
-    }
-
-    if (task.givenType !== "decimal") {
-      const parsed = normalizeNumberString(answerDecimal);
-      const expected = normalizeNumberString(task.decimal);
-      if (!parsed || !expected) {
-        setFeedback({
-          type: "error",
-          message: "Skriv et gyldigt decimaltal.",
-        });
-        return;
-      }
-      if (parsed !== expected) {
-        setFeedback({ type: "wrong", message: "Ikke helt. Prøv igen." });
-        setStreak(0);
-        emitLiveEvent({
-          type: "result",
-          attempts: statsRef.current.attempts,
-          correct: statsRef.current.correct,
-          streak: 0,
-          ts: Date.now(),
-        });
-        return;
-      }
-    }
-
-    if (task.givenType !== "percent") {
-      const parsed = normalizePercentInput(answerPercent);
-      const expected = normalizeNumberString(task.percent);
-      if (!parsed || !expected) {
-        setFeedback({
-          type: "error",
-          message: "Skriv et gyldigt procenttal.",
-        });
-        return;
-      }
-      if (parsed !== expected) {
-        setFeedback({ type: "wrong", message: "Ikke helt. Prøv igen." });
-        setStreak(0);
-        emitLiveEvent({
-          type: "result",
-          attempts: statsRef.current.attempts,
-          correct: statsRef.current.correct,
-          streak: 0,
-          ts: Date.now(),
-        });
-        return;
-      }
-    }
-
-    setFeedback({ type: "correct", message: "Korrekt! Flot arbejde." });
-    const nextStreak = streak + 1;
-    setStreak(nextStreak);
-    statsRef.current.correct += 1;
-    emitLiveEvent({
-      type: "result",
-      attempts: statsRef.current.attempts,
-      correct: statsRef.current.correct,
-      streak: nextStreak,
-      ts: Date.now(),
-    });
-    if (nextStreak > bestStreak) {
-      setBestStreak(nextStreak);
-    }
-    setRevealed(true);
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-    }
-    autoNextRef.current = setTimeout(() => {
-      newTask();
-    }, AUTO_NEXT_MS);
-  }
-
-  function revealAnswer() {
-    emitLiveEvent({ type: "action", action: "reveal", ts: Date.now() });
-    setRevealed(true);
-    const fractionText = formatFractionDisplay(task.fraction);
-    const decimalText = formatDecimalDisplay(task.decimal);
-    const percentText = `${formatDecimalDisplay(task.percent)}%`;
-    setFeedback({
-      type: "info",
-      message: `Facit: ${fractionText} = ${decimalText} = ${percentText}.`,
-    });
-    setStreak(0);
-  }
-
-  function emitLiveEvent(event: LiveEvent) {
-    if (!roomId) return;
-    sendLiveEvent(roomId, event);
-  }
+  const givenDisplay = formatGiven(task);
+  // Perioden vises med streg over i stedet for parentes.
+  const givenNumber =
+    task.givenType === "decimal"
+      ? task.decimal
+      : task.givenType === "percent"
+        ? task.percent
+        : "";
+  const givenPeriod = splitPeriod(givenNumber);
+  const givenLabel =
+    task.givenType === "fraction"
+      ? "Brøk"
+      : task.givenType === "decimal"
+        ? "Decimaltal"
+        : "Procent";
   const selectClass =
     "mt-2 w-full rounded-xl border border-black/10 bg-white/80 px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
 
@@ -521,10 +105,6 @@ export default function OmskrivningPage() {
     return null;
   }
 
-  const level = Math.floor(streak / 5) + 1;
-  const progressInLevel = streak % 5;
-  const progress = progressInLevel / 5;
-  const toNext = progressInLevel === 0 ? 5 : 5 - progressInLevel;
 
   return (
     <main className="relative min-h-screen overflow-hidden px-6 py-10 md:px-10">
@@ -599,11 +179,25 @@ export default function OmskrivningPage() {
                     Givet: {givenLabel}
                   </p>
                   <span className="rounded-2xl border border-transparent bg-[var(--brand-2)]/15 px-6 py-3 text-3xl text-slate-900 shadow-sm">
-                    {givenDisplay}
+                    {givenPeriod.period ? (
+                      <>
+                        {formatDecimalDisplay(givenPeriod.head)}
+                        <span className="overline">{givenPeriod.period}</span>
+                        {task.givenType === "percent" && "%"}
+                      </>
+                    ) : (
+                      givenDisplay
+                    )}
                   </span>
                   <p className="text-sm text-slate-500">
                     Omskriv til de to andre former.
                   </p>
+                  {settings.difficulty === "hardPlus" && (
+                    <p className="text-xs font-normal text-slate-500">
+                      Periodiske decimaltal: skriv perioden i parentes, fx
+                      0,1(6), eller med prikker, fx 0,1666...
+                    </p>
+                  )}
                 </div>
 
                 <div className="grid gap-4 sm:grid-cols-2">
@@ -613,11 +207,12 @@ export default function OmskrivningPage() {
                         Brøk
                       </span>
                       <input
-                        value={answerFraction}
+                        value={answer.fraction}
                         onChange={(e) =>
-                          setAnswerFraction(
-                            e.target.value.slice(0, MAX_ANSWER_LEN)
-                          )
+                          setAnswer({
+                            ...answer,
+                            fraction: e.target.value.slice(0, MAX_ANSWER_LEN),
+                          })
                         }
                         inputMode="text"
                         onKeyDown={(e) => {
@@ -636,11 +231,12 @@ export default function OmskrivningPage() {
                         Decimaltal
                       </span>
                       <input
-                        value={answerDecimal}
+                        value={answer.decimal}
                         onChange={(e) =>
-                          setAnswerDecimal(
-                            e.target.value.slice(0, MAX_ANSWER_LEN)
-                          )
+                          setAnswer({
+                            ...answer,
+                            decimal: e.target.value.slice(0, MAX_ANSWER_LEN),
+                          })
                         }
                         inputMode="decimal"
                         onKeyDown={(e) => {
@@ -659,11 +255,12 @@ export default function OmskrivningPage() {
                         Procent
                       </span>
                       <input
-                        value={answerPercent}
+                        value={answer.percent}
                         onChange={(e) =>
-                          setAnswerPercent(
-                            e.target.value.slice(0, MAX_ANSWER_LEN)
-                          )
+                          setAnswer({
+                            ...answer,
+                            percent: e.target.value.slice(0, MAX_ANSWER_LEN),
+                          })
                         }
                         inputMode="decimal"
                         onKeyDown={(e) => {
@@ -784,6 +381,7 @@ export default function OmskrivningPage() {
                       <option value="easy">Level 1</option>
                       <option value="medium">Level 2</option>
                       <option value="hard">Level 3</option>
+                      <option value="hardPlus">Level 3+ (periodiske)</option>
                     </select>
                   </div>
                 </div>
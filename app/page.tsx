@@ -3,76 +3,11 @@
 import { useEffect, useRef, useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/utils/supabaseClient";
+import { tracks } from "@/utils/trackRegistry";
 
 const LS_GLOBAL_SESSION_CODE = "session_code_v1";
 const LS_GLOBAL_ALIAS = "session_alias_v1";
 
-type Track = {
-  title: string;
-  description: string;
-  href?: string;
-  tag: string;
-  accent: string;
-};
-
-const tracks: Track[] = [
-  {
-    title: "Øvelseszonen",
-    description: "Plus, minus, gange og division i blandede missioner.",
-    href: "/practice",
-    tag: "Aktiv",
-    accent: "from-emerald-200/70 via-white to-blue-200/60",
-  },
-  {
-    title: "Potenser af 10",
-    description: "Bliv sikker på potensregning og videnskabelig notation.",
-    href: "/potenser",
-    tag: "Aktiv",
-    accent: "from-violet-100/70 via-white to-rose-100/60",
-  },
-  {
-    title: "Brøker",
-    description: "Plus, minus, gange og division med brøker og hele tal.",
-    href: "/broeker",
-    tag: "Aktiv",
-    accent: "from-orange-100/80 via-white to-amber-100/60",
-  },
-  {
-    title: "Regnehierarkiet",
-    description: "Find r\u00e6kkef\u00f8lgen og regn regnestykket korrekt.",
-    href: "/regnehierarkiet",
-    tag: "Aktiv",
-    accent: "from-amber-100/80 via-white to-rose-100/60",
-  },
-  {
-    title: "Omskrivning",
-    description: "Omskriv mellem decimaltal, procent og broeker.",
-    href: "/omskrivning",
-    tag: "Aktiv",
-    accent: "from-cyan-100/80 via-white to-sky-100/60",
-  },
-  {
-    title: "Procent og promille",
-    description: "Træn procentregning og promille i hverdagsopgaver.",
-    href: "/procent",
-    tag: "Aktiv",
-    accent: "from-sky-100/80 via-white to-emerald-100/60",
-  },
-  {
-    title: "Ligninger",
-    description: "Løs enkle og lidt sværere ligninger.",
-    href: "/ligninger",
-    tag: "Aktiv",
-    accent: "from-lime-100/80 via-white to-emerald-100/50",
-  },
-  {
-    title: "Geometri",
-    description: "Areal og omkreds i overskuelige trin.",
-    tag: "Kommer snart",
-    accent: "from-yellow-100/70 via-white to-orange-100/60",
-  },
-];
-
 export default function Home() {
   const [sessionCode, setSessionCode] = useState("");
   const [alias, setAlias] = useState("");
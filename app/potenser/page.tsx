@@ -1,161 +1,31 @@
-
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { LiveEvent } from "@/utils/liveTypes";
 import { useLiveSession } from "@/hooks/useLiveSession";
-import { sendLiveEvent } from "@/utils/liveRealtime";
+import { useTaskModule } from "@/hooks/useTaskModule";
 import Whiteboard from "@/components/Whiteboard";
+import { formatDisplay } from "@/utils/taskHelpers";
+import {
+  answersScientific,
+  potenserModule,
+  type PotenserOperation as Operation,
+  type PotenserRange as Range,
+  type Scientific,
+} from "@/utils/tracks/potenser";
 
-type Operation = "multiply" | "divide" | "mixed";
-type Range = "small" | "medium" | "large";
-
-type Task = {
-  operation: Exclude<Operation, "mixed">;
-  base: string;
-  exponent: number;
-  expected: string;
-};
-
-type Settings = {
-  operation: Operation;
-  range: Range;
-};
-
-const LS_STREAK = "potenser_streak_v1";
-const LS_BEST_STREAK = "potenser_best_streak_v1";
-const LS_SETTINGS = "potenser_settings_v1";
-const AUTO_NEXT_MS = 1600;
 const MAX_ANSWER_LEN = 20;
 
-const ranges: Record<
-  Range,
-  { expMax: number; digits: [number, number]; decMax: number }
-> = {
-  small: { expMax: 3, digits: [1, 2], decMax: 1 },
-  medium: { expMax: 6, digits: [2, 3], decMax: 2 },
-  large: { expMax: 9, digits: [2, 4], decMax: 3 },
-};
-
-function randInt(min: number, max: number) {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-function normalizeNumberString(raw: string) {
-  let s = raw.trim().replace(/\s+/g, "").replace(",", ".");
-  if (!s) return null;
-  if (!/^-?\d*(\.\d*)?$/.test(s)) return null;
-  if (s === "." || s === "-") return null;
-  if (s.startsWith(".")) s = `0${s}`;
-  const [intPartRaw, fracPartRaw] = s.split(".");
-  const intPart = intPartRaw.replace(/^(-?)0+(?=\d)/, "$1") || "0";
-  const fracPart = fracPartRaw?.replace(/0+$/, "") ?? "";
-  if (!fracPart) return intPart;
-  return `${intPart}.${fracPart}`;
-}
-
-function shiftDecimal(base: string, exponent: number, op: "multiply" | "divide") {
-  const normalized = normalizeNumberString(base);
-  if (!normalized) return "0";
-  const parts = normalized.split(".");
-  let digits = parts.join("");
-  let pos = parts[0].startsWith("-") ? parts[0].length - 1 : parts[0].length;
-  const negative = parts[0].startsWith("-");
-  if (negative) digits = digits.replace("-", "");
-
-  let newPos = op === "multiply" ? pos + exponent : pos - exponent;
-  if (newPos <= 0) {
-    digits = "0".repeat(-newPos) + digits;
-    newPos = 0;
-  }
-  if (newPos >= digits.length) {
-    digits = digits + "0".repeat(newPos - digits.length);
-    newPos = digits.length;
-  }
-
-  const withDot =
-    newPos === digits.length
-      ? digits
-      : `${digits.slice(0, newPos)}.${digits.slice(newPos)}`;
-  const result = normalizeNumberString(withDot) ?? "0";
-  return negative ? `-${result}` : result;
-}
-
-function randomBase(range: Range) {
-  const { digits, decMax } = ranges[range];
-  const digitsCount = randInt(digits[0], digits[1]);
-  const decimals = randInt(0, decMax);
-  const first = String(randInt(1, 9));
-  let rest = "";
-  for (let i = 1; i < digitsCount; i += 1) {
-    rest += String(randInt(0, 9));
-  }
-  let frac = "";
-  for (let i = 0; i < decimals; i += 1) {
-    frac += String(randInt(0, 9));
-  }
-  const base = decimals > 0 ? `${first}${rest}.${frac}` : `${first}${rest}`;
-  return normalizeNumberString(base) ?? "1";
-}
-
-function buildTask(settings: Settings): Task {
-  const op =
-    settings.operation === "mixed"
-      ? Math.random() < 0.5
-        ? "multiply"
-        : "divide"
-      : settings.operation;
-  const exponent = randInt(1, ranges[settings.range].expMax);
-  const base = randomBase(settings.range);
-  const expected = shiftDecimal(base, exponent, op);
-  return { operation: op, exponent, base, expected };
-}
-
-function formatDisplay(value: string) {
-  return value.replace(".", ",");
+function ScientificView({ value }: { value: Scientific }) {
+  return (
+    <span>
+      {formatDisplay(value.mantissa)} · 10
+      <sup className="text-base">{value.exponent}</sup>
+    </span>
+  );
 }
 
-function toSuperscript(value: number) {
-  const map: Record<string, string> = {
-    "0": "°",
-    "1": "¹",
-    "2": "²",
-    "3": "³",
-    "4": "4",
-    "5": "5",
-    "6": "6",
-    "7": "7",
-    "8": "8",
-    "9": "?",
-    "-": "?",
-  };
-  return String(value)
-    .split("")
-    .map((ch) => map[ch] ?? ch)
-    .join("");
-}
 export default function PotenserPage() {
-  const defaultSettings: Settings = {
-    operation: "mixed",
-    range: "small",
-  };
-
-  const loadSettings = () => {
-    if (typeof window === "undefined") return defaultSettings;
-    const saved = localStorage.getItem(LS_SETTINGS);
-    if (!saved) return defaultSettings;
-    try {
-      const parsed = JSON.parse(saved);
-      return {
-        ...defaultSettings,
-        ...parsed,
-      };
-    } catch {
-      return defaultSettings;
-    }
-  };
-
   const router = useRouter();
   const {
     isJoined,
@@ -163,47 +33,30 @@ export default function PotenserPage() {
     hasGlobalIdentity,
     identityChecked,
     roomId,
+    seed,
   } = useLiveSession({
-    storageKey: "potenser",
-    trackLabel: "Potenser af 10",
+    storageKey: potenserModule.id,
+    trackLabel: potenserModule.trackLabel,
     onInvalidSession: () => router.replace("/"),
   });
-  const [settings, setSettings] = useState<Settings>(defaultSettings);
-  const [task, setTask] = useState<Task>(() => buildTask(defaultSettings));
-  const [settingsReady, setSettingsReady] = useState(false);
-  const [answer, setAnswer] = useState("");
-  const [feedback, setFeedback] = useState<{
-    type: "idle" | "correct" | "wrong" | "error" | "info";
-    message: string;
-  }>({ type: "idle", message: "" });
-  const [revealed, setRevealed] = useState(false);
+  const {
+    settings,
+    task,
+    updateSetting,
+    newTask,
+    answer,
+    setAnswer,
+    feedback,
+    revealed,
+    streak,
+    level,
+    progress,
+    toNext,
+    checkAnswer,
+    revealAnswer,
+  } = useTaskModule(potenserModule, roomId, seed);
   const [showSettings, setShowSettings] = useState(false);
   const [showCanvas, setShowCanvas] = useState(false);
-  const autoNextRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const inputDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const readNumber = (key: string, fallback: number) => {
-    if (typeof window === "undefined") return fallback;
-    const raw = localStorage.getItem(key);
-    const parsed = raw ? Number(raw) : NaN;
-    return Number.isFinite(parsed) ? parsed : fallback;
-  };
-  const [streak, setStreak] = useState(() => readNumber(LS_STREAK, 0));
-  const [bestStreak, setBestStreak] = useState(() =>
-    readNumber(LS_BEST_STREAK, 0)
-  );
-  const statsRef = useRef({ attempts: 0, correct: 0 });
-
-  useEffect(() => {
-    if (!settingsReady) return;
-    localStorage.setItem(LS_SETTINGS, JSON.stringify(settings));
-  }, [settings, settingsReady]);
-
-  useEffect(() => {
-    const loaded = loadSettings();
-    setSettings(loaded);
-    setTask(buildTask(loaded));
-    setSettingsReady(true);
-  }, []);
 
   useEffect(() => {
     if (!identityChecked) return;
@@ -211,186 +64,10 @@ export default function PotenserPage() {
     if (hasGlobalIdentity) return;
     router.replace("/");
   }, [identityChecked, isJoined, joining, hasGlobalIdentity, router]);
-  useEffect(() => {
-    if (!roomId) return;
-    if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    inputDebounceRef.current = setTimeout(() => {
-      emitLiveEvent({ type: "input", value: answer, ts: Date.now() });
-    }, 140);
-    return () => {
-      if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    };
-  }, [answer, roomId]);
 
-  useEffect(() => {
-    return () => {
-      if (autoNextRef.current) {
-        clearTimeout(autoNextRef.current);
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    function onKey(e: KeyboardEvent) {
-      const target = e.target as HTMLElement | null;
-      if (
-        target &&
-        (target.tagName === "INPUT" ||
-          target.tagName === "TEXTAREA" ||
-          target.isContentEditable)
-      ) {
-        return;
-      }
-      if (e.key.toLowerCase() === "n" && !e.repeat) {
-        e.preventDefault();
-        newTask();
-      }
-    }
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [settings]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_STREAK, String(streak));
-  }, [streak]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_BEST_STREAK, String(bestStreak));
-  }, [bestStreak]);
-
-  const equationText = useMemo(() => {
-    const base = formatDisplay(task.base);
-    const symbol = task.operation === "multiply" ? "×" : "÷";
-    return `${base} ${symbol} 10${toSuperscript(task.exponent)}`;
-  }, [task]);
-
-  useEffect(() => {
-    if (!roomId) return;
-    emitLiveEvent({
-      type: "task",
-      equation: equationText,
-      operation: "Potenser af 10",
-      ts: Date.now(),
-    });
-  }, [roomId, equationText]);
-
-  function updateSetting<K extends keyof Settings>(key: K, value: Settings[K]) {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    const next = { ...settings, [key]: value };
-    setSettings(next);
-    setTask(buildTask(next));
-    setAnswer("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-  function newTask() {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    setTask(buildTask(settings));
-    setAnswer("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-  function parseAnswer() {
-    return normalizeNumberString(answer);
-  }
-
-  function checkAnswer() {
-    emitLiveEvent({ type: "action", action: "check", ts: Date.now() });
-    statsRef.current.attempts += 1;
-    if (revealed) {
-      setFeedback({
-        type: "info",
-        message: "Facit er vist. Lav en ny opgave for at fortsætte.",
-      });
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak,
-        ts: Date.now(),
-      });
-      return;
-    }
-    const parsed = parseAnswer();
-    if (!parsed) {
-      setFeedback({
-        type: "error",
-        message: "Skriv et gyldigt tal. Brug komma ved decimaltal.",
-      });
-      return;
-    }
-    const expected = normalizeNumberString(task.expected) ?? task.expected;
-    if (parsed === expected) {
-      setFeedback({ type: "correct", message: "Korrekt! Flot arbejde." });
-      const nextStreak = streak + 1;
-      setStreak(nextStreak);
-      statsRef.current.correct += 1;
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak: nextStreak,
-        ts: Date.now(),
-      });
-      if (nextStreak > bestStreak) {
-        setBestStreak(nextStreak);
-      }
-      setRevealed(true);
-      if (autoNextRef.current) {
-        clearTimeout(autoNextRef.current);
-      }
-      autoNextRef.current = setTimeout(() => {
-        newTask();
-      }, AUTO_NEXT_MS);
-      return;
-    }
-    setFeedback({
-      type: "wrong",
-      message: "Ikke helt. Prøv igen.",
-    });
-    setStreak(0);
-    emitLiveEvent({
-      type: "result",
-      attempts: statsRef.current.attempts,
-      correct: statsRef.current.correct,
-      streak: 0,
-      ts: Date.now(),
-    });
-  }
-
-  function revealAnswer() {
-    emitLiveEvent({ type: "action", action: "reveal", ts: Date.now() });
-    setRevealed(true);
-    setFeedback({
-      type: "info",
-      message: `Facit: ${formatDisplay(task.expected)}.`,
-    });
-    setStreak(0);
-    emitLiveEvent({
-      type: "result",
-      attempts: statsRef.current.attempts,
-      correct: statsRef.current.correct,
-      streak: 0,
-      ts: Date.now(),
-    });
-  }
-  function emitLiveEvent(event: LiveEvent) {
-    if (!roomId) return;
-    sendLiveEvent(roomId, event);
-  }
-
-  const level = Math.floor(streak / 5) + 1;
-  const progressInLevel = streak % 5;
-  const progress = progressInLevel / 5;
-  const toNext = progressInLevel === 0 ? 5 : 5 - progressInLevel;
+  const scientific = answersScientific(task.operation);
+  const inputClass =
+    "rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
 
   const selectClass =
     "mt-2 w-full rounded-xl border border-black/10 bg-white/80 px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
@@ -448,7 +125,8 @@ export default function PotenserPage() {
               Potensværksted
             </h1>
             <p className="max-w-xl text-base text-slate-600">
-              Træn at flytte kommaet ved at gange og dividere med 10^n.
+              Træn at flytte kommaet ved at gange og dividere med 10^n, og
+              skriv tal i videnskabelig notation.
             </p>
           </div>
           <div className="flex flex-wrap gap-3">
@@ -496,13 +174,31 @@ export default function PotenserPage() {
 
               <div className="mt-8 flex flex-col gap-6">
                 <div className="flex flex-wrap items-center justify-center gap-4 text-2xl font-semibold text-slate-900">
-                  <span>{formatDisplay(task.base)}</span>
-                  <span className="text-3xl text-slate-600">
-                    {task.operation === "multiply" ? "×" : "÷"}
-                  </span>
-                  <span>
-                    10<sup className="text-base">{task.exponent}</sup>
-                  </span>
+                  {task.a && task.b ? (
+                    <>
+                      <ScientificView value={task.a} />
+                      <span className="text-3xl text-slate-600">
+                        {task.operation === "sciMultiply" ? "×" : "÷"}
+                      </span>
+                      <ScientificView value={task.b} />
+                    </>
+                  ) : task.operation === "fromScientific" ? (
+                    <ScientificView
+                      value={{ mantissa: task.base, exponent: task.exponent }}
+                    />
+                  ) : task.operation === "toScientific" ? (
+                    <span>{formatDisplay(task.base)}</span>
+                  ) : (
+                    <>
+                      <span>{formatDisplay(task.base)}</span>
+                      <span className="text-3xl text-slate-600">
+                        {task.operation === "multiply" ? "×" : "÷"}
+                      </span>
+                      <span>
+                        10<sup className="text-base">{task.exponent}</sup>
+                      </span>
+                    </>
+                  )}
                   <span className="text-3xl text-slate-600">=</span>
                   <span className="text-2xl text-slate-500">?</span>
                 </div>
@@ -510,22 +206,67 @@ export default function PotenserPage() {
                 <div className="flex flex-col gap-4">
                   <div className="flex flex-col items-center gap-2">
                     <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                      Svar
+                      {scientific ? "Svar i videnskabelig notation" : "Svar"}
                     </label>
-                    <input
-                      value={answer}
-                      onChange={(e) =>
-                        setAnswer(e.target.value.slice(0, MAX_ANSWER_LEN))
-                      }
-                      inputMode="decimal"
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter") checkAnswer();
-                      }}
-                      disabled={revealed}
-                      maxLength={MAX_ANSWER_LEN}
-                      className="w-44 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
-                      placeholder="Skriv dit svar"
-                    />
+                    {scientific ? (
+                      <div className="flex items-center gap-2 text-2xl font-semibold text-slate-900">
+                        <input
+                          value={answer.mantissa}
+                          onChange={(e) =>
+                            setAnswer({
+                              ...answer,
+                              mantissa: e.target.value.slice(0, MAX_ANSWER_LEN),
+                            })
+                          }
+                          inputMode="decimal"
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") checkAnswer();
+                          }}
+                          disabled={revealed}
+                          maxLength={MAX_ANSWER_LEN}
+                          aria-label="Tallet foran"
+                          className={`w-28 text-lg ${inputClass}`}
+                          placeholder="fx 3,2"
+                        />
+                        <span>· 10</span>
+                        <input
+                          value={answer.exponent}
+                          onChange={(e) =>
+                            setAnswer({
+                              ...answer,
+                              exponent: e.target.value.slice(0, 4),
+                            })
+                          }
+                          inputMode="numeric"
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") checkAnswer();
+                          }}
+                          disabled={revealed}
+                          maxLength={4}
+                          aria-label="Eksponent"
+                          className={`-mt-6 w-16 text-base ${inputClass}`}
+                          placeholder="n"
+                        />
+                      </div>
+                    ) : (
+                      <input
+                        value={answer.value}
+                        onChange={(e) =>
+                          setAnswer({
+                            ...answer,
+                            value: e.target.value.slice(0, MAX_ANSWER_LEN),
+                          })
+                        }
+                        inputMode="decimal"
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") checkAnswer();
+                        }}
+                        disabled={revealed}
+                        maxLength={MAX_ANSWER_LEN}
+                        className={`w-44 text-lg ${inputClass}`}
+                        placeholder="Skriv dit svar"
+                      />
+                    )}
                   </div>
 
                   <div className="flex w-full flex-col gap-3 sm:flex-row">
@@ -631,6 +372,18 @@ export default function PotenserPage() {
                       <option value="mixed">Blandet</option>
                       <option value="multiply">Gange</option>
                       <option value="divide">Divider</option>
+                      <option value="toScientific">
+                        Skriv i videnskabelig notation
+                      </option>
+                      <option value="fromScientific">
+                        Fra videnskabelig notation
+                      </option>
+                      <option value="sciMultiply">
+                        Gange i videnskabelig notation
+                      </option>
+                      <option value="sciDivide">
+                        Divider i videnskabelig notation
+                      </option>
                     </select>
                   </div>
 
@@ -3,72 +3,25 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import TaskRenderer from "@/components/TaskRenderer";
+import OperandRanges from "@/components/OperandRanges";
 import {
-  generateTask,
-  Operation,
+  OperationSel,
   DigitsSel,
   DecimalsSel,
   BorrowMode,
   DivisionLevel,
+  RANGED_FACTORS,
 } from "@/utils/generateTask";
 import { useLiveSession } from "@/hooks/useLiveSession";
-
-type Task = {
-  operation: Operation;
-  layout?: "horizontal" | "vertical";
-  divisionLevel?: DivisionLevel;
-  problem: { operands: number[]; operator: string };
-};
-
-const LS_KEY = "practice_settings_v1";
-type Settings = {
-  operation: Operation;
-  digitsSel: DigitsSel;
-  decimalsSel: DecimalsSel;
-  borrowMode: BorrowMode;
-  divisionLevel: DivisionLevel;
-};
+import { useTrackSettings } from "@/hooks/useTaskModule";
+import {
+  practiceModule,
+  practicePresets,
+  type PracticeLayout,
+  type RangeMode,
+} from "@/utils/tracks/practice";
 
 export default function PracticePage() {
-  // --------------------------
-  // 1) LOAD DEFAULTS
-  // --------------------------
-  const defaultSettings: Settings = {
-    operation: "addition",
-    digitsSel: 1,
-    decimalsSel: 0,
-    borrowMode: "mixed",
-    divisionLevel: 1,
-  };
-
-  const loadSettings = () => {
-    if (typeof window === "undefined") return defaultSettings;
-    const saved = localStorage.getItem(LS_KEY);
-    if (!saved) return defaultSettings;
-    try {
-      const parsed = JSON.parse(saved);
-      return {
-        ...defaultSettings,
-        ...parsed,
-      };
-    } catch {
-      return defaultSettings;
-    }
-  };
-
-  const createTaskFromSettings = (next: Settings): Task => ({
-    ...generateTask({
-      operation: next.operation,
-      digitsSel: next.digitsSel,
-      decimalsSel: next.decimalsSel,
-      borrowMode: next.borrowMode,
-      divisionLevel: next.divisionLevel,
-    }),
-  });
-
-  const [settings, setSettings] = useState<Settings>(defaultSettings);
-  const [showSettings, setShowSettings] = useState(false);
-  const [settingsReady, setSettingsReady] = useState(false);
   const router = useRouter();
   const {
     sessionCode,
@@ -81,12 +34,16 @@ export default function PracticePage() {
     hasGlobalIdentity,
     identityChecked,
     roomId,
+    seed,
     joinSession,
   } = useLiveSession({
-    storageKey: "practice",
-    trackLabel: "\u00d8velseszone",
+    storageKey: practiceModule.id,
+    trackLabel: practiceModule.trackLabel,
     onInvalidSession: () => router.replace("/"),
   });
+  const { settings, task, taskSeed, updateSetting, updateSettings, newTask } =
+    useTrackSettings(practiceModule, seed);
+  const [showSettings, setShowSettings] = useState(false);
 
   
   useEffect(() => {
@@ -96,74 +53,11 @@ export default function PracticePage() {
     router.replace("/");
   }, [identityChecked, isJoined, joining, hasGlobalIdentity, router]);
 
-  // --------------------------
-  // 2) SAVE SETTINGS
-  // --------------------------
-  useEffect(() => {
-    if (!settingsReady) return;
-    localStorage.setItem(LS_KEY, JSON.stringify(settings));
-  }, [settings, settingsReady]);
-
-  // --------------------------
-  // 3) TASK-STATE
-  // --------------------------
-  const [task, setTask] = useState<Task>(() =>
-    createTaskFromSettings(defaultSettings)
-  );
-
-  useEffect(() => {
-    const loaded = loadSettings();
-    setSettings(loaded);
-    setTask(createTaskFromSettings(loaded));
-    setSettingsReady(true);
-  }, []);
-
-  // Rebuild task when settings change
-  function rebuildTask(s: Settings = settings) {
-    setTask(createTaskFromSettings(s));
-  }
-
-  function newTask() {
-    rebuildTask(settings);
-  }
-
-  // --------------------------
-  // 4) HANDLERS FOR UI-VALG
-  // --------------------------
-  function updateSetting<K extends keyof Settings>(key: K, value: Settings[K]) {
-    const newSettings = { ...settings, [key]: value };
-    setSettings(newSettings);
-    rebuildTask(newSettings);
-  }
-
-  // --------------------------
-  // 5) GLOBAL N-SHORTCUT
-  // --------------------------
-  useEffect(() => {
-    function onKey(e: KeyboardEvent) {
-      const target = e.target as HTMLElement | null;
-      if (
-        target &&
-        (target.tagName === "INPUT" ||
-          target.tagName === "TEXTAREA" ||
-          target.isContentEditable)
-      ) {
-        return;
-      }
-      if (e.key.toLowerCase() === "n" && !e.repeat) {
-        e.preventDefault();
-        newTask();
-      }
-    }
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [settings]);
-
   const selectClass =
     "mt-2 w-full rounded-xl border border-black/10 bg-white/80 px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
 
   // --------------------------
-  // 6) RENDER
+  // 2) RENDER
   // --------------------------
   if (!isJoined) {
     if (hasGlobalIdentity) {
@@ -236,7 +130,12 @@ export default function PracticePage() {
 
         <section className="grid gap-6 lg:grid-cols-[1.1fr,0.9fr]">
           <div className="rise-in rise-in-delay-1">
-            <TaskRenderer task={task} onRequestNewTask={newTask} roomId={roomId} />
+            <TaskRenderer
+              task={task}
+              taskSeed={taskSeed}
+              onRequestNewTask={newTask}
+              roomId={roomId}
+            />
           </div>
 
           <div className="rise-in rise-in-delay-2">
@@ -278,17 +177,45 @@ export default function PracticePage() {
                       className={selectClass}
                       value={settings.operation}
                       onChange={(e) =>
-                        updateSetting("operation", e.target.value as Operation)
+                        updateSetting(
+                          "operation",
+                          e.target.value as OperationSel
+                        )
                       }
                     >
                       <option value="addition">Plus</option>
                       <option value="subtraction">Minus</option>
                       <option value="multiplication">Gange</option>
                       <option value="division">Division</option>
+                      <option value="mix">Blandet</option>
                     </select>
                   </div>
 
-                  {settings.operation === "division" ? (
+                  <div>
+                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Forvalg
+                    </label>
+                    <select
+                      className={selectClass}
+                      value=""
+                      onChange={(e) => {
+                        const preset = practicePresets.find(
+                          (p) => p.id === e.target.value
+                        );
+                        if (preset) updateSettings(preset.settings);
+                      }}
+                    >
+                      <option value="">{"V\u00e6lg forvalg..."}</option>
+                      {practicePresets.map((preset) => (
+                        <option key={preset.id} value={preset.id}>
+                          {preset.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {(settings.operation === "division" ||
+                    settings.operation === "mix") && (
                     <div>
                       <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
                         Division level
@@ -296,68 +223,179 @@ export default function PracticePage() {
                       <select
                         className={selectClass}
                         value={settings.divisionLevel}
-                        onChange={(e) =>
+                        onChange={(e) => {
+                          const v = e.target.value;
                           updateSetting(
                             "divisionLevel",
-                            Number(e.target.value) as DivisionLevel
-                          )
-                        }
+                            v === "rest" ? "rest" : (Number(v) as DivisionLevel)
+                          );
+                        }}
                       >
                         <option value="1">Level 1</option>
                         <option value="2">Level 2</option>
+                        <option value="rest">Med rest</option>
                         <option value="3">Level 3</option>
                         <option value="4">Level 4</option>
                       </select>
                     </div>
-                  ) : (
+                  )}
+
+                  {settings.operation !== "division" && (
                     <>
                       <div>
                         <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                          {"Cifre f\u00f8r komma"}
+                          {"Talomr\u00e5de"}
                         </label>
                         <select
                           className={selectClass}
-                          value={settings.digitsSel}
-                          onChange={(e) => {
-                            const v = e.target.value;
-                            updateSetting(
-                              "digitsSel",
-                              v === "mix" ? "mix" : (Number(v) as DigitsSel)
-                            );
-                          }}
+                          value={settings.rangeMode}
+                          onChange={(e) =>
+                            updateSetting("rangeMode", e.target.value as RangeMode)
+                          }
                         >
-                          <option value="1">1-cifret</option>
-                          <option value="2">2-cifret</option>
-                          <option value="3">3-cifret</option>
-                          <option value="mix">Blandet</option>
+                          <option value="digits">Antal cifre</option>
+                          <option value="custom">Egne intervaller</option>
                         </select>
                       </div>
 
+                      {settings.rangeMode === "custom" ? (
+                        <>
+                          <OperandRanges
+                            ranges={settings.ranges}
+                            count={
+                              settings.operation === "multiplication"
+                                ? Math.min(settings.operandCount, RANGED_FACTORS)
+                                : settings.operandCount
+                            }
+                            onChange={(ranges) => updateSetting("ranges", ranges)}
+                          />
+                          {settings.operation === "multiplication" &&
+                            settings.operandCount > RANGED_FACTORS && (
+                              <p className="text-xs text-slate-500">
+                                {"Ved gange bruger kun de to f\u00f8rste tal intervallerne. De \u00f8vrige faktorer er 2-9."}
+                              </p>
+                            )}
+                          {settings.operation === "mix" && (
+                            <p className="text-xs text-slate-500">
+                              {"Intervallerne bruges ikke til division. Her styrer Division level tallene."}
+                            </p>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <div>
+                            <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                              {"Cifre f\u00f8r komma"}
+                            </label>
+                            <select
+                              className={selectClass}
+                              value={settings.digitsSel}
+                              onChange={(e) => {
+                                const v = e.target.value;
+                                updateSetting(
+                                  "digitsSel",
+                                  v === "mix" ? "mix" : (Number(v) as DigitsSel)
+                                );
+                              }}
+                            >
+                              <option value="1">1-cifret</option>
+                              <option value="2">2-cifret</option>
+                              <option value="3">3-cifret</option>
+                              <option value="mix">Blandet</option>
+                            </select>
+                          </div>
+
+                          <div>
+                            <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                              Decimaler
+                            </label>
+                            <select
+                              className={selectClass}
+                              value={settings.decimalsSel}
+                              onChange={(e) => {
+                                const v = e.target.value;
+                                updateSetting(
+                                  "decimalsSel",
+                                  v === "mix" ? "mix" : (Number(v) as DecimalsSel)
+                                );
+                              }}
+                            >
+                              <option value="0">0 decimaler</option>
+                              <option value="1">1 decimal</option>
+                              <option value="2">2 decimaler</option>
+                              <option value="mix">Blandet</option>
+                            </select>
+                          </div>
+                        </>
+                      )}
+
                       <div>
                         <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                          Decimaler
+                          Antal tal
                         </label>
                         <select
                           className={selectClass}
-                          value={settings.decimalsSel}
-                          onChange={(e) => {
-                            const v = e.target.value;
-                            updateSetting(
-                              "decimalsSel",
-                              v === "mix" ? "mix" : (Number(v) as DecimalsSel)
-                            );
-                          }}
+                          value={settings.operandCount}
+                          onChange={(e) =>
+                            updateSetting("operandCount", Number(e.target.value))
+                          }
                         >
-                          <option value="0">0 decimaler</option>
-                          <option value="1">1 decimal</option>
-                          <option value="2">2 decimaler</option>
-                          <option value="mix">Blandet</option>
+                          <option value="2">2 tal</option>
+                          <option value="3">3 tal</option>
+                          <option value="4">4 tal</option>
+                          <option value="5">5 tal</option>
                         </select>
                       </div>
                     </>
                   )}
 
-                  {settings.operation === "subtraction" && (
+                  {settings.operation === "division" ? (
+                    <div>
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Opstilling
+                      </label>
+                      <select
+                        className={selectClass}
+                        value={
+                          settings.layout === "columns" ? "columns" : "horizontal"
+                        }
+                        onChange={(e) =>
+                          updateSetting(
+                            "layout",
+                            e.target.value as PracticeLayout
+                          )
+                        }
+                      >
+                        <option value="horizontal">Vandret</option>
+                        <option value="columns">Trinvis lang division</option>
+                      </select>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Opstilling
+                      </label>
+                      <select
+                        className={selectClass}
+                        value={settings.layout}
+                        onChange={(e) =>
+                          updateSetting(
+                            "layout",
+                            e.target.value as PracticeLayout
+                          )
+                        }
+                      >
+                        <option value="horizontal">Vandret</option>
+                        <option value="vertical">Lodret</option>
+                        <option value="columns">
+                          {"Opstilling med mente/l\u00e5n"}
+                        </option>
+                      </select>
+                    </div>
+                  )}
+
+                  {(settings.operation === "subtraction" ||
+                    settings.operation === "mix") && (
                     <div>
                       <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
                         {"L\u00e5n ved minus"}
@@ -379,6 +417,27 @@ export default function PracticePage() {
                     </div>
                   )}
 
+                  {!(
+                    settings.operation === "division" &&
+                    settings.divisionLevel === "rest"
+                  ) && (
+                    <div>
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Negative tal
+                      </label>
+                      <select
+                        className={selectClass}
+                        value={settings.negatives ? "on" : "off"}
+                        onChange={(e) =>
+                          updateSetting("negatives", e.target.value === "on")
+                        }
+                      >
+                        <option value="off">Kun positive tal</option>
+                        <option value="on">Med negative tal</option>
+                      </select>
+                    </div>
+                  )}
+
                 </div>
               ) : (
                 <div className="mt-6 rounded-2xl border border-dashed border-black/10 bg-white/70 px-4 py-4 text-sm text-slate-600">
@@ -1,219 +1,22 @@
-
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { LiveEvent } from "@/utils/liveTypes";
 import { useLiveSession } from "@/hooks/useLiveSession";
-import { sendLiveEvent } from "@/utils/liveRealtime";
+import { useTaskModule } from "@/hooks/useTaskModule";
 import Whiteboard from "@/components/Whiteboard";
+import { formatDisplay } from "@/utils/taskHelpers";
+import {
+  changeQuestion,
+  isChangeTask,
+  procentModule,
+  type ProcentOperation as Operation,
+  type ProcentRange as Range,
+} from "@/utils/tracks/procent";
 
-type Operation = "percent" | "permille" | "share" | "whole" | "mixed";
-type Range = "small" | "medium" | "large";
-
-type Task =
-  | {
-      operation: "percent" | "permille";
-      rate: number;
-      base: number;
-      expected: string;
-    }
-  | {
-      operation: "share";
-      part: string;
-      base: number;
-      expected: string;
-    }
-  | {
-      operation: "whole";
-      rate: number;
-      part: string;
-      expected: string;
-    };
-
-type Settings = {
-  operation: Operation;
-  range: Range;
-};
-
-const LS_STREAK = "procent_streak_v1";
-const LS_BEST_STREAK = "procent_best_streak_v1";
-const LS_SETTINGS = "procent_settings_v1";
-const AUTO_NEXT_MS = 1600;
 const MAX_ANSWER_LEN = 20;
 
-const ranges: Record<Range, { baseMin: number; baseMax: number }> = {
-  small: { baseMin: 10, baseMax: 99 },
-  medium: { baseMin: 100, baseMax: 999 },
-  large: { baseMin: 1000, baseMax: 9999 },
-};
-
-function randInt(min: number, max: number) {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-function gcd(a: number, b: number) {
-  let x = Math.abs(a);
-  let y = Math.abs(b);
-  while (y !== 0) {
-    const t = x % y;
-    x = y;
-    y = t;
-  }
-  return x;
-}
-
-function normalizeNumberString(raw: string) {
-  let s = raw.trim().replace(/\s+/g, "").replace(",", ".");
-  if (!s) return null;
-  if (!/^-?\d*(\.\d*)?$/.test(s)) return null;
-  if (s === "." || s === "-") return null;
-  if (s.startsWith(".")) s = `0${s}`;
-  const [intPartRaw, fracPartRaw] = s.split(".");
-  const intPart = intPartRaw.replace(/^(-?)0+(?=\d)/, "$1") || "0";
-  const fracPart = fracPartRaw?.replace(/0+$/, "") ?? "";
-  if (!fracPart) return intPart;
-  return `${intPart}.${fracPart}`;
-}
-
-function formatResult(value: number, decimals: number) {
-  if (Number.isInteger(value)) return String(value);
-  const fixed = value.toFixed(decimals);
-  return fixed.replace(/0+$/, "").replace(/\.$/, "");
-}
-
-function formatTruncated(value: number, decimals: number) {
-  if (Number.isInteger(value)) return String(value);
-  const factor = 10 ** decimals;
-  const truncated = Math.trunc(value * factor) / factor;
-  const fixed = truncated.toFixed(decimals);
-  return fixed.replace(/0+$/, "").replace(/\.$/, "");
-}
-
-function buildTask(settings: Settings): Task {
-  const op =
-    settings.operation === "mixed"
-      ? (["percent", "permille", "share", "whole"] as const)[randInt(0, 3)]
-      : settings.operation;
-  const range = ranges[settings.range];
-  const preferWholeResult = settings.range === "small";
-
-  if (op === "share") {
-    const rateMax = 90;
-    if (preferWholeResult) {
-      for (let i = 0; i < 200; i += 1) {
-        const rate = randInt(1, rateMax);
-        const factor = 100 / gcd(rate, 100);
-        const kMin = Math.ceil(range.baseMin / factor);
-        const kMax = Math.floor(range.baseMax / factor);
-        if (kMin > kMax) continue;
-        const base = factor * randInt(kMin, kMax);
-        const part = String((base * rate) / 100);
-        return {
-          operation: "share",
-          base,
-          part,
-          expected: String(rate),
-        };
-      }
-    }
-
-    const base = randInt(range.baseMin, range.baseMax);
-    const part = randInt(1, base);
-    const expected = formatResult((part / base) * 100, 2);
-    return {
-      operation: "share",
-      base,
-      part: String(part),
-      expected,
-    };
-  }
-
-  if (op === "whole") {
-    const rateMax = 90;
-    if (preferWholeResult) {
-      for (let i = 0; i < 200; i += 1) {
-        const rate = randInt(1, rateMax);
-        const factor = 100 / gcd(rate, 100);
-        const kMin = Math.ceil(range.baseMin / factor);
-        const kMax = Math.floor(range.baseMax / factor);
-        if (kMin > kMax) continue;
-        const base = factor * randInt(kMin, kMax);
-        const part = String((base * rate) / 100);
-        return {
-          operation: "whole",
-          rate,
-          part,
-          expected: String(base),
-        };
-      }
-    }
-
-    const base = randInt(range.baseMin, range.baseMax);
-    const rate = randInt(1, rateMax);
-    const part = formatResult((base * rate) / 100, 2);
-    return {
-      operation: "whole",
-      rate,
-      part,
-      expected: String(base),
-    };
-  }
-
-  const divisor = op === "percent" ? 100 : 1000;
-  const rateMax = op === "percent" ? 90 : 900;
-
-  if (preferWholeResult) {
-    for (let i = 0; i < 200; i += 1) {
-      const rate = randInt(1, rateMax);
-      const factor = divisor / gcd(rate, divisor);
-      const kMin = Math.ceil(range.baseMin / factor);
-      const kMax = Math.floor(range.baseMax / factor);
-      if (kMin > kMax) continue;
-      const base = factor * randInt(kMin, kMax);
-      const expectedValue = (base * rate) / divisor;
-      return {
-        operation: op,
-        base,
-        rate,
-        expected: String(expectedValue),
-      };
-    }
-  }
-
-  const base = randInt(range.baseMin, range.baseMax);
-  const rate = randInt(1, rateMax);
-  const decimals = op === "percent" ? 2 : 3;
-  const expected = formatResult((base * rate) / divisor, decimals);
-  return { operation: op, base, rate, expected };
-}
-
-
-function formatDisplay(value: string) {
-  return value.replace(".", ",");
-}
-
 export default function ProcentPage() {
-  const defaultSettings: Settings = {
-    operation: "mixed",
-    range: "small",
-  };
-
-  const loadSettings = () => {
-    if (typeof window === "undefined") return defaultSettings;
-    const saved = localStorage.getItem(LS_SETTINGS);
-    if (!saved) return defaultSettings;
-    try {
-      const parsed = JSON.parse(saved);
-      return {
-        ...defaultSettings,
-        ...parsed,
-      };
-    } catch {
-      return defaultSettings;
-    }
-  };
-
   const router = useRouter();
   const {
     isJoined,
@@ -221,47 +24,30 @@ export default function ProcentPage() {
     hasGlobalIdentity,
     identityChecked,
     roomId,
+    seed,
   } = useLiveSession({
-    storageKey: "procent",
-    trackLabel: "Procent og promille",
+    storageKey: procentModule.id,
+    trackLabel: procentModule.trackLabel,
     onInvalidSession: () => router.replace("/"),
   });
-  const [settings, setSettings] = useState<Settings>(defaultSettings);
-  const [task, setTask] = useState<Task>(() => buildTask(defaultSettings));
-  const [settingsReady, setSettingsReady] = useState(false);
-  const [answer, setAnswer] = useState("");
-  const [feedback, setFeedback] = useState<{
-    type: "idle" | "correct" | "wrong" | "error" | "info";
-    message: string;
-  }>({ type: "idle", message: "" });
-  const [revealed, setRevealed] = useState(false);
+  const {
+    settings,
+    task,
+    updateSetting,
+    newTask,
+    answer,
+    setAnswer,
+    feedback,
+    revealed,
+    streak,
+    level,
+    progress,
+    toNext,
+    checkAnswer,
+    revealAnswer,
+  } = useTaskModule(procentModule, roomId, seed);
   const [showSettings, setShowSettings] = useState(false);
   const [showCanvas, setShowCanvas] = useState(false);
-  const autoNextRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const inputDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const readNumber = (key: string, fallback: number) => {
-    if (typeof window === "undefined") return fallback;
-    const raw = localStorage.getItem(key);
-    const parsed = raw ? Number(raw) : NaN;
-    return Number.isFinite(parsed) ? parsed : fallback;
-  };
-  const [streak, setStreak] = useState(() => readNumber(LS_STREAK, 0));
-  const [bestStreak, setBestStreak] = useState(() =>
-    readNumber(LS_BEST_STREAK, 0)
-  );
-  const statsRef = useRef({ attempts: 0, correct: 0 });
-
-  useEffect(() => {
-    if (!settingsReady) return;
-    localStorage.setItem(LS_SETTINGS, JSON.stringify(settings));
-  }, [settings, settingsReady]);
-
-  useEffect(() => {
-    const loaded = loadSettings();
-    setSettings(loaded);
-    setTask(buildTask(loaded));
-    setSettingsReady(true);
-  }, []);
 
   useEffect(() => {
     if (!identityChecked) return;
@@ -269,216 +55,6 @@ export default function ProcentPage() {
     if (hasGlobalIdentity) return;
     router.replace("/");
   }, [identityChecked, isJoined, joining, hasGlobalIdentity, router]);
-  useEffect(() => {
-    if (!roomId) return;
-    if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    inputDebounceRef.current = setTimeout(() => {
-      emitLiveEvent({ type: "input", value: answer, ts: Date.now() });
-    }, 140);
-    return () => {
-      if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    };
-  }, [answer, roomId]);
-
-  useEffect(() => {
-    return () => {
-      if (autoNextRef.current) {
-        clearTimeout(autoNextRef.current);
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    function onKey(e: KeyboardEvent) {
-      const target = e.target as HTMLElement | null;
-      if (
-        target &&
-        (target.tagName === "INPUT" ||
-          target.tagName === "TEXTAREA" ||
-          target.isContentEditable)
-      ) {
-        return;
-      }
-      if (e.key.toLowerCase() === "n" && !e.repeat) {
-        e.preventDefault();
-        newTask();
-      }
-    }
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [settings]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_STREAK, String(streak));
-  }, [streak]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_BEST_STREAK, String(bestStreak));
-  }, [bestStreak]);
-
-  const equationText = useMemo(() => {
-    if (task.operation === "share") {
-      return `Hvor stor en procentdel er ${formatDisplay(task.part)} af ${task.base}`;
-    }
-    if (task.operation === "whole") {
-      return `Hvor stort er hele beløbet, hvis ${task.rate}% er ${formatDisplay(
-        task.part
-      )}`;
-    }
-    const symbol = task.operation === "percent" ? "%" : "‰";
-    return `${task.rate}${symbol} af ${task.base}`;
-  }, [task]);
-
-  useEffect(() => {
-    if (!roomId) return;
-    emitLiveEvent({
-      type: "task",
-      equation: equationText,
-      operation: "Procent og promille",
-      ts: Date.now(),
-    });
-  }, [roomId, equationText]);
-
-  function updateSetting<K extends keyof Settings>(key: K, value: Settings[K]) {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    const next = { ...settings, [key]: value };
-    setSettings(next);
-    setTask(buildTask(next));
-    setAnswer("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-  function newTask() {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    setTask(buildTask(settings));
-    setAnswer("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-  function parseAnswer() {
-    return normalizeNumberString(answer);
-  }
-
-  function getAcceptedAnswers(task: Task) {
-    const answers: string[] = [];
-    if (task.operation === "whole") {
-      const normalized = normalizeNumberString(task.expected) ?? task.expected;
-      return [normalized];
-    }
-
-    const decimals = task.operation === "permille" ? 3 : 2;
-    let rawValue = 0;
-    if (task.operation === "share") {
-      rawValue = (Number(task.part) / task.base) * 100;
-    } else {
-      const divisor = task.operation === "percent" ? 100 : 1000;
-      rawValue = (task.base * task.rate) / divisor;
-    }
-
-    const rounded = normalizeNumberString(formatResult(rawValue, decimals));
-    if (rounded) answers.push(rounded);
-    const truncated = normalizeNumberString(formatTruncated(rawValue, decimals));
-    if (truncated && !answers.includes(truncated)) answers.push(truncated);
-    return answers;
-  }
-
-  function checkAnswer() {
-    emitLiveEvent({ type: "action", action: "check", ts: Date.now() });
-    statsRef.current.attempts += 1;
-    if (revealed) {
-      setFeedback({
-        type: "info",
-        message: "Facit er vist. Lav en ny opgave for at fortsætte.",
-      });
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak,
-        ts: Date.now(),
-      });
-      return;
-    }
-    const parsed = parseAnswer();
-    if (!parsed) {
-      setFeedback({
-        type: "error",
-        message: "Skriv et gyldigt tal. Brug komma ved decimaltal.",
-      });
-      return;
-    }
-    const accepted = getAcceptedAnswers(task);
-    if (accepted.includes(parsed)) {
-      setFeedback({ type: "correct", message: "Korrekt! Flot arbejde." });
-      const nextStreak = streak + 1;
-      setStreak(nextStreak);
-      statsRef.current.correct += 1;
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak: nextStreak,
-        ts: Date.now(),
-      });
-      if (nextStreak > bestStreak) {
-        setBestStreak(nextStreak);
-      }
-      setRevealed(true);
-      if (autoNextRef.current) {
-        clearTimeout(autoNextRef.current);
-      }
-      autoNextRef.current = setTimeout(() => {
-        newTask();
-      }, AUTO_NEXT_MS);
-      return;
-    }
-    setFeedback({
-      type: "wrong",
-      message: "Ikke helt. Prøv igen.",
-    });
-    setStreak(0);
-    emitLiveEvent({
-      type: "result",
-      attempts: statsRef.current.attempts,
-      correct: statsRef.current.correct,
-      streak: 0,
-      ts: Date.now(),
-    });
-  }
-
-  function revealAnswer() {
-    emitLiveEvent({ type: "action", action: "reveal", ts: Date.now() });
-    setRevealed(true);
-    setFeedback({
-      type: "info",
-      message: `Facit: ${formatDisplay(task.expected)}.`,
-    });
-    setStreak(0);
-    emitLiveEvent({
-      type: "result",
-      attempts: statsRef.current.attempts,
-      correct: statsRef.current.correct,
-      streak: 0,
-      ts: Date.now(),
-    });
-  }
-  function emitLiveEvent(event: LiveEvent) {
-    if (!roomId) return;
-    sendLiveEvent(roomId, event);
-  }
-
-  const level = Math.floor(streak / 5) + 1;
-  const progressInLevel = streak % 5;
-  const progress = progressInLevel / 5;
-  const toNext = progressInLevel === 0 ? 5 : 5 - progressInLevel;
 
   const selectClass =
     "mt-2 w-full rounded-xl border border-black/10 bg-white/80 px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
@@ -583,7 +159,11 @@ export default function ProcentPage() {
               </div>
 
               <div className="mt-8 flex flex-col gap-6">
-                {task.operation === "share" || task.operation === "whole" ? (
+                {isChangeTask(task) ? (
+                  <p className="mx-auto max-w-xl text-center text-xl font-semibold leading-relaxed text-slate-900">
+                    {changeQuestion(task)}
+                  </p>
+                ) : task.operation === "share" || task.operation === "whole" ? (
                   <div className="flex flex-wrap items-center justify-center gap-3 text-2xl font-semibold text-slate-900">
                     <span className="text-xl text-slate-600">
                       {task.operation === "share"
@@ -638,6 +218,13 @@ export default function ProcentPage() {
                       className="w-44 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
                       placeholder="Skriv dit svar"
                     />
+                    {isChangeTask(task) && (
+                      <p className="text-xs text-slate-500">
+                        {task.operation === "changeRate"
+                          ? "Svar i procent med op til to decimaler."
+                          : "Svar i kroner med op til to decimaler."}
+                      </p>
+                    )}
                   </div>
 
                   <div className="flex w-full flex-col gap-3 sm:flex-row">
@@ -740,11 +327,18 @@ export default function ProcentPage() {
                         updateSetting("operation", e.target.value as Operation)
                       }
                     >
-                      <option value="mixed">Blandet</option>
+                      <option value="mixed">
+                        Blandet (procent, promille, procentdel, hele beløbet)
+                      </option>
                       <option value="percent">Procent</option>
                       <option value="permille">Promille</option>
                       <option value="share">Procentdel</option>
                       <option value="whole">Hele beløbet</option>
+                      <option value="change">Stigning og fald</option>
+                      <option value="changeRate">Ændring i procent</option>
+                      <option value="vat">Moms</option>
+                      <option value="simpleInterest">Simpel rente</option>
+                      <option value="compoundInterest">Rentes rente</option>
                     </select>
                   </div>
 
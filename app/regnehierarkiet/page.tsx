@@ -1,296 +1,43 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { LiveEvent } from "@/utils/liveTypes";
 import { useLiveSession } from "@/hooks/useLiveSession";
-import { sendLiveEvent } from "@/utils/liveRealtime";
+import { useTaskModule } from "@/hooks/useTaskModule";
+import ExpressionReducer from "@/components/ExpressionReducer";
 import Whiteboard from "@/components/Whiteboard";
+import {
+  blockedReason,
+  evaluate,
+  formatExpression,
+  getAt,
+  isReducible,
+  isValue,
+  replaceAt,
+  type ExprPath,
+} from "@/utils/expression";
+import { normalizeNumberString } from "@/utils/taskHelpers";
+import {
+  clampLevel,
+  currentExpression,
+  regnehierarkietModule,
+  requiredOrder,
+  type OrderCategory,
+  type RegnehierarkietMode as Mode,
+} from "@/utils/tracks/regnehierarkiet";
 
-type Level = 1 | 2 | 3 | 4 | 5;
-
-type OrderCategory = "parens" | "power" | "multiply" | "addsub";
-
-type TermCategory = "parens" | "power" | "multiply" | "number";
-
-type Term = {
-  id: string;
-  display: string;
-  value: number;
-  category: TermCategory;
-};
-
-type Task = {
-  expression: string;
-  result: number;
-  label: string;
-  terms: Term[];
-  ops: ("+" | "-")[];
-};
-
-type Settings = {
-  level: Level;
-};
-
-const LS_STREAK = "regnehierarkiet_streak_v1";
-const LS_BEST_STREAK = "regnehierarkiet_best_streak_v1";
-const LS_SETTINGS = "regnehierarkiet_settings_v1";
-const AUTO_NEXT_MS = 1600;
 const MAX_ANSWER_LEN = 20;
-const ORDER_SEQUENCE: OrderCategory[] = [
-  "parens",
-  "power",
-  "multiply",
-  "addsub",
-];
-
-
-function randInt(min: number, max: number) {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-function shuffle<T>(items: T[]) {
-  const arr = [...items];
-  for (let i = arr.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  return arr;
-}
-
-function normalizeNumberString(raw: string) {
-  let s = raw.trim().replace(/\s+/g, "").replace(",", ".");
-  if (!s) return null;
-  if (!/^-?\d*(\.\d*)?$/.test(s)) return null;
-  if (s === "." || s === "-") return null;
-  if (s.startsWith(".")) s = `0${s}`;
-  const [intPartRaw, fracPartRaw] = s.split(".");
-  const intPart = intPartRaw.replace(/^(-?)0+(?=\d)/, "$1") || "0";
-  const fracPart = fracPartRaw?.replace(/0+$/, "") ?? "";
-  if (!fracPart) return intPart;
-  return `${intPart}.${fracPart}`;
-}
-
-function parseNumber(raw: string) {
-  const normalized = normalizeNumberString(raw);
-  if (!normalized) return null;
-  const value = Number(normalized);
-  if (!Number.isFinite(value)) return null;
-  return value;
-}
-
-function makeParenTerm(min: number, max: number): Term {
-  const a = randInt(min, max);
-  const b = randInt(min, max);
-  const useSub = Math.random() < 0.5;
-  if (useSub) {
-    const hi = Math.max(a, b);
-    const lo = Math.min(a, b);
-    return {
-      id: "",
-      display: `( ${hi} - ${lo} )`,
-      value: hi - lo,
-      category: "parens",
-    };
-  }
-  return {
-    id: "",
-    display: `( ${a} + ${b} )`,
-    value: a + b,
-    category: "parens",
-  };
-}
-
-function makeMultiplyTerm(min: number, max: number): Term {
-  const useDivision = Math.random() < 0.4;
-  if (useDivision) {
-    const b = randInt(min, max);
-    const c = randInt(min, max);
-    const a = b * c;
-    return {
-      id: "",
-      display: `${a} ÷ ${b}`,
-      value: c,
-      category: "multiply",
-    };
-  }
-  const a = randInt(min, max);
-  const b = randInt(min, max);
-  return {
-    id: "",
-    display: `${a} x ${b}`,
-    value: a * b,
-    category: "multiply",
-  };
-}
-
-
-function formatExponent(exp: number) {
-  if (exp === 1) return "\u00b9";
-  if (exp === 2) return "\u00b2";
-  if (exp === 3) return "\u00b3";
-  return `^${exp}`;
-}
-
-function makePowerTerm(
-  baseMin: number,
-  baseMax: number,
-  expMin: number,
-  expMax: number
-): Term {
-  const base = randInt(baseMin, baseMax);
-  const exponent = randInt(expMin, expMax);
-  const superExp = formatExponent(exponent);
-  return {
-    id: "",
-    display: `${base}${superExp}`,
-    value: base ** exponent,
-    category: "power",
-  };
-}
-
-function makeSqrtTerm(minResult: number, maxResult: number): Term {
-  const result = randInt(minResult, maxResult);
-  const value = result * result;
-  return {
-    id: "",
-    display: `\u221a${value}`,
-    value: result,
-    category: "power",
-  };
-}
-
-
-function makeNumberTerm(min: number, max: number): Term {
-  const n = randInt(min, max);
-  return {
-    id: "",
-    display: String(n),
-    value: n,
-    category: "number",
-  };
-}
-
-function buildExpression(terms: Term[], label: string): Task {
-  const ops = Array.from({ length: Math.max(terms.length - 1, 0) }, () =>
-    Math.random() < 0.5 ? "+" : "-"
-  );
-  const withIds = terms.map((term, index) => ({
-    ...term,
-    id: `term-${index}`,
-  }));
-  const expression = withIds
-    .map((term, index) =>
-      index < ops.length ? `${term.display} ${ops[index]}` : term.display
-    )
-    .join(" ");
-  let result = withIds[0]?.value ?? 0;
-  for (let i = 0; i < ops.length; i += 1) {
-    const op = ops[i];
-    const next = withIds[i + 1].value;
-    result = op === "+" ? result + next : result - next;
-  }
-  return { expression, result, label, terms: withIds, ops };
-}
-
-function buildLevel1(): Task {
-  const count = randInt(2, 3);
-  const terms = shuffle(
-    Array.from({ length: count }, () => makeNumberTerm(1, 20))
-  );
-  return buildExpression(terms, "Level 1");
-}
-
-function buildLevel2(): Task {
-  const terms = shuffle([
-    makeMultiplyTerm(2, 9),
-    makeNumberTerm(2, 15),
-    makeNumberTerm(2, 15),
-  ]);
-  return buildExpression(terms, "Level 2");
-}
-
-function buildLevel3(): Task {
-  const terms = shuffle([
-    makeParenTerm(2, 12),
-    makeMultiplyTerm(2, 12),
-    makeNumberTerm(2, 18),
-  ]);
-  return buildExpression(terms, "Level 3");
-}
-
-function buildLevel4(): Task {
-  const terms = shuffle([
-    makeParenTerm(2, 12),
-    makePowerTerm(1, 5, 1, 3),
-    makeMultiplyTerm(3, 15),
-    makeNumberTerm(3, 20),
-  ]);
-  return buildExpression(terms, "Level 4");
-}
-
-function buildLevel5(): Task {
-  const terms = shuffle([
-    makeParenTerm(2, 12),
-    makePowerTerm(1, 5, 1, 3),
-    makeSqrtTerm(1, 15),
-    makeMultiplyTerm(3, 15),
-    makeNumberTerm(3, 20),
-  ]);
-  return buildExpression(terms, "Level 5");
-}
-
-function buildTask(settings: Settings): Task {
-  if (settings.level === 1) return buildLevel1();
-  if (settings.level === 2) return buildLevel2();
-  if (settings.level === 3) return buildLevel3();
-  if (settings.level === 4) return buildLevel4();
-  return buildLevel5();
-}
+const MAX_TARGET_LEN = 60;
+const TARGET_TOKENS = ["+", "-", "·", "÷", "(", ")"];
+
+const categoryLabels: Record<OrderCategory, string> = {
+  parens: "( )",
+  power: "xⁿ og √",
+  multiply: "· og ÷",
+  addsub: "+ og -",
+};
 
 export default function RegnehierarkietPage() {
-  const defaultSettings: Settings = { level: 1 };
-
-  const clampLevel = (value: number): Level => {
-    if (value <= 1) return 1;
-    if (value === 2) return 2;
-    if (value === 3) return 3;
-    if (value === 4) return 4;
-    return 5;
-  };
-
-  const normalizeSettings = (raw: unknown): Settings => {
-    if (!raw || typeof raw !== "object") return defaultSettings;
-    const record = raw as Record<string, unknown>;
-    const rawLevel = record.level;
-    if (typeof rawLevel === "number" && Number.isFinite(rawLevel)) {
-      return { level: clampLevel(Math.round(rawLevel)) };
-    }
-    if (typeof rawLevel === "string") {
-      const parsed = Number(rawLevel);
-      if (Number.isFinite(parsed)) {
-        return { level: clampLevel(Math.round(parsed)) };
-      }
-    }
-    const legacy = record.difficulty;
-    if (legacy === "easy") return { level: 2 };
-    if (legacy === "medium") return { level: 3 };
-    if (legacy === "hard") return { level: 4 };
-    return defaultSettings;
-  };
-
-  const loadSettings = () => {
-    if (typeof window === "undefined") return defaultSettings;
-    const saved = localStorage.getItem(LS_SETTINGS);
-    if (!saved) return defaultSettings;
-    try {
-      const parsed = JSON.parse(saved);
-      return normalizeSettings(parsed);
-    } catch {
-      return defaultSettings;
-    }
-  };
-
   const router = useRouter();
   const {
     isJoined,
@@ -298,48 +45,30 @@ export default function RegnehierarkietPage() {
     hasGlobalIdentity,
     identityChecked,
     roomId,
+    seed,
   } = useLiveSession({
-    storageKey: "regnehierarkiet",
-    trackLabel: "Regnehierarkiet",
+    storageKey: regnehierarkietModule.id,
+    trackLabel: regnehierarkietModule.trackLabel,
     onInvalidSession: () => router.replace("/"),
   });
-  const [settings, setSettings] = useState<Settings>(defaultSettings);
-  const [task, setTask] = useState<Task>(() => buildTask(defaultSettings));
-  const [settingsReady, setSettingsReady] = useState(false);
-  const [orderSteps, setOrderSteps] = useState<OrderCategory[]>([]);
-  const [answer, setAnswer] = useState("");
-  const [feedback, setFeedback] = useState<{
-    type: "idle" | "correct" | "wrong" | "error" | "info";
-    message: string;
-  }>({ type: "idle", message: "" });
-  const [revealed, setRevealed] = useState(false);
+  const {
+    settings,
+    task,
+    updateSetting,
+    newTask,
+    answer,
+    setAnswer,
+    feedback,
+    revealed,
+    streak,
+    level,
+    progress,
+    toNext,
+    checkAnswer,
+    revealAnswer,
+  } = useTaskModule(regnehierarkietModule, roomId, seed);
   const [showSettings, setShowSettings] = useState(false);
   const [showCanvas, setShowCanvas] = useState(false);
-  const autoNextRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const inputDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const readNumber = (key: string, fallback: number) => {
-    if (typeof window === "undefined") return fallback;
-    const raw = localStorage.getItem(key);
-    const parsed = raw ? Number(raw) : NaN;
-    return Number.isFinite(parsed) ? parsed : fallback;
-  };
-  const [streak, setStreak] = useState(() => readNumber(LS_STREAK, 0));
-  const [bestStreak, setBestStreak] = useState(() =>
-    readNumber(LS_BEST_STREAK, 0)
-  );
-  const statsRef = useRef({ attempts: 0, correct: 0 });
-
-  useEffect(() => {
-    if (!settingsReady) return;
-    localStorage.setItem(LS_SETTINGS, JSON.stringify(settings));
-  }, [settings, settingsReady]);
-
-  useEffect(() => {
-    const loaded = loadSettings();
-    setSettings(loaded);
-    setTask(buildTask(loaded));
-    setSettingsReady(true);
-  }, []);
 
   useEffect(() => {
     if (!identityChecked) return;
@@ -348,243 +77,86 @@ export default function RegnehierarkietPage() {
     router.replace("/");
   }, [identityChecked, isJoined, joining, hasGlobalIdentity, router]);
 
-  useEffect(() => {
-    if (!roomId) return;
-    if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    const value = [orderSteps.join(","), answer].filter(Boolean).join(" | ");
-    inputDebounceRef.current = setTimeout(() => {
-      emitLiveEvent({ type: "input", value, ts: Date.now() });
-    }, 140);
-    return () => {
-      if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    };
-  }, [orderSteps, answer, roomId]);
-
-  useEffect(() => {
-    return () => {
-      if (autoNextRef.current) {
-        clearTimeout(autoNextRef.current);
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    function onKey(e: KeyboardEvent) {
-      const target = e.target as HTMLElement | null;
-      if (
-        target &&
-        (target.tagName === "INPUT" ||
-          target.tagName === "TEXTAREA" ||
-          target.isContentEditable)
-      ) {
-        return;
-      }
-      if (e.key.toLowerCase() === "n" && !e.repeat) {
-        e.preventDefault();
-        newTask();
-      }
-    }
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [settings]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_STREAK, String(streak));
-  }, [streak]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_BEST_STREAK, String(bestStreak));
-  }, [bestStreak]);
-
-  const equationText = useMemo(() => `${task.expression} = ?`, [task.expression]);
-  const requiredOrder = useMemo(() => {
-    const present = new Set<OrderCategory>();
-    task.terms.forEach((term) => {
-      if (term.category === "parens") present.add("parens");
-      if (term.category === "power") present.add("power");
-      if (term.category === "multiply") present.add("multiply");
-    });
-    if (task.ops.length) present.add("addsub");
-    return ORDER_SEQUENCE.filter((category) => present.has(category));
-  }, [task.terms, task.ops]);
-  const orderHint = useMemo(() => {
-    const includeSqrt = task.terms.some((term) => term.display.includes("\u221a"));
-    return requiredOrder
-      .map((category, index) => {
-        if (category === "parens") return `()=${index + 1}`;
-        if (category === "power") {
-          return includeSqrt
-            ? `potenser/kvadratrod=${index + 1}`
-            : `potenser=${index + 1}`;
-        }
-        if (category === "multiply") return `x/\u00f7=${index + 1}`;
-        return `+ og -=${index + 1}`;
-      })
-      .join(", ");
-  }, [requiredOrder, task.terms]);
-
-  const operationLabel = useMemo(
-    () => `Regnehierarkiet (${task.label})`,
-    [task.label]
-  );
-
-  useEffect(() => {
-    if (!roomId) return;
-    emitLiveEvent({
-      type: "task",
-      equation: equationText,
-      operation: operationLabel,
-      ts: Date.now(),
-    });
-  }, [roomId, equationText, operationLabel]);
-
-  function updateSetting<K extends keyof Settings>(key: K, value: Settings[K]) {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    const next = { ...settings, [key]: value };
-    setSettings(next);
-    setTask(buildTask(next));
-    setOrderSteps([]);
-    setAnswer("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
-  function newTask() {
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-      autoNextRef.current = null;
-    }
-    setTask(buildTask(settings));
-    setOrderSteps([]);
-    setAnswer("");
-    setFeedback({ type: "idle", message: "" });
-    setRevealed(false);
-  }
-
   function handleOrderClick(category: OrderCategory) {
+    const orderSteps = answer.order;
     if (orderSteps.includes(category)) {
-      setOrderSteps(orderSteps.filter((item) => item != category));
-      return;
-    }
-    if (orderSteps.length >= requiredOrder.length) return;
-    setOrderSteps([...orderSteps, category]);
-  }
-
-  function getOrderNumber(category: OrderCategory) {
-    const index = orderSteps.indexOf(category);
-    return index >= 0 ? index + 1 : null;
-  }
-
-  function isOrderCorrect() {
-    return orderSteps.join(",") === requiredOrder.join(",");
-  }
-
-  function checkAnswer() {
-    emitLiveEvent({ type: "action", action: "check", ts: Date.now() });
-    statsRef.current.attempts += 1;
-    if (revealed) {
-      setFeedback({
-        type: "info",
-        message: "Facit er vist. Lav en ny opgave for at fortsætte.",
-      });
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak,
-        ts: Date.now(),
-      });
-      return;
-    }
-
-    if (orderSteps.length < requiredOrder.length) {
-      setFeedback({
-        type: "error",
-        message: `Klik på rækkefølgen (1-${requiredOrder.length}), før du tjekker.`,
+      setAnswer({
+        ...answer,
+        order: orderSteps.filter((item) => item != category),
       });
       return;
     }
+    if (orderSteps.length >= requiredOrder(task).length) return;
+    setAnswer({ ...answer, order: [...orderSteps, category] });
+  }
 
-    if (!isOrderCorrect()) {
-      setFeedback({ type: "wrong", message: "Rækkefølgen er ikke korrekt." });
-      setStreak(0);
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak: 0,
-        ts: Date.now(),
-      });
+  // Trinvis: valgt deludtryk og kort besked; nulstilles naar opgaven skifter.
+  const [pick, setPick] = useState<{
+    task: typeof task;
+    path: ExprPath;
+    value: string;
+  } | null>(null);
+  const [hint, setHint] = useState<{
+    task: typeof task;
+    message: string;
+    ok: boolean;
+  } | null>(null);
+  const current = task.stepwise ? currentExpression(task, answer) : null;
+  const picked = pick?.task === task ? pick : null;
+  const pickedNode = current && picked ? getAt(current, picked.path) : null;
+  const stepHint = hint?.task === task ? hint : null;
+
+  function handlePick(path: ExprPath) {
+    if (!current) return;
+    const node = getAt(current, path);
+    if (!node) return;
+    if (isReducible(node)) {
+      setPick({ task, path, value: "" });
+      setHint(null);
       return;
     }
+    setPick(null);
+    setHint({ task, message: blockedReason(node), ok: false });
+  }
 
-    const value = parseNumber(answer);
-    if (value === null) {
-      setFeedback({
-        type: "error",
-        message: "Skriv et gyldigt svar.",
-      });
+  function submitStep() {
+    if (!current || !picked || !pickedNode) return;
+    const normalized = normalizeNumberString(picked.value);
+    if (!normalized) {
+      setHint({ task, message: "Skriv et tal.", ok: false });
       return;
     }
-
-    if (value !== task.result) {
-      setFeedback({ type: "wrong", message: "Ikke helt. Prøv igen." });
-      setStreak(0);
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak: 0,
-        ts: Date.now(),
+    const value = Number(normalized);
+    const expected = evaluate(pickedNode);
+    if (Math.abs(value - expected) > 1e-9) {
+      setHint({
+        task,
+        message: `${formatExpression(pickedNode)} giver ikke ${picked.value}. Prøv igen.`,
+        ok: false,
       });
       return;
     }
-
-    setFeedback({ type: "correct", message: "Korrekt! Flot arbejde." });
-    const nextStreak = streak + 1;
-    setStreak(nextStreak);
-    statsRef.current.correct += 1;
-    emitLiveEvent({
-      type: "result",
-      attempts: statsRef.current.attempts,
-      correct: statsRef.current.correct,
-      streak: nextStreak,
-      ts: Date.now(),
+    const next = replaceAt(current, picked.path, expected);
+    setAnswer({ ...answer, steps: [...answer.steps, formatExpression(next)] });
+    setPick(null);
+    setHint({
+      task,
+      message: isValue(next)
+        ? "Udtrykket er regnet ud. Tryk på Tjek svar."
+        : "Rigtigt! Klik på den næste regneart.",
+      ok: true,
     });
-    if (nextStreak > bestStreak) {
-      setBestStreak(nextStreak);
-    }
-    setRevealed(true);
-    if (autoNextRef.current) {
-      clearTimeout(autoNextRef.current);
-    }
-    autoNextRef.current = setTimeout(() => {
-      newTask();
-    }, AUTO_NEXT_MS);
   }
 
-  function revealAnswer() {
-    emitLiveEvent({ type: "action", action: "reveal", ts: Date.now() });
-    setRevealed(true);
-    setFeedback({
-      type: "info",
-      message: `Rækkefølge: ${orderHint}. Facit: ${task.result}.`,
-    });
-    setStreak(0);
+  function appendToken(token: string) {
+    const value = `${answer.value} ${token}`.trim().slice(0, MAX_TARGET_LEN);
+    setAnswer({ ...answer, value });
   }
 
-  function emitLiveEvent(event: LiveEvent) {
-    if (!roomId) return;
-    sendLiveEvent(roomId, event);
+  function getOrderNumber(category: OrderCategory) {
+    const index = answer.order.indexOf(category);
+    return index >= 0 ? index + 1 : null;
   }
-  const level = Math.floor(streak / 5) + 1;
-  const progressInLevel = streak % 5;
-  const progress = progressInLevel / 5;
-  const toNext = progressInLevel === 0 ? 5 : 5 - progressInLevel;
-
   const selectClass =
     "mt-2 w-full rounded-xl border border-black/10 bg-white/80 px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
 
@@ -699,70 +271,236 @@ export default function RegnehierarkietPage() {
               </div>
 
               <div className="mt-8 flex flex-col gap-6">
-                <div className="flex flex-wrap items-center justify-center gap-2 text-2xl font-semibold text-slate-900">
-                  {task.terms.map((term, index) => (
-                    <span key={term.id} className="flex items-center gap-2">
-                      {term.category === "number" ? (
-                        <span className="rounded-2xl border border-black/10 bg-white/80 px-4 py-2 shadow-sm">
-                          {term.display}
-                        </span>
-                      ) : (
+                {task.target ? (
+                  <div className="flex flex-col items-center gap-4">
+                    <div className="text-center">
+                      <div className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Ram tallet
+                      </div>
+                      <div className="text-5xl font-semibold text-slate-900">
+                        {task.result}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {task.target.numbers.map((value, index) => (
                         <button
+                          key={index}
                           type="button"
-                          onClick={() =>
-                            handleOrderClick(
-                              term.category === "parens" ? "parens" : term.category === "power" ? "power" : "multiply"
-                            )
-                          }
-                          className="relative rounded-2xl border border-black/10 bg-white/90 px-4 py-2 shadow-sm transition hover:translate-y-[-1px]"
+                          disabled={revealed}
+                          onClick={() => appendToken(String(value))}
+                          className="rounded-2xl border border-black/10 bg-white/80 px-4 py-2 text-2xl font-semibold text-slate-900 shadow-sm"
                         >
-                          {term.display}
-                          {renderOrderBadge(
-                            term.category === "parens" ? "parens" : term.category === "power" ? "power" : "multiply"
-                          )}
+                          {value}
                         </button>
-                      )}
-                      {index < task.ops.length && (
+                      ))}
+                    </div>
+                    <input
+                      value={answer.value}
+                      onChange={(e) =>
+                        setAnswer({
+                          ...answer,
+                          value: e.target.value.slice(0, MAX_TARGET_LEN),
+                        })
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") checkAnswer();
+                      }}
+                      maxLength={MAX_TARGET_LEN}
+                      disabled={revealed}
+                      className="w-full max-w-sm rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                      placeholder="fx 2 · (3 + 4)"
+                    />
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {TARGET_TOKENS.map((token) => (
                         <button
+                          key={token}
                           type="button"
-                          onClick={() =>
-                            handleOrderClick("addsub")
+                          disabled={revealed}
+                          onClick={() => appendToken(token)}
+                          className="rounded-xl border border-black/10 bg-white/90 px-3 py-1 text-lg text-slate-700 shadow-sm"
+                        >
+                          {token}
+                        </button>
+                      ))}
+                      <button
+                        type="button"
+                        disabled={revealed}
+                        onClick={() => setAnswer({ ...answer, value: "" })}
+                        className="rounded-xl border border-black/10 bg-white/90 px-3 py-1 text-sm font-semibold text-slate-700 shadow-sm"
+                      >
+                        Ryd
+                      </button>
+                    </div>
+                    <p className="text-center text-sm text-slate-500">
+                      Brug tallene i den viste rækkefølge, og sæt regnetegn og
+                      parenteser, så udtrykket giver {task.result}.
+                    </p>
+                  </div>
+                ) : task.stepwise ? (
+                  <div className="flex flex-col items-center gap-4">
+                    {current && (
+                      <ExpressionReducer
+                        expr={current}
+                        selected={picked?.path ?? null}
+                        onPick={handlePick}
+                        disabled={revealed || isValue(current)}
+                      />
+                    )}
+                    {picked && pickedNode && (
+                      <div className="flex items-center gap-2 text-lg font-semibold text-slate-800">
+                        <span>{formatExpression(pickedNode)} =</span>
+                        <input
+                          autoFocus
+                          value={picked.value}
+                          onChange={(e) =>
+                            setPick({
+                              ...picked,
+                              value: e.target.value.slice(0, MAX_ANSWER_LEN),
+                            })
                           }
-                          className="relative rounded-xl border border-black/10 bg-white/90 px-3 py-2 text-xl text-slate-700 shadow-sm transition hover:translate-y-[-1px]"
+                          inputMode="decimal"
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") submitStep();
+                          }}
+                          maxLength={MAX_ANSWER_LEN}
+                          className="w-28 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                        />
+                        <button
+                          type="button"
+                          onClick={submitStep}
+                          className="rounded-full bg-[var(--brand-2)] px-4 py-2 text-sm font-semibold text-white shadow-sm"
                         >
-                          {task.ops[index]}
-                          {renderOrderBadge("addsub")}
+                          OK
                         </button>
-                      )}
-                    </span>
-                  ))}
-                  <span className="text-3xl text-slate-600">=</span>
-                  <span className="text-2xl text-slate-500">?</span>
-                </div>
-
-                <div className="rounded-2xl border border-dashed border-black/10 bg-white/70 px-4 py-4 text-center text-sm text-slate-600">
-                  Klik på den rigtige rækkefølge og skriv resultatet.
-                </div>
-
-                <div className="flex flex-col items-center gap-2">
-                  <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                    Facit
-                  </label>
-                  <input
-                    value={answer}
-                    onChange={(e) =>
-                      setAnswer(e.target.value.slice(0, MAX_ANSWER_LEN))
-                    }
-                    inputMode="decimal"
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter") checkAnswer();
-                    }}
-                    maxLength={MAX_ANSWER_LEN}
-                    disabled={revealed}
-                    className="w-48 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
-                    placeholder="Skriv resultatet"
-                  />
-                </div>
+                      </div>
+                    )}
+                    {stepHint && (
+                      <div
+                        className={`rounded-2xl border px-4 py-2 text-sm ${
+                          stepHint.ok
+                            ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                            : "border-amber-200 bg-amber-50 text-amber-700"
+                        }`}
+                      >
+                        {stepHint.message}
+                      </div>
+                    )}
+                    <div className="w-full rounded-2xl border border-dashed border-black/10 bg-white/70 px-4 py-3 text-sm text-slate-600">
+                      {[task.expression, ...answer.steps].map((line, index) => (
+                        <div key={index} className="font-mono">
+                          {index === 0 ? "" : "= "}
+                          {line}
+                        </div>
+                      ))}
+                    </div>
+                    {answer.steps.length > 0 && !revealed && (
+                      <button
+                        type="button"
+                        onClick={() => setAnswer({ ...answer, steps: [] })}
+                        className="rounded-full border border-black/10 bg-white px-3 py-1 text-xs font-semibold text-slate-700 transition"
+                      >
+                        Start forfra
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    {task.categories ? (
+                      <div className="flex flex-col items-center gap-4">
+                        <div className="flex flex-wrap items-center justify-center gap-2 text-2xl font-semibold text-slate-900">
+                          <span className="rounded-2xl border border-black/10 bg-white/80 px-4 py-2 shadow-sm">
+                            {task.expression}
+                          </span>
+                          <span className="text-3xl text-slate-600">=</span>
+                          <span className="text-2xl text-slate-500">?</span>
+                        </div>
+                        <div className="flex flex-wrap justify-center gap-2">
+                          {(Object.keys(categoryLabels) as OrderCategory[]).map(
+                            (category) => (
+                              <button
+                                key={category}
+                                type="button"
+                                onClick={() => handleOrderClick(category)}
+                                className="relative rounded-xl border border-black/10 bg-white/90 px-3 py-2 text-lg text-slate-700 shadow-sm transition hover:translate-y-[-1px]"
+                              >
+                                {categoryLabels[category]}
+                                {renderOrderBadge(category)}
+                              </button>
+                            )
+                          )}
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap items-center justify-center gap-2 text-2xl font-semibold text-slate-900">
+                        {task.terms.map((term, index) => (
+                          <span key={term.id} className="flex items-center gap-2">
+                            {term.category === "number" ? (
+                              <span className="rounded-2xl border border-black/10 bg-white/80 px-4 py-2 shadow-sm">
+                                {term.display}
+                              </span>
+                            ) : (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  handleOrderClick(
+                                    term.category === "parens" ? "parens" : term.category === "power" ? "power" : "multiply"
+                                  )
+                                }
+                                className="relative rounded-2xl border border-black/10 bg-white/90 px-4 py-2 shadow-sm transition hover:translate-y-[-1px]"
+                              >
+                                {term.display}
+                                {renderOrderBadge(
+                                  term.category === "parens" ? "parens" : term.category === "power" ? "power" : "multiply"
+                                )}
+                              </button>
+                            )}
+                            {index < task.ops.length && (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  handleOrderClick("addsub")
+                                }
+                                className="relative rounded-xl border border-black/10 bg-white/90 px-3 py-2 text-xl text-slate-700 shadow-sm transition hover:translate-y-[-1px]"
+                              >
+                                {task.ops[index]}
+                                {renderOrderBadge("addsub")}
+                              </button>
+                            )}
+                          </span>
+                        ))}
+                        <span className="text-3xl text-slate-600">=</span>
+                        <span className="text-2xl text-slate-500">?</span>
+                      </div>
+                    )}
+
+                    <div className="rounded-2xl border border-dashed border-black/10 bg-white/70 px-4 py-4 text-center text-sm text-slate-600">
+                      Klik på den rigtige rækkefølge og skriv resultatet.
+                    </div>
+
+                    <div className="flex flex-col items-center gap-2">
+                      <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Facit
+                      </label>
+                      <input
+                        value={answer.value}
+                        onChange={(e) =>
+                          setAnswer({
+                            ...answer,
+                            value: e.target.value.slice(0, MAX_ANSWER_LEN),
+                          })
+                        }
+                        inputMode="decimal"
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") checkAnswer();
+                        }}
+                        maxLength={MAX_ANSWER_LEN}
+                        disabled={revealed}
+                        className="w-48 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                        placeholder="Skriv resultatet"
+                      />
+                    </div>
+                  </>
+                )}
 
                 <div className="flex w-full flex-col gap-3 sm:flex-row">
                   <button
@@ -869,6 +607,25 @@ export default function RegnehierarkietPage() {
                       <option value="3">Level 3</option>
                       <option value="4">Level 4</option>
                       <option value="5">Level 5</option>
+                      <option value="6">Level 6</option>
+                      <option value="7">Level 7</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Arbejdsform
+                    </label>
+                    <select
+                      className={selectClass}
+                      value={settings.mode}
+                      onChange={(e) =>
+                        updateSetting("mode", e.target.value as Mode)
+                      }
+                    >
+                      <option value="order">Marker rækkefølge og skriv facit</option>
+                      <option value="steps">Regn trin for trin</option>
+                      <option value="target">Ram tallet</option>
                     </select>
                   </div>
                 </div>
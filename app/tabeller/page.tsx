@@ -0,0 +1,487 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useLiveSession } from "@/hooks/useLiveSession";
+import { useTaskModule } from "@/hooks/useTaskModule";
+import Whiteboard from "@/components/Whiteboard";
+import { sessionSettingsFor } from "@/utils/taskModule";
+import {
+  ALL_TABLES,
+  factKey,
+  factLevel,
+  loadMastery,
+  resetMastery,
+  sessionTables,
+  tabellerModule,
+  withTabellerSession,
+  type FactLevel,
+  type TabellerReverse,
+} from "@/utils/tracks/tabeller";
+
+const MAX_ANSWER_LEN = 6;
+
+const levelStyles: Record<FactLevel, string> = {
+  new: "bg-white text-slate-400",
+  weak: "bg-red-100 text-red-700",
+  slow: "bg-amber-100 text-amber-700",
+  learning: "bg-sky-100 text-sky-700",
+  mastered: "bg-emerald-100 text-emerald-700",
+};
+
+const levelLabels: Record<FactLevel, string> = {
+  new: "Ikke øvet",
+  weak: "Driller",
+  slow: "Langsom",
+  learning: "På vej",
+  mastered: "Kan den",
+};
+
+export default function TabellerPage() {
+  const router = useRouter();
+  const {
+    isJoined,
+    joining,
+    hasGlobalIdentity,
+    identityChecked,
+    roomId,
+    seed,
+    trackSettings,
+  } = useLiveSession({
+    storageKey: tabellerModule.id,
+    trackLabel: tabellerModule.trackLabel,
+    onInvalidSession: () => router.replace("/"),
+  });
+  const [mastery, setMastery] = useState(loadMastery);
+  const lockedTables = useMemo(
+    () => sessionTables(sessionSettingsFor(trackSettings, tabellerModule.id)),
+    [trackSettings]
+  );
+  // Med seed skal hele klassen have samme opgaver, saa mestringen vaegter kun
+  // uden seed.
+  const trackModule = useMemo(
+    () => withTabellerSession(seed ? {} : mastery, lockedTables),
+    [seed, mastery, lockedTables]
+  );
+  const {
+    settings,
+    task,
+    updateSetting,
+    newTask,
+    answer,
+    setAnswer,
+    feedback,
+    revealed,
+    streak,
+    level,
+    progress,
+    toNext,
+    checkAnswer,
+    revealAnswer,
+  } = useTaskModule(trackModule, roomId, seed);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showCanvas, setShowCanvas] = useState(false);
+  const tables = lockedTables.length > 0 ? lockedTables : settings.tables;
+
+  useEffect(() => {
+    if (!identityChecked) return;
+    if (isJoined || joining) return;
+    if (hasGlobalIdentity) return;
+    router.replace("/");
+  }, [identityChecked, isJoined, joining, hasGlobalIdentity, router]);
+
+  function check() {
+    checkAnswer();
+    setMastery(loadMastery());
+  }
+
+  function reveal() {
+    revealAnswer();
+    setMastery(loadMastery());
+  }
+
+  function toggleTable(table: number) {
+    const next = settings.tables.includes(table)
+      ? settings.tables.filter((t) => t !== table)
+      : [...settings.tables, table].sort((a, b) => a - b);
+    if (next.length === 0) return;
+    updateSetting("tables", next);
+  }
+
+  const selectClass =
+    "mt-2 w-full rounded-xl border border-black/10 bg-white/80 px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
+
+  if (!isJoined) {
+    if (hasGlobalIdentity) {
+      return (
+        <main className="relative min-h-screen overflow-hidden px-6 py-10 md:px-10">
+          <div
+            aria-hidden
+            className="pointer-events-none absolute -top-24 right-0 h-64 w-64 rounded-full bg-[var(--brand-2)]/20 blur-3xl float-slow"
+          />
+          <div
+            aria-hidden
+            className="pointer-events-none absolute bottom-0 left-0 h-72 w-72 rounded-full bg-[var(--brand-1)]/20 blur-3xl float-slow"
+          />
+          <div className="relative mx-auto flex max-w-3xl flex-col gap-6">
+            <header className="flex flex-col gap-4 rise-in">
+              <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+                Forbinder
+              </p>
+              <h1 className="text-4xl font-[var(--font-display)] text-slate-900 md:text-5xl">
+                Klar om et øjeblik
+              </h1>
+              <p className="max-w-2xl text-base text-slate-600">
+                Vi forbinder til din session.
+              </p>
+            </header>
+          </div>
+        </main>
+      );
+    }
+
+    return null;
+  }
+
+  return (
+    <main className="relative min-h-screen overflow-hidden px-6 py-10 md:px-10">
+      <div
+        aria-hidden
+        className="pointer-events-none absolute -top-24 right-0 h-64 w-64 rounded-full bg-[var(--brand-2)]/20 blur-3xl float-slow"
+      />
+      <div
+        aria-hidden
+        className="pointer-events-none absolute bottom-0 left-0 h-72 w-72 rounded-full bg-[var(--brand-1)]/20 blur-3xl float-slow"
+      />
+
+      <div className="relative mx-auto flex max-w-6xl flex-col gap-8">
+        <header className="flex flex-col gap-5 md:flex-row md:items-end md:justify-between rise-in">
+          <div className="space-y-3">
+            <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+              Tabeller
+            </p>
+            <h1 className="text-4xl font-[var(--font-display)] text-slate-900 md:text-5xl">
+              Tabeltræning
+            </h1>
+            <p className="max-w-xl text-base text-slate-600">
+              Vælg tabellerne, du vil øve. De stykker, der driller eller går
+              langsomt, kommer oftere igen.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <div className="rounded-2xl border border-[var(--border)] bg-[var(--panel)]/80 px-4 py-3 shadow-[var(--shadow-1)]">
+              <div className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                Genvej
+              </div>
+              <div className="text-lg font-semibold text-slate-800">
+                N = ny opgave
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <section className="grid gap-6 lg:grid-cols-[1.1fr,0.9fr]">
+          <div className="rise-in rise-in-delay-1">
+            <div className="rounded-3xl border border-[var(--border)] bg-[var(--panel)]/90 p-6 shadow-[var(--shadow-1)] backdrop-blur">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-xs uppercase tracking-[0.25em] text-slate-500">
+                    Opgave
+                  </p>
+                  <h2 className="text-2xl font-semibold text-slate-900">
+                    {tabellerModule.label(task)}
+                  </h2>
+                </div>
+                <div className="min-w-[180px] rounded-2xl border border-[var(--border)] bg-[var(--panel)]/80 px-4 py-3 shadow-[var(--shadow-1)]">
+                  <div className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                    Niveau {level}
+                  </div>
+                  <div className="text-lg font-semibold text-slate-800">
+                    {streak} streak
+                  </div>
+                  <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-black/10">
+                    <div
+                      className="h-full rounded-full bg-[var(--brand-2)] transition-all"
+                      style={{ width: `${Math.round(progress * 100)}%` }}
+                    />
+                  </div>
+                  <div className="mt-1 text-[11px] text-slate-500">
+                    {toNext} til næste level
+                  </div>
+                </div>
+              </div>
+
+              <div className="mt-8 flex flex-col gap-6">
+                <div className="flex flex-wrap items-center justify-center gap-4 text-4xl font-semibold text-slate-900">
+                  {task.reverse ? (
+                    <>
+                      <span className="text-slate-500">?</span>
+                      <span className="text-slate-600">×</span>
+                      <span>{task.table}</span>
+                      <span className="text-slate-600">=</span>
+                      <span>{task.table * task.factor}</span>
+                    </>
+                  ) : (
+                    <>
+                      <span>{task.factor}</span>
+                      <span className="text-slate-600">×</span>
+                      <span>{task.table}</span>
+                      <span className="text-slate-600">=</span>
+                      <span className="text-slate-500">?</span>
+                    </>
+                  )}
+                </div>
+
+                <div className="flex flex-col gap-4">
+                  <div className="flex flex-col items-center gap-2">
+                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Svar
+                    </label>
+                    <input
+                      value={answer}
+                      onChange={(e) =>
+                        setAnswer(e.target.value.slice(0, MAX_ANSWER_LEN))
+                      }
+                      inputMode="numeric"
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") check();
+                      }}
+                      disabled={revealed}
+                      maxLength={MAX_ANSWER_LEN}
+                      className="w-44 rounded-lg border border-black/10 bg-white/90 px-3 py-2 text-center text-lg font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                      placeholder="Skriv dit svar"
+                    />
+                  </div>
+
+                  <div className="flex w-full flex-col gap-3 sm:flex-row">
+                    <button
+                      onClick={check}
+                      disabled={revealed}
+                      className="flex-1 rounded-full bg-[var(--brand-2)] px-4 py-3 text-sm font-semibold text-white shadow-lg shadow-blue-200/50 transition hover:translate-y-[-1px] hover:bg-blue-600 disabled:opacity-50"
+                    >
+                      Tjek svar
+                    </button>
+                    <button
+                      onClick={reveal}
+                      disabled={revealed}
+                      className="flex-1 rounded-full border border-black/10 bg-white px-4 py-3 text-sm font-semibold text-slate-800 shadow-sm transition hover:translate-y-[-1px] disabled:opacity-50"
+                    >
+                      Vis facit
+                    </button>
+                    <button
+                      onClick={() => setShowCanvas((prev) => !prev)}
+                      className="flex-1 rounded-full border border-black/10 bg-white px-4 py-3 text-sm font-semibold text-slate-800 shadow-sm transition hover:translate-y-[-1px]"
+                    >
+                      {showCanvas ? "Skjul whiteboard" : "Whiteboard"}
+                    </button>
+                  </div>
+                </div>
+
+                {feedback.type !== "idle" && (
+                  <div
+                    className={`rounded-2xl border px-4 py-3 text-sm ${
+                      feedback.type === "correct"
+                        ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                        : feedback.type === "wrong"
+                        ? "border-amber-200 bg-amber-50 text-amber-700"
+                        : feedback.type === "info"
+                        ? "border-sky-200 bg-sky-50 text-sky-700"
+                        : "border-red-200 bg-red-50 text-red-700"
+                    }`}
+                  >
+                    {feedback.message}
+                  </div>
+                )}
+                <p className="text-sm text-slate-500">
+                  Tip: Tryk Enter for at tjekke, og N for ny opgave.
+                </p>
+              </div>
+            </div>
+
+            <Whiteboard
+              visible={showCanvas}
+              roomId={roomId}
+              resetKey={task}
+              enableWheelZoom
+              enablePinchZoom
+              showZoomButtons={false}
+              blockPageScroll
+            />
+          </div>
+          <div className="rise-in rise-in-delay-2">
+            <div className="rounded-3xl border border-[var(--border)] bg-[var(--panel)]/90 p-6 shadow-[var(--shadow-1)] backdrop-blur">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <p className="text-xs uppercase tracking-[0.25em] text-slate-500">
+                    Missionskontrol
+                  </p>
+                  <h2 className="text-2xl font-semibold text-slate-900">
+                    Indstillinger
+                  </h2>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setShowSettings((prev) => !prev)}
+                    aria-label={
+                      showSettings ? "Skjul indstillinger" : "Vis indstillinger"
+                    }
+                    title={
+                      showSettings ? "Skjul indstillinger" : "Vis indstillinger"
+                    }
+                    className="flex items-center justify-center rounded-full border border-black/10 bg-white p-2 text-slate-700 shadow-sm transition"
+                  >
+                    <img
+                      src="/gear.png"
+                      alt=""
+                      aria-hidden="true"
+                      className="h-4 w-4"
+                    />
+                  </button>
+                </div>
+              </div>
+
+              {showSettings ? (
+                <div className="mt-6 grid gap-5">
+                  <div>
+                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Tabeller
+                    </label>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {ALL_TABLES.map((table) => {
+                        const active = tables.includes(table);
+                        return (
+                          <button
+                            key={table}
+                            onClick={() => toggleTable(table)}
+                            aria-pressed={active}
+                            disabled={lockedTables.length > 0}
+                            className={`h-10 w-10 rounded-xl border text-sm font-semibold shadow-sm transition disabled:opacity-60 ${
+                              active
+                                ? "border-[var(--brand-2)] bg-[var(--brand-2)] text-white"
+                                : "border-black/10 bg-white/80 text-slate-700"
+                            }`}
+                          >
+                            {table}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    {lockedTables.length > 0 && (
+                      <p className="mt-2 text-xs text-slate-500">
+                        Læreren har valgt tabellerne for sessionen.
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Gange op til
+                    </label>
+                    <select
+                      className={selectClass}
+                      value={settings.maxFactor}
+                      onChange={(e) =>
+                        updateSetting("maxFactor", Number(e.target.value))
+                      }
+                    >
+                      <option value="10">10</option>
+                      <option value="12">12</option>
+                      <option value="20">20</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Omvendte stykker
+                    </label>
+                    <select
+                      className={selectClass}
+                      value={settings.reverse}
+                      onChange={(e) =>
+                        updateSetting(
+                          "reverse",
+                          e.target.value as TabellerReverse
+                        )
+                      }
+                    >
+                      <option value="off">Fra</option>
+                      <option value="mixed">Blandet</option>
+                      <option value="only">Kun omvendte (? × 7 = 56)</option>
+                    </select>
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-6 rounded-2xl border border-dashed border-black/10 bg-white/70 px-4 py-4 text-sm text-slate-600">
+                  Indstillingerne er skjult. Tryk på tandhjulet for at åbne dem
+                  igen.
+                </div>
+              )}
+
+              <button
+                onClick={newTask}
+                className="mt-6 w-full rounded-full bg-[var(--brand-3)] px-4 py-3 text-sm font-semibold text-white shadow-lg shadow-emerald-200/40 transition hover:translate-y-[-1px] hover:bg-emerald-600"
+              >
+                Ny opgave
+              </button>
+            </div>
+
+            <div className="mt-6 rounded-3xl border border-[var(--border)] bg-[var(--panel)]/90 p-6 shadow-[var(--shadow-1)] backdrop-blur">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-xs uppercase tracking-[0.25em] text-slate-500">
+                    Mestring
+                  </p>
+                  <h2 className="text-2xl font-semibold text-slate-900">
+                    Dine stykker
+                  </h2>
+                </div>
+                <button
+                  onClick={() => {
+                    resetMastery();
+                    setMastery(loadMastery());
+                  }}
+                  className="rounded-full border border-black/10 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 shadow-sm"
+                >
+                  Nulstil
+                </button>
+              </div>
+
+              <div className="mt-4 flex flex-col gap-1.5 overflow-x-auto">
+                {tables.map((table) => (
+                  <div key={table} className="flex gap-1.5">
+                    {Array.from({ length: settings.maxFactor }, (_, i) => {
+                      const factor = i + 1;
+                      const level = factLevel(mastery[factKey(table, factor)]);
+                      return (
+                        <div
+                          key={factor}
+                          title={`${factor} × ${table}: ${levelLabels[level]}`}
+                          className={`flex h-8 min-w-8 items-center justify-center rounded-lg border border-black/5 px-1 text-[11px] font-semibold ${levelStyles[level]}`}
+                        >
+                          {table * factor}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-4 flex flex-wrap gap-3 text-[11px] text-slate-600">
+                {(Object.keys(levelLabels) as FactLevel[]).map((level) => (
+                  <span key={level} className="flex items-center gap-1.5">
+                    <span
+                      className={`h-3 w-3 rounded border border-black/10 ${levelStyles[level]}`}
+                    />
+                    {levelLabels[level]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
+
+
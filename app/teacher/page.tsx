@@ -4,6 +4,9 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import type { LiveEvent } from "@/utils/liveTypes";
 import { sendLiveEvent, subscribeLiveEvents } from "@/utils/liveRealtime";
 import { supabase } from "@/utils/supabaseClient";
+import { getTaskModule } from "@/utils/trackRegistry";
+import { ALL_TABLES } from "@/utils/tracks/tabeller";
+import { parseTemplates } from "@/utils/tracks/tekstopgaver";
 
 type Status = "idle" | "connecting" | "open" | "error";
 type RoomState = {
@@ -13,6 +16,9 @@ type RoomState = {
   operation: string;
   answer: string;
   track: string;
+  trackId: string;
+  taskData: string;
+  taskSeed: string;
   attempts: number;
   correct: number;
   streak: number;
@@ -27,6 +33,18 @@ type RoomState = {
 const PREVIEW_WIDTH = 240;
 const PREVIEW_HEIGHT = 140;
 const PRESENCE_TIMEOUT_MS = 20000;
+const MAX_TEMPLATES_LEN = 8000;
+
+const TEMPLATE_EXAMPLE = `[
+  {
+    "context": "indkoeb",
+    "source": "practice",
+    "settings": { "operation": "multiplication" },
+    "text": "{name} køber {a} {frugt} til {b} kr. stykket. Hvad koster det?",
+    "unit": "kr.",
+    "words": { "frugt": ["æbler", "pærer"] }
+  }
+]`;
 
 export default function TeacherPage() {
   const [sessionCodes, setSessionCodes] = useState<string[]>([]);
@@ -35,6 +53,11 @@ export default function TeacherPage() {
   );
   const [sessionError, setSessionError] = useState("");
   const [creatingSession, setCreatingSession] = useState(false);
+  const [sessionSeed, setSessionSeed] = useState("");
+  const [wordTemplates, setWordTemplates] = useState("");
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [sessionTables, setSessionTables] = useState<number[]>([]);
+  const [showTables, setShowTables] = useState(false);
   const [activeRoom, setActiveRoom] = useState("");
   const [rooms, setRooms] = useState<RoomState[]>([]);
   const [now, setNow] = useState(() => Date.now());
@@ -92,11 +115,17 @@ export default function TeacherPage() {
           return;
         }
         if (payload.type === "task") {
-          updateRoom(room.id, {
+          const patch: Partial<RoomState> = {
             equation: payload.equation,
             operation: payload.operation,
+            trackId: payload.track ?? "",
+            taskData: payload.serialized ?? "",
+            taskSeed: payload.seed ?? "",
             lastNonCanvasAt: Date.now(),
-          });
+          };
+          const trackModule = getTaskModule(payload.track);
+          if (trackModule) patch.track = trackModule.trackLabel;
+          updateRoom(room.id, patch);
           return;
         }
         if (payload.type === "action") {
@@ -375,6 +404,9 @@ export default function TeacherPage() {
       operation: "",
       answer: "",
       track: "",
+      trackId: "",
+      taskData: "",
+      taskSeed: "",
       attempts: 0,
       correct: 0,
       streak: 0,
@@ -410,21 +442,48 @@ export default function TeacherPage() {
     }
   }
 
+  function toggleSessionTable(table: number) {
+    setSessionTables((prev) =>
+      prev.includes(table)
+        ? prev.filter((t) => t !== table)
+        : [...prev, table].sort((a, b) => a - b)
+    );
+  }
+
   async function createSession() {
     setCreatingSession(true);
     setSessionError("");
     let code = "";
     let inserted = false;
     let createdAt: string | null = null;
+    let missingColumn = "";
+    const seed = sessionSeed.trim();
+    const templates = wordTemplates.trim();
+    const { error: templateError } = parseTemplates(templates);
+    if (templateError) {
+      setSessionError(`Tekstopgaver: ${templateError}`);
+      setCreatingSession(false);
+      return;
+    }
+    // Valgfrie kolonner sendes kun med, naar de bruges, saa sessioner uden
+    // ogsaa virker foer scripts i sql/ er koert.
+    const extras = {
+      ...(seed ? { seed } : {}),
+      ...(templates ? { word_templates: templates } : {}),
+      ...(sessionTables.length > 0
+        ? {
+            track_settings: JSON.stringify({
+              tabeller: { tables: sessionTables },
+            }),
+          }
+        : {}),
+    };
     for (let attempt = 0; attempt < 5; attempt += 1) {
       code = generateSessionCode();
       const expiresAt = new Date(Date.now() + 90 * 60 * 1000).toISOString();
       const { data, error } = await supabase
         .from("sessions")
-        .insert({
-          code,
-          expires_at: expiresAt,
-        })
+        .insert({ code, expires_at: expiresAt, ...extras })
         .select("code,created_at")
         .single();
       if (!error && data) {
@@ -432,9 +491,22 @@ export default function TeacherPage() {
         inserted = true;
         break;
       }
+      missingColumn =
+        Object.keys(extras).find((column) =>
+          error?.message.includes(column)
+        ) ?? "";
+      if (missingColumn) break;
     }
     if (!inserted) {
-      setSessionError("Kunne ikke oprette session. Prøv igen.");
+      setSessionError(
+        missingColumn === "seed"
+          ? "Databasen mangler seed-kolonnen. Kør sql/session_seed.sql eller opret sessionen uden seed."
+          : missingColumn === "word_templates"
+          ? "Databasen mangler kolonnen til skabeloner. Kør sql/session_word_templates.sql eller opret sessionen uden."
+          : missingColumn
+          ? "Databasen mangler kolonnen til sporindstillinger. Kør sql/session_track_settings.sql eller opret sessionen uden tabeller."
+          : "Kunne ikke oprette session. Prøv igen."
+      );
       setCreatingSession(false);
       return;
     }
@@ -620,6 +692,13 @@ export default function TeacherPage() {
     () => rooms.find((room) => room.id === activeRoom),
     [rooms, activeRoom]
   );
+  // Elevens opgave genskabes fra det serialiserede data, saa facit kan vises.
+  const activeSolution = useMemo(() => {
+    if (!activeRoomState) return "";
+    const trackModule = getTaskModule(activeRoomState.trackId);
+    const task = trackModule?.deserialize(activeRoomState.taskData) ?? null;
+    return trackModule && task !== null ? trackModule.solution(task) : "";
+  }, [activeRoomState]);
   const activeAttempts = activeRoomState?.attempts ?? 0;
   const activeCorrect = activeRoomState?.correct ?? 0;
   const activeAccuracy =
@@ -691,6 +770,12 @@ export default function TeacherPage() {
 
               <div className="mt-6">
                 <div className="mt-3 flex flex-wrap gap-3">
+                  <input
+                    value={sessionSeed}
+                    onChange={(e) => setSessionSeed(e.target.value.slice(0, 32))}
+                    placeholder="Fælles seed (valgfri)"
+                    className="rounded-full border border-black/10 bg-white px-4 py-2 text-sm text-slate-700 shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                  />
                   <button
                     onClick={createSession}
                     disabled={creatingSession}
@@ -698,7 +783,69 @@ export default function TeacherPage() {
                   >
                     {creatingSession ? "Opretter..." : "Opret session"}
                   </button>
+                  <button
+                    onClick={() => setShowTemplates((prev) => !prev)}
+                    className="rounded-full border border-black/10 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:translate-y-[-1px]"
+                  >
+                    {showTemplates ? "Skjul skabeloner" : "Tekstopgaver: skabeloner"}
+                  </button>
+                  <button
+                    onClick={() => setShowTables((prev) => !prev)}
+                    className="rounded-full border border-black/10 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:translate-y-[-1px]"
+                  >
+                    {showTables ? "Skjul tabeller" : "Tabeltræning: tabeller"}
+                  </button>
                 </div>
+                {showTemplates && (
+                  <div className="mt-3">
+                    <textarea
+                      value={wordTemplates}
+                      onChange={(e) =>
+                        setWordTemplates(
+                          e.target.value.slice(0, MAX_TEMPLATES_LEN)
+                        )
+                      }
+                      rows={8}
+                      maxLength={MAX_TEMPLATES_LEN}
+                      spellCheck={false}
+                      className="w-full resize-y rounded-2xl border border-black/10 bg-white px-4 py-3 font-mono text-xs text-slate-700 shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]"
+                      placeholder={TEMPLATE_EXAMPLE}
+                    />
+                    <p className="mt-1 text-xs text-slate-500">
+                      Ekstra skabeloner (JSON) følger med nye sessioner. Pladser:{" "}
+                      {"{name}"}, ord fra &quot;words&quot; og tallene fra
+                      sporet, fx {"{a}"} og {"{b}"} eller {"{base}"} og{" "}
+                      {"{rate}"}.
+                    </p>
+                  </div>
+                )}
+                {showTables && (
+                  <div className="mt-3">
+                    <div className="flex flex-wrap gap-2">
+                      {ALL_TABLES.map((table) => {
+                        const active = sessionTables.includes(table);
+                        return (
+                          <button
+                            key={table}
+                            onClick={() => toggleSessionTable(table)}
+                            aria-pressed={active}
+                            className={`h-10 w-10 rounded-xl border text-sm font-semibold shadow-sm transition ${
+                              active
+                                ? "border-[var(--brand-2)] bg-[var(--brand-2)] text-white"
+                                : "border-black/10 bg-white/80 text-slate-700"
+                            }`}
+                          >
+                            {table}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <p className="mt-1 text-xs text-slate-500">
+                      Valgte tabeller gælder for alle elever i nye sessioner.
+                      Uden valg vælger eleverne selv.
+                    </p>
+                  </div>
+                )}
                 {sessionError && (
                   <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
                     {sessionError}
@@ -732,7 +879,8 @@ export default function TeacherPage() {
                   </div>
                 )}
                 <p className="mt-3 text-sm text-slate-600">
-                  Tilføj flere sessioner for multiview.
+                  Tilføj flere sessioner for multiview. Med et fælles seed får
+                  alle elever de samme opgaver i samme rækkefølge.
                 </p>
               </div>
             </div>
@@ -884,6 +1032,16 @@ export default function TeacherPage() {
                     ? `${activeRoomState.equation} =`
                     : "—"}
                 </div>
+                {activeSolution && (
+                  <div className="mt-2 text-sm text-slate-600">
+                    {activeSolution}
+                  </div>
+                )}
+                {activeRoomState?.taskSeed && (
+                  <div className="mt-2 text-xs text-slate-500">
+                    Seed: {activeRoomState.taskSeed}
+                  </div>
+                )}
               </div>
 
               <div className="mt-6 rounded-2xl border border-black/10 bg-white/90 px-4 py-4 shadow-sm">
@@ -0,0 +1,231 @@
+"use client";
+
+import {
+  rowDigitAt,
+  type CellStatus,
+  type ColumnAnswer,
+  type ColumnLayout,
+  type ColumnMarks,
+  type ColumnRow,
+} from "@/utils/columnArithmetic";
+
+type Props = {
+  layout: ColumnLayout;
+  answer: ColumnAnswer;
+  onChange: (next: ColumnAnswer) => void;
+  marks?: ColumnMarks | null;
+  disabled?: boolean;
+  onEnter?: () => void;
+};
+
+const cellBase =
+  "relative flex h-12 w-10 items-center justify-center font-mono text-3xl";
+const inputBase =
+  "h-11 w-9 rounded-lg border bg-white/90 text-center font-mono text-2xl font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)] disabled:opacity-60";
+const carryBase =
+  "h-7 w-7 rounded-md border bg-white/80 text-center font-mono text-sm text-slate-600 focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)] disabled:opacity-60";
+
+function statusClass(status?: CellStatus | null) {
+  if (status === "wrong") return "border-red-300 bg-red-50";
+  if (status === "empty") return "border-amber-300";
+  return "border-black/10";
+}
+
+function Comma({ row, column }: { row: ColumnRow; column: number }) {
+  if (row.decimals === 0 || column !== row.decimals) return null;
+  return (
+    <span className="absolute -right-1 bottom-1 text-2xl text-slate-700">
+      ,
+    </span>
+  );
+}
+
+function setAt(values: string[], index: number, value: string) {
+  const next = [...values];
+  next[index] = value;
+  return next;
+}
+
+export default function ColumnArithmetic({
+  layout,
+  answer,
+  onChange,
+  marks,
+  disabled,
+  onEnter,
+}: Props) {
+  // Kolonnerne tegnes fra venstre, men taelles fra hoejre (index 0 = enere).
+  const columns = Array.from(
+    { length: layout.width },
+    (_, i) => layout.width - 1 - i
+  );
+  const hasCarries = layout.carries.some((carry) => carry !== null);
+  const carryAbovePartials = layout.partials.length > 0;
+
+  function focusCell(id: string) {
+    const el = document.getElementById(id);
+    if (el instanceof HTMLInputElement) el.focus();
+  }
+
+  function digitInput(
+    id: string,
+    value: string,
+    status: CellStatus | null | undefined,
+    onValue: (value: string) => void,
+    nextId: string,
+    small = false
+  ) {
+    return (
+      <input
+        id={id}
+        value={value}
+        disabled={disabled}
+        inputMode="numeric"
+        maxLength={1}
+        onChange={(e) => {
+          const digit = e.target.value.replace(/\D/g, "").slice(-1);
+          onValue(digit);
+          if (digit) focusCell(nextId);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") onEnter?.();
+        }}
+        className={`${small ? carryBase : inputBase} ${statusClass(status)}`}
+      />
+    );
+  }
+
+  function renderCarryRow() {
+    return (
+      <div className="flex items-end">
+        <div className="flex h-8 w-10 items-center justify-center text-[10px] uppercase tracking-[0.1em] text-slate-400">
+          {layout.carryLabel}
+        </div>
+        {columns.map((column) => (
+          <div key={column} className="flex h-8 w-10 items-center justify-center">
+            {layout.carries[column] !== null && layout.carries[column] !== undefined
+              ? digitInput(
+                  `col-carry-${column}`,
+                  answer.carries[column] ?? "",
+                  marks?.carries[column],
+                  (value) =>
+                    onChange({
+                      ...answer,
+                      carries: setAt(answer.carries, column, value),
+                    }),
+                  `col-result-${column}`,
+                  true
+                )
+              : null}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  function renderStaticRow(row: ColumnRow, operator?: string) {
+    return (
+      <div className="flex">
+        <div className={`${cellBase} text-slate-500`}>{operator ?? ""}</div>
+        {columns.map((column) => {
+          const digit = rowDigitAt(row, column);
+          return (
+            <div key={column} className={`${cellBase} text-slate-900`}>
+              {digit ?? ""}
+              {digit !== null && <Comma row={row} column={column} />}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  function renderPartialRow(row: ColumnRow, rowIndex: number) {
+    const values = answer.partials[rowIndex] ?? [];
+    return (
+      <div key={`partial-${rowIndex}`} className="flex">
+        <div className={cellBase} />
+        {columns.map((column) => {
+          const inRow =
+            column >= row.shift && column < row.shift + row.digits.length;
+          return (
+            <div key={column} className={cellBase}>
+              {inRow
+                ? digitInput(
+                    `col-partial-${rowIndex}-${column}`,
+                    values[column] ?? "",
+                    marks?.partials[rowIndex]?.[column - row.shift],
+                    (value) => {
+                      const partials = [...answer.partials];
+                      partials[rowIndex] = setAt(values, column, value);
+                      onChange({ ...answer, partials });
+                    },
+                    `col-partial-${rowIndex}-${column + 1}`
+                  )
+                : null}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  function renderResultRow() {
+    const length = layout.result.digits.length;
+    return (
+      <div className="flex">
+        <div className={cellBase} />
+        {columns.map((column) => (
+          <div key={column} className={cellBase}>
+            {column < length ? (
+              <>
+                {digitInput(
+                  `col-result-${column}`,
+                  answer.result[column] ?? "",
+                  marks?.result[column],
+                  (value) =>
+                    onChange({
+                      ...answer,
+                      result: setAt(answer.result, column, value),
+                    }),
+                  layout.carries[column + 1] !== null &&
+                    layout.carries[column + 1] !== undefined
+                    ? `col-carry-${column + 1}`
+                    : `col-result-${column + 1}`
+                )}
+                <Comma row={layout.result} column={column} />
+              </>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const line = (
+    <div
+      className="ml-10 border-t-2 border-slate-700"
+      style={{ width: `${layout.width * 2.5}rem` }}
+    />
+  );
+
+  return (
+    <div className="inline-flex flex-col items-start">
+      {hasCarries && !carryAbovePartials && renderCarryRow()}
+      {layout.operands.map((row, index) => (
+        <div key={`operand-${index}`}>
+          {renderStaticRow(row, index > 0 ? layout.operator : undefined)}
+        </div>
+      ))}
+      {line}
+      {carryAbovePartials && (
+        <>
+          {layout.partials.map(renderPartialRow)}
+          {hasCarries && renderCarryRow()}
+          {line}
+        </>
+      )}
+      {renderResultRow()}
+    </div>
+  );
+}
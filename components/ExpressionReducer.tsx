@@ -0,0 +1,84 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { toSuperscript, type Expr, type ExprPath } from "@/utils/expression";
+
+type Props = {
+  expr: Expr;
+  selected: ExprPath | null;
+  onPick: (path: ExprPath) => void;
+  disabled?: boolean;
+};
+
+const opClass =
+  "mx-1 rounded-lg border border-black/10 bg-white px-2 py-0.5 text-slate-700 shadow-sm transition hover:-translate-y-px hover:border-[var(--brand-2)] disabled:opacity-60";
+
+function samePath(a: ExprPath | null, b: ExprPath) {
+  return !!a && a.length === b.length && a.every((key, i) => key === b[i]);
+}
+
+// Udtrykket vises med klikbare regnetegn; det valgte deludtryk fremhaeves.
+export default function ExpressionReducer({
+  expr,
+  selected,
+  onPick,
+  disabled,
+}: Props) {
+  function operator(label: string, path: ExprPath, extra = "") {
+    return (
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onPick(path)}
+        className={`${opClass} ${extra}`}
+      >
+        {label}
+      </button>
+    );
+  }
+
+  function render(node: Expr, path: ExprPath): ReactNode {
+    let content: ReactNode;
+    if (node.kind === "num") {
+      content = String(node.value).replace(".", ",");
+    } else if (node.kind === "parens") {
+      content = <>({render(node.inner, [...path, "inner"])})</>;
+    } else if (node.kind === "neg") {
+      content = <>-{render(node.inner, [...path, "inner"])}</>;
+    } else if (node.kind === "power") {
+      content = (
+        <>
+          {render(node.base, [...path, "base"])}
+          {operator(toSuperscript(node.exponent), path, "align-super text-base")}
+        </>
+      );
+    } else if (node.kind === "sqrt") {
+      content = (
+        <>
+          {operator("√", path)}
+          {render(node.inner, [...path, "inner"])}
+        </>
+      );
+    } else {
+      content = (
+        <>
+          {render(node.left, [...path, "left"])}
+          {operator(node.op, path)}
+          {render(node.right, [...path, "right"])}
+        </>
+      );
+    }
+    if (!samePath(selected, path)) return content;
+    return (
+      <span className="rounded-xl bg-amber-100 px-1 ring-2 ring-amber-300">
+        {content}
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-center text-2xl font-semibold text-slate-900">
+      {render(expr, [])}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+export type FractionModelKind = "pie" | "bar" | "grid";
+
+type Props = {
+  kind: FractionModelKind;
+  // Antal dele i én hel (naevneren).
+  parts: number;
+  // Antal skraverede dele i alt, talt i deldele naar split > 1.
+  shaded: number;
+  wholes?: number;
+  // Hver del deles i split mindre dele; linjerne toner frem, naar showSplit.
+  split?: number;
+  showSplit?: boolean;
+  onPick?: (index: number) => void;
+  disabled?: boolean;
+};
+
+const SIZE = 96;
+const BAR_WIDTH = 176;
+const BAR_HEIGHT = 40;
+const FILL = "var(--brand-2)";
+const STROKE = "#334155";
+
+// Raekker x kolonner saa taet paa et kvadrat som muligt.
+function gridShape(parts: number) {
+  let rows = Math.floor(Math.sqrt(parts));
+  while (parts % rows !== 0) rows -= 1;
+  return { rows, cols: parts / rows };
+}
+
+function sectorPath(index: number, total: number) {
+  const r = SIZE / 2 - 2;
+  const c = SIZE / 2;
+  if (total === 1) {
+    return `M ${c} ${c - r} A ${r} ${r} 0 1 1 ${c - 0.01} ${c - r} Z`;
+  }
+  const angle = (i: number) => (i / total) * 2 * Math.PI - Math.PI / 2;
+  const x = (i: number) => c + r * Math.cos(angle(i));
+  const y = (i: number) => c + r * Math.sin(angle(i));
+  const large = 1 / total > 0.5 ? 1 : 0;
+  return `M ${c} ${c} L ${x(index)} ${y(index)} A ${r} ${r} 0 ${large} 1 ${x(
+    index + 1
+  )} ${y(index + 1)} Z`;
+}
+
+export default function FractionModel({
+  kind,
+  parts,
+  shaded,
+  wholes = 1,
+  split = 1,
+  showSplit = false,
+  onPick,
+  disabled,
+}: Props) {
+  const total = parts * split;
+  const interactive = !!onPick && !disabled;
+  const minorStyle = {
+    opacity: showSplit ? 1 : 0,
+    transition: "opacity 700ms ease-in-out",
+  };
+
+  function cellProps(whole: number, index: number) {
+    const global = whole * total + index;
+    return {
+      fill: global < shaded ? FILL : "#ffffff",
+      fillOpacity: global < shaded ? 0.55 : 1,
+      className: interactive ? "cursor-pointer" : undefined,
+      onClick: interactive ? () => onPick?.(global) : undefined,
+      style: { transition: "fill 200ms" },
+    };
+  }
+
+  function renderPie(whole: number) {
+    const c = SIZE / 2;
+    const r = SIZE / 2 - 2;
+    return (
+      <svg key={whole} viewBox={`0 0 ${SIZE} ${SIZE}`} width={SIZE} height={SIZE}>
+        {Array.from({ length: total }, (_, i) => (
+          <path key={i} d={sectorPath(i, total)} {...cellProps(whole, i)} />
+        ))}
+        {total > 1 &&
+          Array.from({ length: total }, (_, i) => {
+            const angle = (i / total) * 2 * Math.PI - Math.PI / 2;
+            return (
+              <line
+                key={i}
+                x1={c}
+                y1={c}
+                x2={c + r * Math.cos(angle)}
+                y2={c + r * Math.sin(angle)}
+                stroke={STROKE}
+                strokeWidth={i % split === 0 ? 1.5 : 1}
+                style={i % split === 0 ? undefined : minorStyle}
+                pointerEvents="none"
+              />
+            );
+          })}
+        <circle cx={c} cy={c} r={r} fill="none" stroke={STROKE} strokeWidth={2} />
+      </svg>
+    );
+  }
+
+  function renderBar(whole: number) {
+    const w = BAR_WIDTH / total;
+    return (
+      <svg
+        key={whole}
+        viewBox={`0 0 ${BAR_WIDTH} ${BAR_HEIGHT}`}
+        width={BAR_WIDTH}
+        height={BAR_HEIGHT}
+      >
+        {Array.from({ length: total }, (_, i) => (
+          <rect
+            key={i}
+            x={i * w}
+            y={0}
+            width={w}
+            height={BAR_HEIGHT}
+            {...cellProps(whole, i)}
+          />
+        ))}
+        {Array.from({ length: total - 1 }, (_, i) => (
+          <line
+            key={i}
+            x1={(i + 1) * w}
+            x2={(i + 1) * w}
+            y1={0}
+            y2={BAR_HEIGHT}
+            stroke={STROKE}
+            strokeWidth={(i + 1) % split === 0 ? 1.5 : 1}
+            style={(i + 1) % split === 0 ? undefined : minorStyle}
+            pointerEvents="none"
+          />
+        ))}
+        <rect
+          x={1}
+          y={1}
+          width={BAR_WIDTH - 2}
+          height={BAR_HEIGHT - 2}
+          fill="none"
+          stroke={STROKE}
+          strokeWidth={2}
+        />
+      </svg>
+    );
+  }
+
+  function renderGrid(whole: number) {
+    const { rows, cols } = gridShape(parts);
+    const w = SIZE / cols;
+    const h = SIZE / rows;
+    return (
+      <svg key={whole} viewBox={`0 0 ${SIZE} ${SIZE}`} width={SIZE} height={SIZE}>
+        {Array.from({ length: total }, (_, i) => {
+          // Hver storcelle deles vandret i split smaa celler.
+          const cell = Math.floor(i / split);
+          const sub = i % split;
+          return (
+            <rect
+              key={i}
+              x={(cell % cols) * w}
+              y={Math.floor(cell / cols) * h + (sub * h) / split}
+              width={w}
+              height={h / split}
+              {...cellProps(whole, i)}
+            />
+          );
+        })}
+        {Array.from({ length: rows * split - 1 }, (_, i) => (
+          <line
+            key={`h-${i}`}
+            x1={0}
+            x2={SIZE}
+            y1={((i + 1) * h) / split}
+            y2={((i + 1) * h) / split}
+            stroke={STROKE}
+            strokeWidth={(i + 1) % split === 0 ? 1.5 : 1}
+            style={(i + 1) % split === 0 ? undefined : minorStyle}
+            pointerEvents="none"
+          />
+        ))}
+        {Array.from({ length: cols - 1 }, (_, i) => (
+          <line
+            key={`v-${i}`}
+            x1={(i + 1) * w}
+            x2={(i + 1) * w}
+            y1={0}
+            y2={SIZE}
+            stroke={STROKE}
+            strokeWidth={1.5}
+            pointerEvents="none"
+          />
+        ))}
+        <rect
+          x={1}
+          y={1}
+          width={SIZE - 2}
+          height={SIZE - 2}
+          fill="none"
+          stroke={STROKE}
+          strokeWidth={2}
+        />
+      </svg>
+    );
+  }
+
+  const render =
+    kind === "pie" ? renderPie : kind === "bar" ? renderBar : renderGrid;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      {Array.from({ length: Math.max(1, wholes) }, (_, whole) => render(whole))}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import {
+  formatLength,
+  type GeometriFigure,
+  type GeometriUnit,
+} from "@/utils/tracks/geometri";
+
+type Props = {
+  figure: GeometriFigure;
+  unit: GeometriUnit;
+};
+
+type Point = [number, number];
+
+type Drawing = {
+  outline: Point[];
+  // Maal paa kanten outline[i] -> outline[i + 1]; null = ingen maal.
+  edgeLabels: (number | null)[];
+  // Stiplede hjaelpelinjer (hoejder o.l.) med maal ved siden af.
+  guides: { from: Point; to: Point; value: number }[];
+};
+
+const WIDTH = 320;
+const HEIGHT = 220;
+const PAD = 40;
+const LABEL_OFFSET = 14;
+
+// Koordinater i figurens enheder med y opad; polygoner gaar mod uret,
+// saa normalen (dy, -dx) altid peger ud af figuren.
+function buildDrawing(figure: Exclude<GeometriFigure, { shape: "circle" }>) {
+  switch (figure.shape) {
+    case "rectangle": {
+      const { width: w, height: h } = figure;
+      return {
+        outline: [
+          [0, 0],
+          [w, 0],
+          [w, h],
+          [0, h],
+        ],
+        edgeLabels: [w, h, null, null],
+        guides: [],
+      } satisfies Drawing;
+    }
+    case "triangle": {
+      const { base, height, offset } = figure;
+      return {
+        outline: [
+          [0, 0],
+          [base, 0],
+          [offset, height],
+        ],
+        edgeLabels: [base, figure.right, figure.left],
+        guides: [{ from: [offset, 0], to: [offset, height], value: height }],
+      } satisfies Drawing;
+    }
+    case "parallelogram": {
+      const { base, height, offset } = figure;
+      return {
+        outline: [
+          [0, 0],
+          [base, 0],
+          [base + offset, height],
+          [offset, height],
+        ],
+        edgeLabels: [base, null, null, figure.side],
+        guides: [{ from: [offset, 0], to: [offset, height], value: height }],
+      } satisfies Drawing;
+    }
+    case "trapezoid": {
+      const { top, bottom, height, offset } = figure;
+      return {
+        outline: [
+          [0, 0],
+          [bottom, 0],
+          [offset + top, height],
+          [offset, height],
+        ],
+        edgeLabels: [bottom, figure.right, top, figure.left],
+        guides: [{ from: [offset, 0], to: [offset, height], value: height }],
+      } satisfies Drawing;
+    }
+    case "lshape": {
+      const { width: w, height: h, cutWidth: cw, cutHeight: ch } = figure;
+      return {
+        outline: [
+          [0, 0],
+          [w, 0],
+          [w, h - ch],
+          [w - cw, h - ch],
+          [w - cw, h],
+          [0, h],
+        ],
+        edgeLabels: [w, h - ch, cw, ch, w - cw, h],
+        guides: [],
+      } satisfies Drawing;
+    }
+    case "house": {
+      const { width: w, height: h, roofHeight: rh } = figure;
+      return {
+        outline: [
+          [0, 0],
+          [w, 0],
+          [w, h],
+          [w / 2, h + rh],
+          [0, h],
+        ],
+        edgeLabels: [w, h, figure.roofSide, null, null],
+        guides: [{ from: [w / 2, h], to: [w / 2, h + rh], value: rh }],
+      } satisfies Drawing;
+    }
+  }
+}
+
+export default function GeometryFigure({ figure, unit }: Props) {
+  const textClass = "fill-slate-700 text-[12px] font-semibold";
+
+  if (figure.shape === "circle") {
+    const cx = WIDTH / 2;
+    const cy = HEIGHT / 2;
+    const r = HEIGHT / 2 - PAD / 2;
+    const value = figure.showDiameter ? figure.radius * 2 : figure.radius;
+    const x1 = figure.showDiameter ? cx - r : cx;
+    return (
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-auto w-full max-w-sm"
+        role="img"
+        aria-label="Cirkel"
+      >
+        <circle
+          cx={cx}
+          cy={cy}
+          r={r}
+          className="fill-amber-100/70 stroke-slate-700"
+          strokeWidth={2}
+        />
+        <circle cx={cx} cy={cy} r={3} className="fill-slate-700" />
+        <line
+          x1={x1}
+          y1={cy}
+          x2={cx + r}
+          y2={cy}
+          className="stroke-slate-700"
+          strokeWidth={1.5}
+          strokeDasharray="5 4"
+        />
+        <text
+          x={(x1 + cx + r) / 2}
+          y={cy - 8}
+          textAnchor="middle"
+          className={textClass}
+        >
+          {`${figure.showDiameter ? "d" : "r"} = ${formatLength(value, unit)}`}
+        </text>
+      </svg>
+    );
+  }
+
+  const drawing: Drawing = buildDrawing(figure);
+  const xs = drawing.outline.map(([x]) => x);
+  const ys = drawing.outline.map(([, y]) => y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX || 1;
+  const spanY = Math.max(...ys) - minY || 1;
+  const scale = Math.min((WIDTH - 2 * PAD) / spanX, (HEIGHT - 2 * PAD) / spanY);
+  const offsetX = (WIDTH - spanX * scale) / 2;
+  const offsetY = (HEIGHT - spanY * scale) / 2;
+
+  const toScreen = ([x, y]: Point): Point => [
+    offsetX + (x - minX) * scale,
+    HEIGHT - offsetY - (y - minY) * scale,
+  ];
+
+  const screen = drawing.outline.map(toScreen);
+  const points = screen.map(([x, y]) => `${x},${y}`).join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="h-auto w-full max-w-sm"
+      role="img"
+      aria-label="Figur"
+    >
+      <polygon
+        points={points}
+        className="fill-amber-100/70 stroke-slate-700"
+        strokeWidth={2}
+        strokeLinejoin="round"
+      />
+      {drawing.guides.map((guide, index) => {
+        const [x1, y1] = toScreen(guide.from);
+        const [x2, y2] = toScreen(guide.to);
+        return (
+          <g key={`guide-${index}`}>
+            <line
+              x1={x1}
+              y1={y1}
+              x2={x2}
+              y2={y2}
+              className="stroke-slate-500"
+              strokeWidth={1.5}
+              strokeDasharray="5 4"
+            />
+            <text
+              x={(x1 + x2) / 2 + 6}
+              y={(y1 + y2) / 2 + 4}
+              className={textClass}
+            >
+              {`h = ${formatLength(guide.value, unit)}`}
+            </text>
+          </g>
+        );
+      })}
+      {drawing.edgeLabels.map((value, index) => {
+        if (value === null) return null;
+        const [x1, y1] = screen[index];
+        const [x2, y2] = screen[(index + 1) % screen.length];
+        const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+        // Skaermens y vender nedad, saa den udadgaaende normal er (-dy, dx).
+        const nx = -(y2 - y1) / length;
+        const ny = (x2 - x1) / length;
+        return (
+          <text
+            key={`edge-${index}`}
+            x={(x1 + x2) / 2 + nx * LABEL_OFFSET}
+            y={(y1 + y2) / 2 + ny * LABEL_OFFSET + 4}
+            textAnchor="middle"
+            className={textClass}
+          >
+            {formatLength(value, unit)}
+          </text>
+        );
+      })}
+    </svg>
+  );
+}
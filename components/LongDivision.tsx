@@ -0,0 +1,206 @@
+"use client";
+
+import type { KeyboardEvent } from "react";
+import type { CellStatus } from "@/utils/columnArithmetic";
+import {
+  broughtDownDigit,
+  quotientIntegerDigits,
+  type LongDivisionAnswer,
+  type LongDivisionLayout,
+  type LongDivisionMarks,
+} from "@/utils/longDivision";
+
+type Props = {
+  layout: LongDivisionLayout;
+  answer: LongDivisionAnswer;
+  onChange: (next: LongDivisionAnswer) => void;
+  marks?: LongDivisionMarks | null;
+  disabled?: boolean;
+  onEnter?: () => void;
+};
+
+const CELL_REM = 2.5;
+const cellBase =
+  "relative flex h-12 w-10 items-center justify-center font-mono text-3xl";
+const inputBase =
+  "h-11 rounded-lg border bg-white/90 px-2 font-mono text-2xl font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)] disabled:opacity-60";
+
+function statusClass(status?: CellStatus | null) {
+  if (status === "wrong") return "border-red-300 bg-red-50";
+  if (status === "empty") return "border-amber-300";
+  return "border-black/10";
+}
+
+function setAt(values: string[], index: number, value: string) {
+  const next = [...values];
+  next[index] = value;
+  return next;
+}
+
+export default function LongDivision({
+  layout,
+  answer,
+  onChange,
+  marks,
+  disabled,
+  onEnter,
+}: Props) {
+  const width = layout.digits.length;
+  const integers = quotientIntegerDigits(layout);
+  const ownDigits = width - layout.extraZeros;
+  // Kolonne 1 er til minustegnet; cifrene starter i kolonne 2.
+  const gridStyle = {
+    display: "grid",
+    gridTemplateColumns: `repeat(${width + 1}, ${CELL_REM}rem)`,
+  };
+
+  function focusCell(id: string) {
+    const el = document.getElementById(id);
+    if (el instanceof HTMLInputElement) el.focus();
+  }
+
+  function onKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Enter") onEnter?.();
+  }
+
+  function numberInput(
+    id: string,
+    value: string,
+    status: CellStatus | undefined,
+    span: number,
+    end: number,
+    onValue: (value: string) => void
+  ) {
+    const start = Math.max(0, end - span + 1);
+    return (
+      <input
+        id={id}
+        value={value}
+        disabled={disabled}
+        inputMode="numeric"
+        maxLength={span}
+        onChange={(e) => onValue(e.target.value.replace(/\D/g, "").slice(0, span))}
+        onKeyDown={onKeyDown}
+        className={`${inputBase} w-full min-w-0 text-right ${statusClass(status)}`}
+        style={{ gridColumn: `${start + 2} / span ${end - start + 1}` }}
+      />
+    );
+  }
+
+  function renderStep(index: number) {
+    const step = layout.steps[index];
+    const span = String(step.partial).length;
+    const nextDigit = broughtDownDigit(layout, index);
+    return (
+      <div key={`step-${index}`} className="flex flex-col gap-1">
+        <div style={gridStyle} className="items-center">
+          <div
+            className={`${cellBase} text-slate-500`}
+            style={{ gridColumn: `${Math.max(0, step.end - span + 1) + 1}` }}
+          >
+            -
+          </div>
+          {numberInput(
+            `ld-product-${index}`,
+            answer.products[index] ?? "",
+            marks?.products[index],
+            span,
+            step.end,
+            (value) =>
+              onChange({ ...answer, products: setAt(answer.products, index, value) })
+          )}
+        </div>
+        <div style={gridStyle}>
+          <div
+            className="border-t-2 border-slate-700"
+            style={{
+              gridColumn: `${Math.max(0, step.end - span + 1) + 2} / ${step.end + 3}`,
+            }}
+          />
+        </div>
+        <div style={gridStyle} className="items-center">
+          {numberInput(
+            `ld-remainder-${index}`,
+            answer.remainders[index] ?? "",
+            marks?.remainders[index],
+            span,
+            step.end,
+            (value) =>
+              onChange({
+                ...answer,
+                remainders: setAt(answer.remainders, index, value),
+              })
+          )}
+          {nextDigit !== null && (
+            <div
+              className={`${cellBase} text-slate-400`}
+              style={{ gridColumn: `${step.end + 3}` }}
+            >
+              {nextDigit}
+              <span className="absolute -top-1 right-1 text-xs">↓</span>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="inline-flex flex-col items-start gap-1">
+      <div className="flex items-center">
+        <div style={gridStyle}>
+          <div className={cellBase} />
+          {layout.digits.split("").map((digit, index) => (
+            <div
+              key={index}
+              className={`${cellBase} ${
+                index >= ownDigits ? "text-slate-400" : "text-slate-900"
+              }`}
+            >
+              {digit}
+              {index === layout.integerDigits - 1 && width > layout.integerDigits && (
+                <span className="absolute -right-1 bottom-1 text-2xl text-slate-700">
+                  ,
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="px-2 font-mono text-3xl text-slate-900">
+          : {layout.divisor} =
+        </div>
+        <div className="flex items-center gap-1">
+          {layout.steps.map((_, index) => (
+            <div key={index} className="relative">
+              <input
+                id={`ld-quotient-${index}`}
+                value={answer.quotient[index] ?? ""}
+                disabled={disabled}
+                inputMode="numeric"
+                maxLength={1}
+                onChange={(e) => {
+                  const digit = e.target.value.replace(/\D/g, "").slice(-1);
+                  onChange({
+                    ...answer,
+                    quotient: setAt(answer.quotient, index, digit),
+                  });
+                  if (digit) focusCell(`ld-product-${index}`);
+                }}
+                onKeyDown={onKeyDown}
+                className={`${inputBase} w-9 text-center ${statusClass(
+                  marks?.quotient[index]
+                )}`}
+              />
+              {index === integers - 1 && index < layout.steps.length - 1 && (
+                <span className="absolute -right-1.5 bottom-0 text-2xl text-slate-700">
+                  ,
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+      {layout.steps.map((_, index) => renderStep(index))}
+    </div>
+  );
+}
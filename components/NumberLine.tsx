@@ -0,0 +1,157 @@
+"use client";
+
+import type { MouseEvent } from "react";
+import type { Relation } from "@/utils/tracks/ligninger";
+
+type Props = {
+  min: number;
+  max: number;
+  boundary: number | null;
+  relation: Relation | null;
+  onChange: (boundary: number, relation: Relation) => void;
+  disabled?: boolean;
+};
+
+const WIDTH = 560;
+const HEIGHT = 90;
+const PAD = 24;
+const AXIS_Y = 44;
+
+function relationFor(toRight: boolean, closed: boolean): Relation {
+  if (toRight) return closed ? "≥" : ">";
+  return closed ? "≤" : "<";
+}
+
+const buttonClass =
+  "rounded-full border px-3 py-1 text-xs font-semibold transition disabled:opacity-50";
+
+function toggleClass(active: boolean) {
+  return active
+    ? "border-transparent bg-[var(--brand-2)] text-white"
+    : "border-black/10 bg-white text-slate-700";
+}
+
+export default function NumberLine({
+  min,
+  max,
+  boundary,
+  relation,
+  onChange,
+  disabled,
+}: Props) {
+  const span = max - min;
+  const toX = (value: number) => PAD + ((value - min) / span) * (WIDTH - 2 * PAD);
+  const labelEvery = span <= 20 ? 1 : span <= 40 ? 5 : 10;
+  const toRight = relation === ">" || relation === "≥";
+  const closed = relation === "≤" || relation === "≥";
+
+  function onClick(e: MouseEvent<SVGSVGElement>) {
+    if (disabled) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const value = Math.round(min + ((x - PAD) / (WIDTH - 2 * PAD)) * span);
+    onChange(Math.min(max, Math.max(min, value)), relationFor(toRight, closed));
+  }
+
+  // Indtil der er valgt et punkt, kan retning og cirkel ikke saettes.
+  function update(nextRight: boolean, nextClosed: boolean) {
+    if (boundary === null) return;
+    onChange(boundary, relationFor(nextRight, nextClosed));
+  }
+
+  const markX = boundary === null ? null : toX(boundary);
+
+  return (
+    <div className="flex w-full flex-col items-center gap-2">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className={`w-full max-w-xl select-none ${
+          disabled ? "opacity-60" : "cursor-pointer"
+        }`}
+        onClick={onClick}
+        role="img"
+        aria-label="Tallinje"
+      >
+        {markX !== null && (
+          <line
+            x1={markX}
+            x2={toRight ? WIDTH - PAD / 2 : PAD / 2}
+            y1={AXIS_Y}
+            y2={AXIS_Y}
+            stroke="var(--brand-2)"
+            strokeWidth={6}
+            strokeLinecap="round"
+            opacity={0.6}
+          />
+        )}
+        <line
+          x1={PAD / 2}
+          x2={WIDTH - PAD / 2}
+          y1={AXIS_Y}
+          y2={AXIS_Y}
+          stroke="#334155"
+          strokeWidth={2}
+        />
+        {Array.from({ length: span + 1 }, (_, i) => min + i).map((value) => (
+          <g key={value}>
+            <line
+              x1={toX(value)}
+              x2={toX(value)}
+              y1={AXIS_Y - (value % labelEvery === 0 ? 7 : 4)}
+              y2={AXIS_Y + (value % labelEvery === 0 ? 7 : 4)}
+              stroke="#334155"
+              strokeWidth={value === 0 ? 2 : 1}
+            />
+            {value % labelEvery === 0 && (
+              <text
+                x={toX(value)}
+                y={AXIS_Y + 24}
+                textAnchor="middle"
+                fontSize={12}
+                fill="#475569"
+              >
+                {value}
+              </text>
+            )}
+          </g>
+        ))}
+        {markX !== null && (
+          <circle
+            cx={markX}
+            cy={AXIS_Y}
+            r={7}
+            stroke="var(--brand-2)"
+            strokeWidth={3}
+            fill={closed ? "var(--brand-2)" : "#ffffff"}
+          />
+        )}
+      </svg>
+      <div className="flex flex-wrap justify-center gap-2">
+        <button
+          type="button"
+          disabled={disabled || boundary === null}
+          onClick={() => update(false, closed)}
+          className={`${buttonClass} ${toggleClass(boundary !== null && !toRight)}`}
+        >
+          ← Mindre end
+        </button>
+        <button
+          type="button"
+          disabled={disabled || boundary === null}
+          onClick={() => update(true, closed)}
+          className={`${buttonClass} ${toggleClass(boundary !== null && toRight)}`}
+        >
+          Større end →
+        </button>
+        <button
+          type="button"
+          disabled={disabled || boundary === null}
+          onClick={() => update(toRight, !closed)}
+          className={`${buttonClass} ${toggleClass(false)}`}
+        >
+          {closed ? "● Grænsen er med" : "○ Grænsen er ikke med"}
+        </button>
+      </div>
+    </div>
+  );
+}
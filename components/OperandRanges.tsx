@@ -0,0 +1,94 @@
+"use client";
+
+import {
+  MAX_RANGE_DECIMALS,
+  MAX_RANGE_VALUE,
+  type OperandRange,
+} from "@/utils/generateTask";
+
+type Props = {
+  ranges: OperandRange[];
+  count: number;
+  onChange: (next: OperandRange[]) => void;
+};
+
+const inputClass =
+  "mt-1 w-full rounded-lg border border-black/10 bg-white/80 px-2 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--brand-2)]";
+
+function clampValue(raw: string) {
+  const n = Number(raw.replace(",", "."));
+  if (!Number.isFinite(n)) return 0;
+  return Math.min(MAX_RANGE_VALUE, Math.max(0, n));
+}
+
+export default function OperandRanges({ ranges, count, onChange }: Props) {
+  // Et interval pr. led; mangler der nogen, genbruges det sidste.
+  const rows = Array.from(
+    { length: count },
+    (_, i) => ranges[Math.min(i, ranges.length - 1)]
+  );
+
+  function update(index: number, patch: Partial<OperandRange>) {
+    const next = rows.map((range, i) => {
+      if (i !== index) return range;
+      // Faste vaerdier (forvalg) droppes, naar man retter intervallet.
+      const updated: OperandRange = { ...range, ...patch };
+      delete updated.values;
+      return updated;
+    });
+    onChange(next);
+  }
+
+  return (
+    <div className="grid gap-3">
+      {rows.map((range, index) => (
+        <div key={index}>
+          <div className="text-xs uppercase tracking-[0.2em] text-slate-500">
+            Tal {index + 1}
+            {range.values?.length ? ` (${range.values.join(", ")})` : ""}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-[11px] text-slate-500">
+              Min
+              <input
+                type="number"
+                min={0}
+                max={MAX_RANGE_VALUE}
+                className={inputClass}
+                value={range.min}
+                onChange={(e) => update(index, { min: clampValue(e.target.value) })}
+              />
+            </label>
+            <label className="text-[11px] text-slate-500">
+              Max
+              <input
+                type="number"
+                min={0}
+                max={MAX_RANGE_VALUE}
+                className={inputClass}
+                value={range.max}
+                onChange={(e) => update(index, { max: clampValue(e.target.value) })}
+              />
+            </label>
+            <label className="text-[11px] text-slate-500">
+              Decimaler
+              <select
+                className={inputClass}
+                value={range.decimals}
+                onChange={(e) =>
+                  update(index, { decimals: Number(e.target.value) })
+                }
+              >
+                {Array.from({ length: MAX_RANGE_DECIMALS + 1 }, (_, d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
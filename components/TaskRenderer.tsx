@@ -1,166 +1,108 @@
 "use client";
 
-import { useMemo, useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef } from "react";
 import VerticalLayout from "@/components/VerticalLayout";
+import ColumnArithmetic from "@/components/ColumnArithmetic";
+import LongDivision from "@/components/LongDivision";
 import Whiteboard from "@/components/Whiteboard";
-import type { LiveEvent } from "@/utils/liveTypes";
-import { sendLiveEvent } from "@/utils/liveRealtime";
-
-type Operation = "addition" | "subtraction" | "multiplication" | "division";
-
-type Task = {
-  operation: Operation;
-  layout?: "horizontal" | "vertical";
-  divisionLevel?: 1 | 2 | 3 | 4;
-  problem: {
-    operands: number[];
-    operator: string;
-  };
-};
+import { useTaskAttempt } from "@/hooks/useTaskModule";
+import type { FeedbackType } from "@/utils/taskModule";
+import {
+  emptyColumnAnswer,
+  markColumns,
+  type ColumnMarks,
+} from "@/utils/columnArithmetic";
+import {
+  emptyLongDivisionAnswer,
+  markLongDivision,
+  type LongDivisionMarks,
+} from "@/utils/longDivision";
+import {
+  answerPrecision,
+  columnLayoutFor,
+  hasRemainder,
+  longDivisionFor,
+  operationLabel,
+  practiceModule,
+  type PracticeTask,
+} from "@/utils/tracks/practice";
+import type { Operation } from "@/utils/generateTask";
 
 type FeedbackTone = "idle" | "ok" | "warn" | "info";
 
-const LS_STREAK = "practice_streak_v1";
-const LS_BEST_STREAK = "practice_best_streak_v1";
 const LS_LEVEL = "practice_level_v1";
 const AUTO_NEXT_MS = 1600;
 const MAX_ANSWER_LEN = 20;
 
-// ---------- Helpers ----------
-function parseDa(input: string): number {
-  if (typeof input !== "string") return NaN;
-  return Number(input.trim().replace(/\s+/g, "").replace(",", "."));
-}
-
-function decimalsCount(n: number): number {
-  const s = String(n);
-  const i = s.indexOf(".");
-  return i === -1 ? 0 : s.length - i - 1;
-}
-
-function roundTo(n: number, decimals: number): number {
-  const factor = Math.pow(10, decimals);
-  return Math.round(n * factor) / factor;
-}
-
-function truncTo(n: number, decimals: number): number {
-  const factor = Math.pow(10, decimals);
-  return Math.trunc(n * factor) / factor;
-}
-
-function fmtDa(n: number, decimals?: number): string {
-  const d = typeof decimals === "number" ? decimals : decimalsCount(n);
-  return n.toFixed(d).replace(".", ",");
-}
-
-function computeExpected(operation: Operation, operands: number[]) {
-  switch (operation) {
-    case "addition":
-      return operands.reduce((a, b) => a + b, 0);
-    case "subtraction":
-      return operands.slice(1).reduce((a, b) => a - b, operands[0]);
-    case "multiplication":
-      return operands.reduce((a, b) => a * b, 1);
-    case "division":
-      return operands.slice(1).reduce((a, b) => a / b, operands[0]);
-  }
-}
+const feedbackTones: Record<FeedbackType, FeedbackTone> = {
+  idle: "idle",
+  correct: "ok",
+  wrong: "warn",
+  error: "warn",
+  info: "info",
+};
 
 export default function TaskRenderer({
   task,
+  taskSeed,
   onRequestNewTask,
   roomId,
 }: {
-  task: Task;
+  task: PracticeTask;
+  taskSeed?: string;
   onRequestNewTask?: () => void;
   roomId?: string;
 }) {
-  const [answer, setAnswer] = useState("");
-  const [feedback, setFeedback] = useState("");
-  const [feedbackTone, setFeedbackTone] = useState<FeedbackTone>("idle");
-  const [revealed, setRevealed] = useState(false);
+  const {
+    answer,
+    setAnswer,
+    feedback,
+    revealed,
+    streak,
+    level,
+    progress,
+    toNext,
+    equationText,
+    checkAnswer,
+    revealAnswer,
+  } = useTaskAttempt(practiceModule, task, {
+    roomId,
+    taskSeed,
+    onNext: onRequestNewTask,
+  });
+  // Nudgen hoerer til den opgave, den blev vist for.
   const [nudge, setNudge] = useState<{
     message: string;
     tone: FeedbackTone;
+    task: PracticeTask;
+  } | null>(null);
+  const [columnMarks, setColumnMarks] = useState<{
+    marks: ColumnMarks;
+    task: PracticeTask;
+  } | null>(null);
+  const [divisionMarks, setDivisionMarks] = useState<{
+    marks: LongDivisionMarks;
+    task: PracticeTask;
   } | null>(null);
   const [showCanvas, setShowCanvas] = useState(false);
-  const inputDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  const readNumber = (key: string, fallback: number) => {
-    if (typeof window === "undefined") return fallback;
-    const raw = localStorage.getItem(key);
-    const parsed = raw ? Number(raw) : NaN;
-    return Number.isFinite(parsed) ? parsed : fallback;
-  };
-
-  const [streak, setStreak] = useState(() => readNumber(LS_STREAK, 0));
-  const [bestStreak, setBestStreak] = useState(() =>
-    readNumber(LS_BEST_STREAK, 0)
-  );
   const nudgeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const statsRef = useRef({ attempts: 0, correct: 0 });
+  const precision = answerPrecision(task);
+  const withRemainder = hasRemainder(task);
+  const columnLayout = columnLayoutFor(task);
+  const columns = answer.columns ?? emptyColumnAnswer;
+  const divisionLayout = longDivisionFor(task);
+  const divisionSteps = answer.division ?? emptyLongDivisionAnswer;
+  const feedbackTone = feedbackTones[feedback.type];
 
   useEffect(() => {
-    setAnswer("");
-    setFeedback("");
-    setFeedbackTone("idle");
-    setRevealed(false);
-    setNudge(null);
-    if (nudgeTimeoutRef.current) {
-      clearTimeout(nudgeTimeoutRef.current);
-      nudgeTimeoutRef.current = null;
-    }
-  }, [task]);
+    localStorage.setItem(LS_LEVEL, String(level));
+  }, [level]);
 
   useEffect(() => {
-    if (!roomId) return;
-    if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
-    inputDebounceRef.current = setTimeout(() => {
-      emitLiveEvent({ type: "input", value: answer, ts: Date.now() });
-    }, 140);
     return () => {
-      if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
+      if (nudgeTimeoutRef.current) clearTimeout(nudgeTimeoutRef.current);
     };
-  }, [answer, roomId]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_STREAK, String(streak));
-    localStorage.setItem(LS_LEVEL, String(Math.floor(streak / 5) + 1));
-  }, [streak]);
-
-  useEffect(() => {
-    localStorage.setItem(LS_BEST_STREAK, String(bestStreak));
-  }, [bestStreak]);
-
-  const expectedRaw = computeExpected(task.operation, task.problem.operands);
-  const precision = useMemo(() => {
-    const base = Math.max(...task.problem.operands.map(decimalsCount), 0);
-    if (task.operation !== "division") return base;
-    const level = task.divisionLevel ?? 1;
-    if (level <= 2) return 0;
-    return 2;
-  }, [task.problem.operands, task.operation, task.divisionLevel]);
-  const expected =
-    task.operation === "division"
-      ? truncTo(expectedRaw, precision)
-      : roundTo(expectedRaw, precision);
-
-  const equationText = useMemo(() => {
-    const parts = task.problem.operands.map((n) => fmtDa(n));
-    return parts.join(` ${task.problem.operator} `);
-  }, [task.problem.operands, task.problem.operator]);
-
-  const level = Math.floor(streak / 5) + 1;
-  const progressInLevel = streak % 5;
-  const progress = progressInLevel / 5;
-  const toNext = progressInLevel === 0 ? 5 : 5 - progressInLevel;
-
-  const operationLabel: Record<Operation, string> = {
-    addition: "Plus",
-    subtraction: "Minus",
-    multiplication: "Gange",
-    division: "Division",
-  };
+  }, []);
 
   const operationBadge: Record<Operation, string> = {
     addition: "bg-[var(--brand-3)]/15 text-emerald-800",
@@ -169,16 +111,6 @@ export default function TaskRenderer({
     division: "bg-amber-100 text-amber-800",
   };
 
-  useEffect(() => {
-    if (!roomId) return;
-    emitLiveEvent({
-      type: "task",
-      equation: equationText,
-      operation: operationLabel[task.operation],
-      ts: Date.now(),
-    });
-  }, [equationText, roomId, task.operation]);
-
   const feedbackStyles: Record<FeedbackTone, string> = {
     idle: "text-slate-600",
     ok: "text-emerald-700",
@@ -187,119 +119,40 @@ export default function TaskRenderer({
   };
 
   function showNudge(message: string, tone: FeedbackTone, durationMs: number) {
-    setNudge({ message, tone });
+    setNudge({ message, tone, task });
     if (nudgeTimeoutRef.current) clearTimeout(nudgeTimeoutRef.current);
     nudgeTimeoutRef.current = setTimeout(() => {
       setNudge(null);
     }, durationMs);
   }
 
-  function emitLiveEvent(event: LiveEvent) {
-    if (!roomId) return;
-    sendLiveEvent(roomId, event);
-  }
-
   // -------------------------------------------------------
   //                     CHECK ANSWER
   // -------------------------------------------------------
   function check() {
-    emitLiveEvent({ type: "action", action: "check", ts: Date.now() });
-    statsRef.current.attempts += 1;
-    if (revealed) {
-      setFeedbackTone("info");
-      setFeedback("Facit er vist. Lav en ny opgave for at fortsætte.");
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak,
-        ts: Date.now(),
-      });
-      return;
-    }
-
-    const studentRaw = parseDa(answer);
-    if (!Number.isFinite(studentRaw)) {
-      setFeedbackTone("warn");
-      setFeedback("Skriv et tal (brug komma ved kommatal).");
-      return;
+    const result = checkAnswer();
+    if (columnLayout && result) {
+      setColumnMarks({ marks: markColumns(columnLayout, columns), task });
     }
-
-    const student =
-      task.operation === "division"
-        ? truncTo(studentRaw, precision)
-        : roundTo(studentRaw, precision);
-
-    let ok = student === expected;
-    if (task.operation === "division") {
-      const expectedTrunc = truncTo(expectedRaw, precision);
-      const expectedRound = roundTo(expectedRaw, precision);
-      const studentTrunc = truncTo(studentRaw, precision);
-      const studentRound = roundTo(studentRaw, precision);
-      ok =
-        studentTrunc === expectedTrunc ||
-        studentRound === expectedRound ||
-        studentTrunc === expectedRound ||
-        studentRound === expectedTrunc;
-    }
-
-    if (ok) {
-      setFeedbackTone("ok");
-      setFeedback("Rigtigt! Godt klaret.");
-
-      const newStreak = streak + 1;
-      setStreak(newStreak);
-
-      statsRef.current.correct += 1;
-      emitLiveEvent({
-        type: "result",
-        attempts: statsRef.current.attempts,
-        correct: statsRef.current.correct,
-        streak: newStreak,
-        ts: Date.now(),
+    if (divisionLayout && result) {
+      setDivisionMarks({
+        marks: markLongDivision(divisionLayout, divisionSteps),
+        task,
       });
-
-      if (newStreak > bestStreak) {
-        setBestStreak(newStreak);
-      }
-
-      setRevealed(true);
+    }
+    if (result?.type === "correct") {
       showNudge("Klar! Ny opgave om et øjeblik.", "ok", AUTO_NEXT_MS);
-
-      if (onRequestNewTask) {
-        setTimeout(() => {
-          onRequestNewTask();
-        }, AUTO_NEXT_MS);
-      }
-
-      return;
+    } else if (result?.type === "wrong") {
+      showNudge("Tæt på - Prøv igen!", "warn", 1200);
     }
-
-    setFeedbackTone("warn");
-    setFeedback("Ikke helt. Prøv igen.");
-    showNudge("Tæt på - Prøv igen!", "warn", 1200);
-    setStreak(0);
-    emitLiveEvent({
-      type: "result",
-      attempts: statsRef.current.attempts,
-      correct: statsRef.current.correct,
-      streak: 0,
-      ts: Date.now(),
-    });
   }
 
   // -------------------------------------------------------
   //                     REVEAL ANSWER
   // -------------------------------------------------------
   function reveal() {
-    emitLiveEvent({ type: "action", action: "reveal", ts: Date.now() });
-    setRevealed(true);
-    setFeedbackTone("info");
-    setFeedback(
-      `Facit: ${fmtDa(expected, precision)}. Start en ny opgave for at fortsætte.`
-    );
+    revealAnswer();
     showNudge("Facit vist - klar til ny opgave.", "info", 1400);
-    setStreak(0);
   }
 
   // -------------------------------------------------------
@@ -323,6 +176,9 @@ export default function TaskRenderer({
                   {precision} decimaler
                 </span>
               )}
+              {withRemainder && (
+                <span className="text-sm text-slate-600">Svar med rest</span>
+              )}
             </div>
           </div>
 
@@ -347,7 +203,25 @@ export default function TaskRenderer({
 
         <div className="rounded-2xl border border-black/10 bg-white/90 p-6 shadow-sm">
           <div className="mt-4">
-            {(task.layout ?? "horizontal") === "vertical" ? (
+            {columnLayout ? (
+              <ColumnArithmetic
+                layout={columnLayout}
+                answer={columns}
+                onChange={(next) => setAnswer({ ...answer, columns: next })}
+                marks={columnMarks?.task === task ? columnMarks.marks : null}
+                disabled={revealed}
+                onEnter={check}
+              />
+            ) : divisionLayout ? (
+              <LongDivision
+                layout={divisionLayout}
+                answer={divisionSteps}
+                onChange={(next) => setAnswer({ ...answer, division: next })}
+                marks={divisionMarks?.task === task ? divisionMarks.marks : null}
+                disabled={revealed}
+                onEnter={check}
+              />
+            ) : (task.layout ?? "horizontal") === "vertical" ? (
               <VerticalLayout
                 operands={task.problem.operands}
                 operator={task.problem.operator}
@@ -360,28 +234,35 @@ export default function TaskRenderer({
           </div>
         </div>
 
-        <div className="flex flex-col gap-3">
-          <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
-            Svar
-          </label>
-          <input
-            type="text"
-            inputMode="decimal"
-            className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-lg shadow-sm outline-none transition focus:ring-2 focus:ring-[var(--brand-2)] disabled:opacity-60"
-            placeholder="Skriv fx 53"
-            value={answer}
-            disabled={revealed}
-            maxLength={MAX_ANSWER_LEN}
-            onChange={(e) => setAnswer(e.target.value.slice(0, MAX_ANSWER_LEN))}
-            onKeyDown={(e) => {
-              if (e.key === "Enter") check();
-              if (e.key.toLowerCase() === "n" && onRequestNewTask) {
-                e.preventDefault();
-                onRequestNewTask();
+        {!columnLayout && !divisionLayout && (
+          <div className="flex flex-col gap-3">
+            <label className="text-xs uppercase tracking-[0.2em] text-slate-500">
+              Svar
+            </label>
+            <input
+              type="text"
+              inputMode={withRemainder ? "text" : "decimal"}
+              className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-lg shadow-sm outline-none transition focus:ring-2 focus:ring-[var(--brand-2)] disabled:opacity-60"
+              placeholder={withRemainder ? "Skriv fx 17 rest 3" : "Skriv fx 53"}
+              value={answer.value}
+              disabled={revealed}
+              maxLength={MAX_ANSWER_LEN}
+              onChange={(e) =>
+                setAnswer({
+                  ...answer,
+                  value: e.target.value.slice(0, MAX_ANSWER_LEN),
+                })
               }
-            }}
-          />
-        </div>
+              onKeyDown={(e) => {
+                if (e.key === "Enter") check();
+                if (e.key.toLowerCase() === "n" && onRequestNewTask) {
+                  e.preventDefault();
+                  onRequestNewTask();
+                }
+              }}
+            />
+          </div>
+        )}
 
         <div className="flex flex-col gap-3 sm:flex-row">
           <button
@@ -418,9 +299,9 @@ export default function TaskRenderer({
 
         <div className="flex flex-wrap items-center justify-between gap-3">
           <p className={`text-sm ${feedbackStyles[feedbackTone]}`}>
-            {feedback || "Tip: Tryk Enter for at tjekke, og N for ny opgave."}
+            {feedback.message || "Tip: Tryk Enter for at tjekke, og N for ny opgave."}
           </p>
-          {nudge ? (
+          {nudge && nudge.task === task ? (
             <span className={`text-xs font-semibold ${feedbackStyles[nudge.tone]}`}>
               {nudge.message}
             </span>
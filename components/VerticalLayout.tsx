@@ -1,6 +1,8 @@
 
 "use client";
 
+import { Fragment } from "react";
+
 type Props = {
   operands: number[];
   operator: string;
@@ -31,10 +33,12 @@ export default function VerticalLayout({ operands, operator }: Props) {
   return (
     <div className="font-mono text-3xl leading-tight">
       <div className="whitespace-pre text-right">
-        {rows[0]}
-        <br />
-        {operator} {rows[1]}
-        <br />
+        {rows.map((row, i) => (
+          <Fragment key={i}>
+            {i > 0 ? `${operator} ${row}` : row}
+            <br />
+          </Fragment>
+        ))}
         {"".padStart(maxInt + (maxDec > 0 ? maxDec + 1 : 0), "—")}
       </div>
     </div>
@@ -17,6 +17,11 @@ type WhiteboardProps = {
   enablePinchZoom?: boolean;
   showZoomButtons?: boolean;
   blockPageScroll?: boolean;
+  // Tegnes under stregerne, hver gang fladen ryddes (fx et koordinatsystem).
+  background?: (
+    ctx: CanvasRenderingContext2D,
+    center: { x: number; y: number }
+  ) => void;
 };
 
 const MAX_ZOOM = 2;
@@ -32,6 +37,7 @@ export default function Whiteboard({
   enablePinchZoom = false,
   showZoomButtons = true,
   blockPageScroll = false,
+  background,
 }: WhiteboardProps) {
   const [tool, setTool] = useState<"pen" | "eraser" | "line">("pen");
   const [canvasSize, setCanvasSize] = useState({ width: 0, height });
@@ -337,6 +343,7 @@ export default function Whiteboard({
     ctx.fillStyle = "#ffffff";
     ctx.fillRect(0, 0, world.width, world.height);
     ctx.restore();
+    background?.(ctx, { x: WORLD_SIZE / 2, y: WORLD_SIZE / 2 });
   }
 
   function pushUndoSnapshot() {
@@ -29,6 +29,10 @@ export function useLiveSession(config: LiveSessionConfig) {
   const [alias, setAlias] = useState("");
   const [sessionId, setSessionId] = useState("");
   const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [sessionSeed, setSessionSeed] = useState("");
+  const [urlSeed, setUrlSeed] = useState("");
+  const [wordTemplates, setWordTemplates] = useState("");
+  const [trackSettings, setTrackSettings] = useState("");
   const [isJoined, setIsJoined] = useState(false);
   const [joining, setJoining] = useState(false);
   const [joinError, setJoinError] = useState("");
@@ -67,6 +71,10 @@ export function useLiveSession(config: LiveSessionConfig) {
     if (code) {
       setSessionCode(code.toUpperCase());
     }
+    const seedParam = params.get("seed");
+    if (seedParam) {
+      setUrlSeed(seedParam.trim());
+    }
   }, []);
 
   useEffect(() => {
@@ -88,6 +96,33 @@ export function useLiveSession(config: LiveSessionConfig) {
       }
       setSessionId(session.id);
       setSessionExpiresAt(expiresAt);
+      // Seed, skabeloner og sporindstillinger er valgfrie kolonner (se sql/).
+      // Mangler en af dem, fejler kun dette opslag, og eleven bliver i
+      // sessionen uden.
+      let extras = await supabase
+        .from("sessions")
+        .select("seed,word_templates,track_settings")
+        .eq("id", session.id)
+        .maybeSingle();
+      if (extras.error) {
+        extras = await supabase
+          .from("sessions")
+          .select("seed,word_templates")
+          .eq("id", session.id)
+          .maybeSingle();
+      }
+      if (extras.error) {
+        extras = await supabase
+          .from("sessions")
+          .select("seed")
+          .eq("id", session.id)
+          .maybeSingle();
+      }
+      // Saettes i samme render, saa foerste opgave med seed ogsaa har
+      // skabelonerne og laererens sporindstillinger.
+      setSessionSeed(extras.data?.seed ?? "");
+      setWordTemplates(extras.data?.word_templates ?? "");
+      setTrackSettings(extras.data?.track_settings ?? "");
     };
     loadSession();
   }, [sessionCode, isJoined]);
@@ -302,6 +337,9 @@ export function useLiveSession(config: LiveSessionConfig) {
     setAlias("");
     setSessionId("");
     setSessionExpiresAt(null);
+    setSessionSeed("");
+    setWordTemplates("");
+    setTrackSettings("");
     setIsJoined(false);
     setHasGlobalIdentity(false);
     if (message) setJoinError(message);
@@ -324,6 +362,13 @@ export function useLiveSession(config: LiveSessionConfig) {
     hasGlobalIdentity,
     identityChecked,
     roomId,
+    // Laererens seed for sessionen vinder, saa hele klassen faar samme
+    // opgaver; ?seed= i URL'en bruges kun uden et.
+    seed: sessionSeed || urlSeed,
+    // JSON med laererens ekstra skabeloner til tekstopgaver.
+    wordTemplates,
+    // JSON med laererens indstillinger pr. spor, se sessionSettingsFor.
+    trackSettings,
     joinSession,
     leaveSession,
     resetSession,
@@ -0,0 +1,317 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { LiveEvent } from "@/utils/liveTypes";
+import { sendLiveEvent } from "@/utils/liveRealtime";
+import type { CheckResult, Feedback, TaskModule } from "@/utils/taskModule";
+import { withSeed } from "@/utils/taskHelpers";
+
+const AUTO_NEXT_MS = 1600;
+const IDLE_FEEDBACK: Feedback = { type: "idle", message: "" };
+
+function readNumber(key: string, fallback: number) {
+  if (typeof window === "undefined") return fallback;
+  const raw = localStorage.getItem(key);
+  const parsed = raw ? Number(raw) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function useTrackSettings<S extends object, T, A>(
+  module: TaskModule<S, T, A>,
+  seed?: string
+) {
+  const LS_SETTINGS = `${module.id}_settings_v1`;
+
+  // Med seed faar opgave nr. i altid seedet "<seed>:<spor>:<i>", saa en hel
+  // klasse faar samme raekke opgaver, og en enkelt opgave kan genskabes.
+  function generateAt(next: S, index: number, previous?: T) {
+    if (!seed) {
+      return { task: module.generate(next, previous), taskSeed: "", index };
+    }
+    const taskSeed = `${seed}:${module.id}:${index}`;
+    const task = withSeed(taskSeed, () => module.generate(next));
+    return { task, taskSeed, index };
+  }
+
+  function loadSettings(): S {
+    if (typeof window === "undefined") return module.defaultSettings;
+    const saved = localStorage.getItem(LS_SETTINGS);
+    if (!saved) return module.defaultSettings;
+    try {
+      const parsed: unknown = JSON.parse(saved);
+      if (module.normalizeSettings) return module.normalizeSettings(parsed);
+      return {
+        ...module.defaultSettings,
+        ...(parsed as Partial<S>),
+      };
+    } catch {
+      return module.defaultSettings;
+    }
+  }
+
+  const [settings, setSettings] = useState<S>(loadSettings);
+  const [current, setCurrent] = useState(() => generateAt(settings, 0));
+  const [seedFor, setSeedFor] = useState(seed);
+
+  // Seedet fra sessionen kommer ofte efter foerste render; saa starter
+  // raekken forfra med opgave nr. 0.
+  if (seedFor !== seed) {
+    setSeedFor(seed);
+    setCurrent(generateAt(settings, 0));
+  }
+
+  function updateSettings(patch: Partial<S>) {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    setCurrent((prev) => generateAt(next, prev.index + 1, prev.task));
+  }
+
+  function updateSetting<K extends keyof S>(key: K, value: S[K]) {
+    const patch: Partial<S> = {};
+    patch[key] = value;
+    updateSettings(patch);
+  }
+
+  function newTask() {
+    setCurrent((prev) => generateAt(settings, prev.index + 1, prev.task));
+  }
+
+  useEffect(() => {
+    localStorage.setItem(LS_SETTINGS, JSON.stringify(settings));
+  }, [settings, LS_SETTINGS]);
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+      if (e.key.toLowerCase() === "n" && !e.repeat) {
+        e.preventDefault();
+        newTask();
+      }
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [settings]);
+
+  return {
+    settings,
+    task: current.task,
+    taskSeed: current.taskSeed,
+    updateSetting,
+    updateSettings,
+    newTask,
+  };
+}
+
+type AttemptOptions = {
+  roomId?: string;
+  taskSeed?: string;
+  onNext?: () => void;
+};
+
+export function useTaskAttempt<S, T, A>(
+  module: TaskModule<S, T, A>,
+  task: T,
+  { roomId, taskSeed, onNext }: AttemptOptions
+) {
+  const LS_STREAK = `${module.id}_streak_v1`;
+  const LS_BEST_STREAK = `${module.id}_best_streak_v1`;
+  const [answer, setAnswer] = useState<A>(module.emptyAnswer);
+  const [feedback, setFeedback] = useState<Feedback>(IDLE_FEEDBACK);
+  const [revealed, setRevealed] = useState(false);
+  const [currentTask, setCurrentTask] = useState<T>(task);
+  const [streak, setStreak] = useState(() => readNumber(LS_STREAK, 0));
+  const [bestStreak, setBestStreak] = useState(() =>
+    readNumber(LS_BEST_STREAK, 0)
+  );
+  const statsRef = useRef({ attempts: 0, correct: 0 });
+  const autoNextRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const inputDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onNextRef = useRef(onNext);
+  const shownAtRef = useRef(0);
+
+  // Ny opgave: nulstil svar og feedback i samme render som opgaven skifter.
+  if (currentTask !== task) {
+    setCurrentTask(task);
+    setAnswer(module.emptyAnswer);
+    setFeedback(IDLE_FEEDBACK);
+    setRevealed(false);
+  }
+
+  const equationText = module.format(task);
+  const operationLabel = module.label(task);
+  const answerText = module.formatAnswer(answer, task);
+
+  function emitLiveEvent(event: LiveEvent) {
+    if (!roomId) return;
+    sendLiveEvent(roomId, event);
+  }
+
+  function emitResult(nextStreak: number) {
+    emitLiveEvent({
+      type: "result",
+      attempts: statsRef.current.attempts,
+      correct: statsRef.current.correct,
+      streak: nextStreak,
+      ts: Date.now(),
+    });
+  }
+
+  useEffect(() => {
+    onNextRef.current = onNext;
+  }, [onNext]);
+
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+    if (autoNextRef.current) {
+      clearTimeout(autoNextRef.current);
+      autoNextRef.current = null;
+    }
+  }, [task]);
+
+  function record(result: CheckResult) {
+    module.recordResult?.(task, result, Date.now() - shownAtRef.current);
+  }
+
+  useEffect(() => {
+    return () => {
+      if (autoNextRef.current) clearTimeout(autoNextRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(LS_STREAK, String(streak));
+  }, [streak, LS_STREAK]);
+
+  useEffect(() => {
+    localStorage.setItem(LS_BEST_STREAK, String(bestStreak));
+  }, [bestStreak, LS_BEST_STREAK]);
+
+  useEffect(() => {
+    if (!roomId) return;
+    if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
+    inputDebounceRef.current = setTimeout(() => {
+      sendLiveEvent(roomId, { type: "input", value: answerText, ts: Date.now() });
+    }, 140);
+    return () => {
+      if (inputDebounceRef.current) clearTimeout(inputDebounceRef.current);
+    };
+  }, [answerText, roomId]);
+
+  useEffect(() => {
+    if (!roomId) return;
+    sendLiveEvent(roomId, {
+      type: "task",
+      equation: equationText,
+      operation: operationLabel,
+      track: module.id,
+      serialized: module.serialize(task),
+      seed: taskSeed || undefined,
+      ts: Date.now(),
+    });
+  }, [roomId, equationText, operationLabel, taskSeed]);
+
+  function checkAnswer(): CheckResult | null {
+    emitLiveEvent({ type: "action", action: "check", ts: Date.now() });
+    statsRef.current.attempts += 1;
+    if (revealed) {
+      setFeedback({
+        type: "info",
+        message: "Facit er vist. Lav en ny opgave for at fortsætte.",
+      });
+      emitResult(streak);
+      return null;
+    }
+
+    const result = module.check(task, answer);
+    if (result.type !== "error") record(result);
+    if (result.type === "error") {
+      setFeedback({
+        type: "error",
+        message: result.message ?? "Skriv et gyldigt svar.",
+      });
+      return result;
+    }
+
+    if (result.type === "correct") {
+      setFeedback({
+        type: "correct",
+        message: result.message ?? "Korrekt! Flot arbejde.",
+      });
+      const nextStreak = streak + 1;
+      setStreak(nextStreak);
+      statsRef.current.correct += 1;
+      emitResult(nextStreak);
+      if (nextStreak > bestStreak) {
+        setBestStreak(nextStreak);
+      }
+      setRevealed(true);
+      if (autoNextRef.current) {
+        clearTimeout(autoNextRef.current);
+      }
+      autoNextRef.current = setTimeout(() => {
+        onNextRef.current?.();
+      }, AUTO_NEXT_MS);
+      return result;
+    }
+
+    setFeedback({
+      type: "wrong",
+      message: result.message ?? "Ikke helt. Prøv igen.",
+    });
+    setStreak(0);
+    emitResult(0);
+    return result;
+  }
+
+  function revealAnswer() {
+    emitLiveEvent({ type: "action", action: "reveal", ts: Date.now() });
+    if (!revealed) record({ type: "wrong" });
+    setRevealed(true);
+    setFeedback({ type: "info", message: module.solution(task) });
+    setStreak(0);
+    emitResult(0);
+  }
+
+  const level = Math.floor(streak / 5) + 1;
+  const progressInLevel = streak % 5;
+  const progress = progressInLevel / 5;
+  const toNext = progressInLevel === 0 ? 5 : 5 - progressInLevel;
+
+  return {
+    answer,
+    setAnswer,
+    feedback,
+    revealed,
+    streak,
+    bestStreak,
+    level,
+    progress,
+    toNext,
+    equationText,
+    operationLabel,
+    checkAnswer,
+    revealAnswer,
+  };
+}
+
+export function useTaskModule<S extends object, T, A>(
+  module: TaskModule<S, T, A>,
+  roomId?: string,
+  seed?: string
+) {
+  const track = useTrackSettings(module, seed);
+  const attempt = useTaskAttempt(module, track.task, {
+    roomId,
+    taskSeed: track.taskSeed,
+    onNext: track.newTask,
+  });
+  return { ...track, ...attempt };
+}
@@ -0,0 +1,7 @@
+-- Optional seed per session, so every student gets the same task sequence.
+-- Run this in Supabase SQL Editor once.
+-- Without it the app still works: sessions are created without a seed and
+-- students join as usual, but the teacher's "Fælles seed" field fails.
+
+alter table public.sessions
+  add column if not exists seed text;
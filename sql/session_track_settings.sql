@@ -0,0 +1,7 @@
+-- Optional per-track settings per session (JSON text keyed by track id), e.g.
+-- {"tabeller":{"tables":[3,7]}}, so the teacher's choices reach every student.
+-- Run this in Supabase SQL Editor once.
+-- Without it the app still works, but creating a session with track settings fails.
+
+alter table public.sessions
+  add column if not exists track_settings text;
@@ -0,0 +1,7 @@
+-- Optional word-problem templates per session (JSON text), so the teacher's
+-- extra templates for Tekstopgaver reach every student in the session.
+-- Run this in Supabase SQL Editor once.
+-- Without it the app still works, but creating a session with templates fails.
+
+alter table public.sessions
+  add column if not exists word_templates text;
@@ -0,0 +1,302 @@
+import type { CheckResult } from "@/utils/taskModule";
+
+// Skriftlig opstilling med mente/laan. Alle kolonner taelles fra hoejre,
+// saa index 0 altid er enerne (eller sidste decimal).
+
+export type ColumnOperation = "addition" | "subtraction" | "multiplication";
+
+export type ColumnRow = {
+  digits: string;
+  decimals: number;
+  // Forskydning mod venstre (delprodukter ved gange med flercifret tal).
+  shift: number;
+};
+
+export type ColumnLayout = {
+  operation: ColumnOperation;
+  operator: string;
+  width: number;
+  operands: ColumnRow[];
+  partials: ColumnRow[];
+  result: ColumnRow;
+  // carries[i] er menten/laanet over kolonne i; null = ingen celle.
+  carries: (number | null)[];
+  carryLabel: string;
+};
+
+export type ColumnAnswer = {
+  result: string[];
+  carries: string[];
+  partials: string[][];
+};
+
+export type CellStatus = "ok" | "wrong" | "empty";
+
+export type ColumnMarks = {
+  result: CellStatus[];
+  carries: (CellStatus | null)[];
+  partials: CellStatus[][];
+};
+
+export const emptyColumnAnswer: ColumnAnswer = {
+  result: [],
+  carries: [],
+  partials: [],
+};
+
+const PLACE_NAMES = [
+  "enere",
+  "tiere",
+  "hundreder",
+  "tusinder",
+  "titusinder",
+  "hundredtusinder",
+];
+const DECIMAL_PLACE_NAMES = ["tiendedele", "hundrededele", "tusindedele"];
+
+function decimalsCount(n: number) {
+  const s = String(n);
+  const i = s.indexOf(".");
+  return i === -1 ? 0 : s.length - i - 1;
+}
+
+function toScaled(n: number, decimals: number) {
+  return Math.round(Math.abs(n) * 10 ** decimals);
+}
+
+function digitAt(digits: string, column: number) {
+  if (column < 0 || column >= digits.length) return null;
+  return Number(digits[digits.length - 1 - column]);
+}
+
+export function rowDigitAt(row: ColumnRow, column: number) {
+  return digitAt(row.digits, column - row.shift);
+}
+
+function padResult(value: number, decimals: number) {
+  return String(value).padStart(decimals + 1, "0");
+}
+
+// Mente ved at laegge raekkerne sammen kolonne for kolonne.
+function additionCarries(rows: ColumnRow[], width: number) {
+  const carries: (number | null)[] = [null];
+  let carry = 0;
+  for (let column = 0; column < width - 1; column += 1) {
+    let sum = carry;
+    for (const row of rows) sum += rowDigitAt(row, column) ?? 0;
+    carry = Math.floor(sum / 10);
+    const hasDigits = rows.some((row) => rowDigitAt(row, column + 1) !== null);
+    carries.push(hasDigits ? carry : null);
+  }
+  return carries;
+}
+
+function subtractionBorrows(top: ColumnRow, bottom: ColumnRow, width: number) {
+  const borrows: (number | null)[] = [null];
+  let borrow = 0;
+  for (let column = 0; column < width - 1; column += 1) {
+    const a = (rowDigitAt(top, column) ?? 0) - borrow;
+    const b = rowDigitAt(bottom, column) ?? 0;
+    borrow = a < b ? 1 : 0;
+    const hasDigits = rowDigitAt(top, column + 1) !== null;
+    borrows.push(hasDigits ? borrow : null);
+  }
+  return borrows;
+}
+
+function multiplicationCarries(top: ColumnRow, factor: number, width: number) {
+  const carries: (number | null)[] = [null];
+  let carry = 0;
+  for (let column = 0; column < width - 1; column += 1) {
+    const product = (rowDigitAt(top, column) ?? 0) * factor + carry;
+    carry = Math.floor(product / 10);
+    const hasDigits = rowDigitAt(top, column + 1) !== null;
+    carries.push(hasDigits ? carry : null);
+  }
+  return carries;
+}
+
+export function buildColumnLayout(
+  operation: ColumnOperation,
+  operands: number[],
+  operator: string
+): ColumnLayout {
+  const [a, b] = operands;
+  const decA = decimalsCount(a);
+  const decB = decimalsCount(b);
+
+  if (operation === "multiplication") {
+    const top: ColumnRow = {
+      digits: String(toScaled(a, decA)),
+      decimals: decA,
+      shift: 0,
+    };
+    const bottom: ColumnRow = {
+      digits: String(toScaled(b, decB)),
+      decimals: decB,
+      shift: 0,
+    };
+    const decimals = decA + decB;
+    const product = Number(top.digits) * Number(bottom.digits);
+    const result: ColumnRow = {
+      digits: padResult(product, decimals),
+      decimals,
+      shift: 0,
+    };
+    const partials =
+      bottom.digits.length > 1
+        ? bottom.digits
+            .split("")
+            .reverse()
+            .map((digit, index) => ({
+              digits: String(Number(top.digits) * Number(digit)),
+              decimals: 0,
+              shift: index,
+            }))
+        : [];
+    const width = Math.max(
+      top.digits.length,
+      bottom.digits.length,
+      result.digits.length,
+      ...partials.map((row) => row.digits.length + row.shift)
+    );
+    const carries =
+      partials.length > 0
+        ? additionCarries(partials, width)
+        : multiplicationCarries(top, Number(bottom.digits), width);
+    return {
+      operation,
+      operator,
+      width,
+      operands: [top, bottom],
+      partials,
+      result,
+      carries,
+      carryLabel: "mente",
+    };
+  }
+
+  // Plus kan have flere raekker; minus har altid to.
+  const decimals = Math.max(...operands.map(decimalsCount));
+  const rows: ColumnRow[] = operands.map((n) => ({
+    digits: padResult(toScaled(n, decimals), decimals),
+    decimals,
+    shift: 0,
+  }));
+  const scaled = rows.map((row) => Number(row.digits));
+  const value =
+    operation === "addition"
+      ? scaled.reduce((sum, n) => sum + n, 0)
+      : scaled[0] - scaled[1];
+  const result: ColumnRow = {
+    digits: padResult(value, decimals),
+    decimals,
+    shift: 0,
+  };
+  const width = Math.max(
+    ...rows.map((row) => row.digits.length),
+    result.digits.length
+  );
+  return {
+    operation,
+    operator,
+    width,
+    operands: rows,
+    partials: [],
+    result,
+    carries:
+      operation === "addition"
+        ? additionCarries(rows, width)
+        : subtractionBorrows(rows[0], rows[1], width),
+    carryLabel: operation === "addition" ? "mente" : "lån",
+  };
+}
+
+function cellStatus(value: string | undefined, expected: number | null) {
+  if (expected === null) return "ok";
+  if (!value) return "empty";
+  return Number(value) === expected ? "ok" : "wrong";
+}
+
+export function markColumns(
+  layout: ColumnLayout,
+  answer: ColumnAnswer
+): ColumnMarks {
+  const result = Array.from({ length: layout.result.digits.length }, (_, i) =>
+    cellStatus(answer.result[i], rowDigitAt(layout.result, i))
+  );
+  // Tom mente/laan taeller som 0.
+  const carries = layout.carries.map((expected, i) => {
+    if (expected === null) return null;
+    const value = answer.carries[i] || "0";
+    return Number(value) === expected ? "ok" : "wrong";
+  });
+  const partials = layout.partials.map((row, rowIndex) =>
+    Array.from({ length: row.digits.length }, (_, i) =>
+      cellStatus(
+        answer.partials[rowIndex]?.[i + row.shift],
+        rowDigitAt(row, i + row.shift)
+      )
+    )
+  );
+  return { result, carries, partials };
+}
+
+export function columnName(layout: ColumnLayout, column: number) {
+  const place = column - layout.result.decimals;
+  if (place >= 0) return PLACE_NAMES[place] ?? `kolonne ${column + 1}`;
+  return DECIMAL_PLACE_NAMES[-place - 1] ?? `kolonne ${column + 1}`;
+}
+
+export function checkColumns(
+  layout: ColumnLayout,
+  answer: ColumnAnswer
+): CheckResult {
+  const marks = markColumns(layout, answer);
+  if (marks.result.some((status) => status === "empty")) {
+    return { type: "error", message: "Udfyld alle cifre i resultatet." };
+  }
+
+  const wrongPartialRow = marks.partials.findIndex((row) =>
+    row.some((status) => status !== "ok")
+  );
+  if (wrongPartialRow >= 0) {
+    return {
+      type: "wrong",
+      message: `Tjek delprodukt nr. ${wrongPartialRow + 1}.`,
+    };
+  }
+
+  const wrongResult = marks.result.findIndex((status) => status !== "ok");
+  if (wrongResult >= 0) {
+    return {
+      type: "wrong",
+      message: `Tjek ${columnName(layout, wrongResult)}-kolonnen.`,
+    };
+  }
+
+  const wrongCarry = marks.carries.findIndex((status) => status === "wrong");
+  if (wrongCarry >= 0) {
+    return {
+      type: "wrong",
+      message: `Resultatet passer, men tjek ${layout.carryLabel} over ${columnName(
+        layout,
+        wrongCarry
+      )}-kolonnen.`,
+    };
+  }
+
+  return { type: "correct", message: "Rigtigt! Godt klaret." };
+}
+
+// Resultatcifrene som almindeligt tal med komma, fx til laererens visning.
+export function columnResultText(layout: ColumnLayout, answer: ColumnAnswer) {
+  const length = layout.result.digits.length;
+  const digits = Array.from(
+    { length },
+    (_, i) => answer.result[length - 1 - i] || "_"
+  ).join("");
+  const decimals = layout.result.decimals;
+  if (decimals === 0) return digits;
+  return `${digits.slice(0, length - decimals)},${digits.slice(length - decimals)}`;
+}
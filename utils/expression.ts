@@ -0,0 +1,405 @@
+// Udtrykstrae til regnehierarkiet. Parenteser er deres egen node, saa et
+// udtryk kan skrives ud igen praecis som eleven ser det.
+export type Expr =
+  | { kind: "num"; value: number }
+  | { kind: "parens"; inner: Expr }
+  | { kind: "neg"; inner: Expr }
+  | { kind: "binary"; op: BinaryOp; left: Expr; right: Expr }
+  | { kind: "power"; base: Expr; exponent: number }
+  | { kind: "sqrt"; inner: Expr };
+
+export type BinaryOp = "+" | "-" | "·" | "÷";
+
+// Regnearterne i regnehierarkiet; kvadratrod hoerer under "power".
+export type OrderCategory = "parens" | "power" | "multiply" | "addsub";
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "⁰": "0",
+  "¹": "1",
+  "²": "2",
+  "³": "3",
+  "⁴": "4",
+  "⁵": "5",
+  "⁶": "6",
+  "⁷": "7",
+  "⁸": "8",
+  "⁹": "9",
+  "⁻": "-",
+};
+
+const DIGIT_SUPERSCRIPTS: Record<string, string> = Object.fromEntries(
+  Object.entries(SUPERSCRIPTS).map(([sup, digit]) => [digit, sup])
+);
+
+export function toSuperscript(exponent: number) {
+  return String(exponent)
+    .split("")
+    .map((digit) => DIGIT_SUPERSCRIPTS[digit])
+    .join("");
+}
+
+// Haevede tegn forrest i text, fx "⁻²" -> -2. value er null ved en ugyldig
+// eksponent som "²⁻"; length er 0, naar text ikke starter med et haevet tegn.
+export function readSuperscript(text: string) {
+  let digits = "";
+  while (digits.length < text.length && text[digits.length] in SUPERSCRIPTS) {
+    digits += SUPERSCRIPTS[text[digits.length]];
+  }
+  return {
+    length: digits.length,
+    value: /^-?\d+$/.test(digits) ? Number(digits) : null,
+  };
+}
+
+type Token =
+  | { kind: "num"; value: number }
+  | { kind: "op"; value: BinaryOp }
+  | { kind: "open" }
+  | { kind: "close" }
+  | { kind: "sqrt" }
+  | { kind: "exp"; value: number };
+
+export const num = (value: number): Expr => ({ kind: "num", value });
+export const parens = (inner: Expr): Expr => ({ kind: "parens", inner });
+export const sqrt = (inner: Expr): Expr => ({ kind: "sqrt", inner });
+export const power = (base: Expr, exponent: number): Expr => ({
+  kind: "power",
+  base,
+  exponent,
+});
+export const binary = (op: BinaryOp, left: Expr, right: Expr): Expr => ({
+  kind: "binary",
+  op,
+  left,
+  right,
+});
+
+function tokenize(input: string): Token[] | null {
+  const s = input
+    .replace(/[−–]/g, "-")
+    .replace(/[*×xX]/g, "·")
+    .replace(/[:/]/g, "÷");
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < s.length) {
+    const ch = s[i];
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+    const number = s.slice(i).match(/^\d+(?:[.,]\d+)?/);
+    if (number) {
+      tokens.push({ kind: "num", value: Number(number[0].replace(",", ".")) });
+      i += number[0].length;
+      continue;
+    }
+    const superscript = readSuperscript(s.slice(i));
+    if (superscript.length > 0) {
+      if (superscript.value === null) return null;
+      tokens.push({ kind: "exp", value: superscript.value });
+      i += superscript.length;
+      continue;
+    }
+    if (ch === "^") {
+      const exponent = s.slice(i + 1).match(/^\s*(\d+)/);
+      if (!exponent) return null;
+      tokens.push({ kind: "exp", value: Number(exponent[1]) });
+      i += 1 + exponent[0].length;
+      continue;
+    }
+    if (ch === "+" || ch === "-" || ch === "·" || ch === "÷") {
+      tokens.push({ kind: "op", value: ch });
+    } else if (ch === "(") tokens.push({ kind: "open" });
+    else if (ch === ")") tokens.push({ kind: "close" });
+    else if (ch === "√") tokens.push({ kind: "sqrt" });
+    else return null;
+    i += 1;
+  }
+  return tokens;
+}
+
+// Returnerer null, hvis teksten ikke er et gyldigt regneudtryk.
+export function parseExpression(input: string): Expr | null {
+  const tokens = tokenize(input) ?? [];
+  if (tokens.length === 0) return null;
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  function isOp(token: Token | undefined, ...ops: BinaryOp[]) {
+    return token?.kind === "op" && ops.includes(token.value);
+  }
+
+  function expression(): Expr | null {
+    let left = term();
+    while (left && isOp(peek(), "+", "-")) {
+      const op = (tokens[pos] as { value: BinaryOp }).value;
+      pos += 1;
+      const right = term();
+      if (!right) return null;
+      left = binary(op, left, right);
+    }
+    return left;
+  }
+
+  function term(): Expr | null {
+    let left = unary();
+    while (left && isOp(peek(), "·", "÷")) {
+      const op = (tokens[pos] as { value: BinaryOp }).value;
+      pos += 1;
+      const right = unary();
+      if (!right) return null;
+      left = binary(op, left, right);
+    }
+    return left;
+  }
+
+  function unary(): Expr | null {
+    if (isOp(peek(), "-")) {
+      pos += 1;
+      const inner = unary();
+      return inner && { kind: "neg", inner };
+    }
+    return exponentiation();
+  }
+
+  function exponentiation(): Expr | null {
+    const base = primary();
+    const token = peek();
+    if (!base || token?.kind !== "exp") return base;
+    pos += 1;
+    return power(base, token.value);
+  }
+
+  function primary(): Expr | null {
+    const token = peek();
+    pos += 1;
+    if (token?.kind === "num") return num(token.value);
+    if (token?.kind === "sqrt") {
+      const inner = primary();
+      return inner && sqrt(inner);
+    }
+    if (token?.kind === "open") {
+      const inner = expression();
+      if (!inner || peek()?.kind !== "close") return null;
+      pos += 1;
+      return parens(inner);
+    }
+    return null;
+  }
+
+  const expr = expression();
+  return expr && pos === tokens.length ? expr : null;
+}
+
+export function evaluate(expr: Expr): number {
+  switch (expr.kind) {
+    case "num":
+      return expr.value;
+    case "parens":
+      return evaluate(expr.inner);
+    case "neg":
+      return -evaluate(expr.inner);
+    case "power":
+      return evaluate(expr.base) ** expr.exponent;
+    case "sqrt":
+      return Math.sqrt(evaluate(expr.inner));
+    case "binary": {
+      const left = evaluate(expr.left);
+      const right = evaluate(expr.right);
+      if (expr.op === "+") return left + right;
+      if (expr.op === "-") return left - right;
+      if (expr.op === "·") return left * right;
+      return left / right;
+    }
+  }
+}
+
+export function formatExpression(expr: Expr): string {
+  switch (expr.kind) {
+    case "num":
+      return String(expr.value).replace(".", ",");
+    case "parens":
+      return `(${formatExpression(expr.inner)})`;
+    case "neg":
+      return `-${formatExpression(expr.inner)}`;
+    case "power":
+      return `${formatExpression(expr.base)}${toSuperscript(expr.exponent)}`;
+    case "sqrt":
+      return `√${formatExpression(expr.inner)}`;
+    case "binary":
+      return `${formatExpression(expr.left)} ${expr.op} ${formatExpression(
+        expr.right
+      )}`;
+  }
+}
+
+function collectCategories(expr: Expr, found: Set<OrderCategory>) {
+  switch (expr.kind) {
+    case "num":
+      return;
+    case "parens":
+      found.add("parens");
+      collectCategories(expr.inner, found);
+      return;
+    case "neg":
+      collectCategories(expr.inner, found);
+      return;
+    case "power":
+      found.add("power");
+      collectCategories(expr.base, found);
+      return;
+    case "sqrt":
+      found.add("power");
+      collectCategories(expr.inner, found);
+      return;
+    case "binary":
+      found.add(expr.op === "+" || expr.op === "-" ? "addsub" : "multiply");
+      collectCategories(expr.left, found);
+      collectCategories(expr.right, found);
+  }
+}
+
+// De regnearter, udtrykket bruger; kvadratrod taeller som potens.
+export function usedCategories(expr: Expr) {
+  const found = new Set<OrderCategory>();
+  collectCategories(expr, found);
+  return found;
+}
+
+// Sti fra roden ned til en knude, fx ["left", "right"].
+export type ExprPath = ("left" | "right" | "inner" | "base")[];
+
+export function getAt(expr: Expr, path: ExprPath): Expr | null {
+  let node: Expr = expr;
+  for (const key of path) {
+    const next = (node as Record<string, unknown>)[key];
+    if (!next || typeof next !== "object") return null;
+    node = next as Expr;
+  }
+  return node;
+}
+
+// Et faerdigt tal; negative tal beholder deres parentes, fx (-2)².
+export function isValue(expr: Expr): boolean {
+  if (expr.kind === "num") return true;
+  if (expr.kind === "neg") return expr.inner.kind === "num";
+  return expr.kind === "parens" && isValue(expr.inner);
+}
+
+// Knuder, hvor alle led allerede er tal, kan regnes ud som naeste trin.
+export function isReducible(expr: Expr) {
+  if (expr.kind === "binary") return isValue(expr.left) && isValue(expr.right);
+  if (expr.kind === "power") return isValue(expr.base);
+  if (expr.kind === "sqrt") return isValue(expr.inner);
+  return false;
+}
+
+function withValue(value: number): Expr {
+  return value < 0 ? parens(num(value)) : num(value);
+}
+
+function replace(expr: Expr, path: ExprPath, value: number): Expr {
+  if (path.length === 0) return withValue(value);
+  const [key, ...rest] = path;
+  const child = getAt(expr, [key]);
+  if (!child) return expr;
+  const node = { ...expr, [key]: replace(child, rest, value) } as Expr;
+  // En parentes om et positivt tal er overfloedig og fjernes.
+  const inner = node.kind === "parens" ? node.inner : null;
+  if (inner?.kind === "num" && inner.value >= 0) return inner;
+  if (inner?.kind === "parens") return inner;
+  return node;
+}
+
+export function replaceAt(expr: Expr, path: ExprPath, value: number) {
+  const next = replace(expr, path, value);
+  // Et negativt slutresultat skal ikke staa i parentes.
+  return next.kind === "parens" && next.inner.kind === "num" ? next.inner : next;
+}
+
+function rank(expr: Expr) {
+  if (expr.kind === "parens") return 3;
+  if (expr.kind === "power" || expr.kind === "sqrt") return 2;
+  if (expr.kind === "binary") return expr.op === "+" || expr.op === "-" ? 0 : 1;
+  return -1;
+}
+
+// Forklaring paa, hvorfor en knude endnu ikke kan regnes ud.
+export function blockedReason(expr: Expr) {
+  const children =
+    expr.kind === "binary"
+      ? [expr.left, expr.right]
+      : expr.kind === "power"
+      ? [expr.base]
+      : expr.kind === "sqrt"
+      ? [expr.inner]
+      : [];
+  const pending = children.filter((child) => !isValue(child));
+  const strongest = pending.reduce<Expr | null>(
+    (best, child) => (best && rank(best) >= rank(child) ? best : child),
+    null
+  );
+  if (!strongest) return "Vælg en regneart mellem to tal.";
+  if (strongest.kind === "parens") {
+    return "Parentesen skal regnes ud først.";
+  }
+  if (strongest.kind === "power" || strongest.kind === "sqrt") {
+    return "Potenser og kvadratrødder regnes før gange, division, plus og minus.";
+  }
+  if (rank(strongest) > rank(expr)) {
+    return "Gange og division regnes før plus og minus.";
+  }
+  return "Regn fra venstre mod højre, når regnearterne er lige stærke.";
+}
+
+function precedence(expr: Expr) {
+  if (expr.kind !== "binary") return 3;
+  return expr.op === "+" || expr.op === "-" ? 1 : 2;
+}
+
+// Saetter to udtryk sammen og tilfoejer kun de parenteser, der er noedvendige.
+export function combine(op: BinaryOp, left: Expr, right: Expr) {
+  const rank = op === "+" || op === "-" ? 1 : 2;
+  const strict = op === "-" || op === "÷";
+  const wrapLeft = precedence(left) < rank;
+  const wrapRight =
+    precedence(right) < rank || (strict && precedence(right) === rank);
+  return binary(
+    op,
+    wrapLeft ? parens(left) : left,
+    wrapRight ? parens(right) : right
+  );
+}
+
+// Tallene i udtrykket fra venstre mod hoejre.
+export function numbersIn(expr: Expr): number[] {
+  switch (expr.kind) {
+    case "num":
+      return [expr.value];
+    case "parens":
+    case "neg":
+    case "sqrt":
+      return numbersIn(expr.inner);
+    case "power":
+      return numbersIn(expr.base);
+    case "binary":
+      return [...numbersIn(expr.left), ...numbersIn(expr.right)];
+  }
+}
+
+// Om udtrykket et sted bruger fortegnsminus, fx -(2 + 3).
+export function hasNegation(expr: Expr): boolean {
+  switch (expr.kind) {
+    case "num":
+      return false;
+    case "neg":
+      return true;
+    case "parens":
+    case "sqrt":
+      return hasNegation(expr.inner);
+    case "power":
+      return hasNegation(expr.base);
+    case "binary":
+      return hasNegation(expr.left) || hasNegation(expr.right);
+  }
+}
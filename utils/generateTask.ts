@@ -1,34 +1,95 @@
+import { randInt, random } from "@/utils/taskHelpers";
+
 export type Operation = "addition" | "subtraction" | "multiplication" | "division";
+export type OperationSel = Operation | "mix"; // "mix" vaelger en regneart pr. opgave
 export type DigitsSel = 1 | 2 | 3 | "mix";
 export type DecimalsSel = 0 | 1 | 2 | "mix";
 export type BorrowMode = "with" | "without" | "mixed"; // kun relevant for subtraction
-export type DivisionLevel = 1 | 2 | 3 | 4;
+// "rest" giver heltalsdivision med rest (fx 17 : 5 = 3 rest 2).
+export type DivisionLevel = 1 | 2 | 3 | 4 | "rest";
+
+// Eget talomraade for et led. values bruges til faste tal som 10/100/1000.
+export type OperandRange = {
+  min: number;
+  max: number;
+  decimals: number;
+  values?: number[];
+};
+
+export const MAX_RANGE_VALUE = 999999; // 6 cifre
+export const MAX_RANGE_DECIMALS = 3;
+// Antal faktorer ved gange, der bruger egne intervaller.
+export const RANGED_FACTORS = 2;
 
 type GenerateOptions = {
-  operation: Operation;
+  operation: OperationSel;
   digitsSel?: DigitsSel; // 1, 2, 3 eller "mix" (A/B kan have forskellige)
   decimalsSel?: DecimalsSel; // 0, 1, 2 eller "mix" (A/B kan have forskellige)
   borrowMode?: BorrowMode; // "with", "without", "mixed" (kun minus)
   divisionLevel?: DivisionLevel;
+  negatives?: boolean; // fortegn paa operanderne (ikke ved division med rest)
+  operandCount?: number; // 2-5 tal (division bruger altid 2)
+  ranges?: OperandRange[]; // erstatter digitsSel/decimalsSel/borrowMode (ikke division)
 };
 
-export function generateTask(opts: Operation | GenerateOptions = "addition") {
-  const { operation, digitsSel, decimalsSel, borrowMode, divisionLevel } =
-    normalizeOptions(opts);
+const OPERATIONS: Operation[] = [
+  "addition",
+  "subtraction",
+  "multiplication",
+  "division",
+];
+
+export function generateTask(opts: OperationSel | GenerateOptions = "addition") {
+  const {
+    operation: operationSel,
+    digitsSel,
+    decimalsSel,
+    borrowMode,
+    divisionLevel,
+    negatives,
+    operandCount,
+    ranges,
+  } = normalizeOptions(opts);
+  const operation =
+    operationSel === "mix"
+      ? OPERATIONS[randInt(0, OPERATIONS.length - 1)]
+      : operationSel;
 
   if (operation === "division") {
     const { dividend, divisor } = buildDivision(divisionLevel);
+    const operands = [dividend, divisor];
     return {
       operation,
       layout: "horizontal" as const,
       divisionLevel,
       problem: {
-        operands: [dividend, divisor],
+        operands:
+          negatives && divisionLevel !== "rest" ? withSigns(operands) : operands,
         operator: opSymbol(operation),
       },
     };
   }
 
+  if (ranges.length > 0) {
+    // Ved gange styrer intervallerne kun de to foerste faktorer; resten er
+    // 2-9 som i extraOperand, saa produktet ikke eksploderer.
+    const ranged =
+      operation === "multiplication" ? RANGED_FACTORS : operandCount;
+    let operands = Array.from({ length: operandCount }, (_, i) =>
+      i < ranged
+        ? randomInRange(ranges[Math.min(i, ranges.length - 1)])
+        : randInt(2, 9)
+    );
+    if (operation === "multiplication") operands = capProduct(operands);
+    if (operation === "subtraction" && !negatives) {
+      operands =
+        operands.length === 2 && operands[0] < operands[1]
+          ? [operands[1], operands[0]]
+          : coverSubtrahends(operands);
+    }
+    return buildProblem(operation, operands, negatives);
+  }
+
   // Vaelg cifre for A/B (1-3 eller "mix")
   let digitsA: 1 | 2 | 3, digitsB: 1 | 2 | 3;
   if (digitsSel === "mix") {
@@ -147,23 +208,75 @@ export function generateTask(opts: Operation | GenerateOptions = "addition") {
   const A = Aint / pow10(decA);
   const B = Bint / pow10(decB);
 
+  // Ekstra led (3-5 tal) bruger samme cifre/decimaler; ved gange er de
+  // etcifrede heltal, saa produktet ikke vokser ud af kontrol.
+  const extras = Array.from({ length: Math.max(0, operandCount - 2) }, () =>
+    extraOperand(operation, digitsSel, decimalsSel)
+  );
+  let operands = [A, B, ...extras];
+  if (operation === "subtraction" && extras.length > 0 && !negatives) {
+    operands = coverSubtrahends(operands);
+  }
+
+  return buildProblem(operation, operands, negatives);
+}
+
+function buildProblem(
+  operation: Exclude<Operation, "division">,
+  operands: number[],
+  negatives: boolean
+) {
   return {
     operation,
     layout: "horizontal" as const,
     problem: {
-      operands: [A, B],
+      operands: negatives
+        ? withSigns(operands, operation === "subtraction")
+        : operands,
       operator: opSymbol(operation),
     },
   };
 }
 
+// Retter et (evt. gemt) talomraade ind: 0-999999, 0-3 decimaler, min <= max.
+export function normalizeRange(raw: unknown): OperandRange | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const { min, max, decimals, values } = raw as Record<string, unknown>;
+  if (typeof min !== "number" || typeof max !== "number") return null;
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+  const clamp = (n: number) => Math.min(MAX_RANGE_VALUE, Math.max(0, n));
+  const range: OperandRange = {
+    min: clamp(Math.min(min, max)),
+    max: clamp(Math.max(min, max)),
+    decimals:
+      typeof decimals === "number" && Number.isFinite(decimals)
+        ? Math.min(MAX_RANGE_DECIMALS, Math.max(0, Math.round(decimals)))
+        : 0,
+  };
+  if (Array.isArray(values)) {
+    const picked = values.filter(
+      (v): v is number => typeof v === "number" && Number.isFinite(v)
+    );
+    if (picked.length > 0) range.values = picked;
+  }
+  return range;
+}
+
+function randomInRange(range: OperandRange) {
+  if (range.values?.length) {
+    return range.values[randInt(0, range.values.length - 1)];
+  }
+  const scale = pow10(range.decimals);
+  const lo = Math.ceil(range.min * scale);
+  const hi = Math.floor(range.max * scale);
+  if (hi < lo) return range.min;
+  return randInt(lo, hi) / scale;
+}
+
 /* ---------- Helpers ---------- */
 function pow10(n: number) {
   return Math.pow(10, n);
 }
-function randInt(a: number, b: number) {
-  return Math.floor(Math.random() * (b - a + 1)) + a;
-}
 
 function minIntByDigits(d: 1 | 2 | 3) {
   return d === 1 ? 1 : d === 2 ? 10 : 100;
@@ -172,6 +285,52 @@ function maxIntByDigits(d: 1 | 2 | 3) {
   return d === 1 ? 9 : d === 2 ? 99 : 999;
 }
 
+function decimalsOf(n: number) {
+  const s = String(n);
+  const i = s.indexOf(".");
+  return i === -1 ? 0 : s.length - i - 1;
+}
+
+function extraOperand(
+  operation: Operation,
+  digitsSel: DigitsSel,
+  decimalsSel: DecimalsSel
+) {
+  if (operation === "multiplication") return randInt(2, 9);
+  const digits = digitsSel === "mix" ? (randInt(1, 3) as 1 | 2 | 3) : digitsSel;
+  const decimals =
+    decimalsSel === "mix" ? (randInt(0, 2) as 0 | 1 | 2) : decimalsSel;
+  const scaled = randomScaled(
+    decimals,
+    minIntByDigits(digits),
+    maxIntByDigits(digits)
+  );
+  return scaled / pow10(decimals);
+}
+
+// Produktet skal kunne regnes eksakt: alle faktorer som heltal paa deres
+// egen skala maa ikke give mere end MAX_SAFE_INTEGER. Ellers skaeres den
+// anden faktor ned, til det passer.
+function capProduct(operands: number[]) {
+  const scaled = operands.map((n) => Math.abs(n) * pow10(decimalsOf(n)));
+  const total = scaled.reduce((a, b) => a * b, 1);
+  if (total <= Number.MAX_SAFE_INTEGER || operands.length < 2) return operands;
+  const others = total / scaled[1];
+  const scale = pow10(decimalsOf(operands[1]));
+  const limit = Math.max(1, Math.floor(Number.MAX_SAFE_INTEGER / others));
+  const capped = Math.min(scaled[1], limit) / scale;
+  return operands.map((n, i) => (i === 1 ? Math.sign(n || 1) * capped : n));
+}
+
+// Goer det foerste tal stort nok til, at a - b - c ... ikke bliver negativt.
+function coverSubtrahends(operands: number[]) {
+  const [first, ...rest] = operands;
+  const sum = rest.reduce((a, b) => a + b, 0);
+  if (first >= sum) return operands;
+  const scale = pow10(Math.max(...operands.map(decimalsOf)));
+  return [Math.round((first + sum) * scale) / scale, ...rest];
+}
+
 function randomScaled(decimals: 0 | 1 | 2, minInt: number, maxInt: number) {
   const scale = pow10(decimals);
   const intPart = randInt(minInt, maxInt);
@@ -186,8 +345,13 @@ function buildDivision(level: DivisionLevel) {
   if (level === 2) {
     return buildIntegerDivision(2, 20, 999);
   }
+  if (level === "rest") {
+    const divisor = randInt(2, 9);
+    const dividend = pickNonDivisibleDividend(divisor, 99);
+    return { dividend, divisor };
+  }
   if (level === 3) {
-    const allowDecimal = Math.random() < 0.6;
+    const allowDecimal = random() < 0.6;
     if (!allowDecimal) {
       return buildIntegerDivision(2, 20, 999);
     }
@@ -233,6 +397,18 @@ function pickNonDivisibleDividend(divisor: number, maxDividend: number) {
   return divisor + 1;
 }
 
+// Tilfaeldige fortegn, men altid mindst et negativt tal - eller ved minus
+// et ombyttet regnestykke, saa resultatet bliver negativt (3 - 8).
+function withSigns(operands: number[], allowSwap = false) {
+  const signed = operands.map((n) => (random() < 0.5 ? -n : n));
+  if (signed.every((n) => n > 0)) {
+    if (allowSwap && random() < 0.5) return [...signed].reverse();
+    const i = randInt(0, signed.length - 1);
+    signed[i] = -signed[i];
+  }
+  return signed;
+}
+
 function opSymbol(op: Operation) {
   if (op === "addition") return "+";
   if (op === "subtraction") return "-";
@@ -241,7 +417,7 @@ function opSymbol(op: Operation) {
 }
 
 function normalizeOptions(
-  opOrOpts: Operation | GenerateOptions
+  opOrOpts: OperationSel | GenerateOptions
 ): Required<GenerateOptions> {
   if (typeof opOrOpts === "string") {
     return {
@@ -250,6 +426,9 @@ function normalizeOptions(
       decimalsSel: "mix",
       borrowMode: "mixed",
       divisionLevel: 1,
+      negatives: false,
+      operandCount: 2,
+      ranges: [],
     };
   }
   return {
@@ -258,5 +437,10 @@ function normalizeOptions(
     decimalsSel: opOrOpts.decimalsSel ?? "mix",
     borrowMode: opOrOpts.borrowMode ?? "mixed",
     divisionLevel: opOrOpts.divisionLevel ?? 1,
+    negatives: opOrOpts.negatives ?? false,
+    operandCount: Math.min(5, Math.max(2, opOrOpts.operandCount ?? 2)),
+    ranges: (opOrOpts.ranges ?? [])
+      .map(normalizeRange)
+      .filter((range): range is OperandRange => range !== null),
   };
 }
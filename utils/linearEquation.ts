@@ -0,0 +1,285 @@
+import { gcd } from "@/utils/taskHelpers";
+
+// Lineaere ligninger i x: hver side laeses som a*x + b med eksakte broeker,
+// saa to linjer kan sammenlignes uden afrundingsfejl.
+
+type Rational = { n: number; d: number };
+
+export type LinearForm = { a: Rational; b: Rational };
+
+export type ParsedEquation = { left: LinearForm; right: LinearForm };
+
+export type ParseResult =
+  | { ok: true; equation: ParsedEquation }
+  | { ok: false; message: string };
+
+export type StepStatus = "ok" | "invalid" | "unreadable";
+
+export type StepCheck = {
+  statuses: StepStatus[];
+  // Index paa foerste linje, der ikke kan laeses eller ikke er aekvivalent.
+  firstError: number | null;
+  message?: string;
+  // Saettes, naar selve opgavens ligning ikke kan laeses.
+  error?: string;
+  // Sidste linje er paa formen x = tal (eller tal = x).
+  solved: boolean;
+};
+
+type Token =
+  | { kind: "num"; value: Rational }
+  | { kind: "x" }
+  | { kind: "op"; value: "+" | "-" | "*" | "/" }
+  | { kind: "open" }
+  | { kind: "close" };
+
+class ParseError extends Error {}
+
+function rational(n: number, d = 1): Rational {
+  if (d === 0) throw new ParseError("Division med 0.");
+  const sign = d < 0 ? -1 : 1;
+  const g = gcd(Math.abs(n), Math.abs(d)) || 1;
+  return { n: (sign * n) / g, d: (sign * d) / g };
+}
+
+const ZERO = rational(0);
+const ONE = rational(1);
+
+function add(p: Rational, q: Rational) {
+  return rational(p.n * q.d + q.n * p.d, p.d * q.d);
+}
+
+function mul(p: Rational, q: Rational) {
+  return rational(p.n * q.n, p.d * q.d);
+}
+
+function neg(p: Rational) {
+  return rational(-p.n, p.d);
+}
+
+function isZero(p: Rational) {
+  return p.n === 0;
+}
+
+function equals(p: Rational, q: Rational) {
+  return p.n === q.n && p.d === q.d;
+}
+
+function parseNumber(raw: string): Rational {
+  const [int, frac = ""] = raw.replace(",", ".").split(".");
+  const scale = 10 ** frac.length;
+  return rational(Number(int || "0") * scale + Number(frac || "0"), scale);
+}
+
+function tokenize(input: string): Token[] {
+  const s = input
+    .replace(/[−–]/g, "-")
+    .replace(/[×·]/g, "*")
+    .replace(/[÷:]/g, "/");
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < s.length) {
+    const ch = s[i];
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+    const number = s.slice(i).match(/^\d+(?:[.,]\d+)?/);
+    if (number) {
+      tokens.push({ kind: "num", value: parseNumber(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    if (ch === "x" || ch === "X") tokens.push({ kind: "x" });
+    else if (ch === "(") tokens.push({ kind: "open" });
+    else if (ch === ")") tokens.push({ kind: "close" });
+    else if (ch === "+" || ch === "-" || ch === "*" || ch === "/") {
+      tokens.push({ kind: "op", value: ch });
+    } else {
+      throw new ParseError(`Ukendt tegn "${ch}".`);
+    }
+    i += 1;
+  }
+  return tokens;
+}
+
+function parseSide(input: string): LinearForm {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  function expression(): LinearForm {
+    let form = term();
+    while (peek()?.kind === "op") {
+      const token = peek() as { kind: "op"; value: string };
+      if (token.value !== "+" && token.value !== "-") break;
+      pos += 1;
+      const right = term();
+      form = {
+        a: add(form.a, token.value === "+" ? right.a : neg(right.a)),
+        b: add(form.b, token.value === "+" ? right.b : neg(right.b)),
+      };
+    }
+    return form;
+  }
+
+  function term(): LinearForm {
+    let form = unary();
+    while (true) {
+      const token = peek();
+      if (token?.kind === "op" && (token.value === "*" || token.value === "/")) {
+        pos += 1;
+        const right = unary();
+        form = token.value === "*" ? multiply(form, right) : divide(form, right);
+        continue;
+      }
+      // Underforstaaet gange: 3x, 2(x + 1), (x - 1)3.
+      if (token?.kind === "x" || token?.kind === "open" || token?.kind === "num") {
+        form = multiply(form, unary());
+        continue;
+      }
+      return form;
+    }
+  }
+
+  function unary(): LinearForm {
+    const token = peek();
+    if (token?.kind === "op" && (token.value === "-" || token.value === "+")) {
+      pos += 1;
+      const inner = unary();
+      return token.value === "-" ? { a: neg(inner.a), b: neg(inner.b) } : inner;
+    }
+    return primary();
+  }
+
+  function primary(): LinearForm {
+    const token = peek();
+    pos += 1;
+    if (!token) throw new ParseError("Udtrykket slutter for tidligt.");
+    if (token.kind === "num") return { a: ZERO, b: token.value };
+    if (token.kind === "x") return { a: ONE, b: ZERO };
+    if (token.kind === "open") {
+      const inner = expression();
+      if (peek()?.kind !== "close") throw new ParseError("Der mangler en slutparentes.");
+      pos += 1;
+      return inner;
+    }
+    throw new ParseError("Der står et tegn det forkerte sted.");
+  }
+
+  if (tokens.length === 0) throw new ParseError("En side af ligningen er tom.");
+  const form = expression();
+  if (pos < tokens.length) throw new ParseError("Der står et tegn det forkerte sted.");
+  return form;
+}
+
+function multiply(p: LinearForm, q: LinearForm): LinearForm {
+  if (!isZero(p.a) && !isZero(q.a)) {
+    throw new ParseError("x gange x er ikke en lineær ligning.");
+  }
+  return {
+    a: add(mul(p.a, q.b), mul(q.a, p.b)),
+    b: mul(p.b, q.b),
+  };
+}
+
+function divide(p: LinearForm, q: LinearForm): LinearForm {
+  if (!isZero(q.a)) throw new ParseError("Man kan ikke dividere med x her.");
+  if (isZero(q.b)) throw new ParseError("Division med 0.");
+  const inverse = rational(q.b.d, q.b.n);
+  return { a: mul(p.a, inverse), b: mul(p.b, inverse) };
+}
+
+export function parseLinearEquation(line: string): ParseResult {
+  const sides = line.split("=");
+  if (sides.length !== 2) {
+    return { ok: false, message: "Skriv præcis ét lighedstegn." };
+  }
+  try {
+    return {
+      ok: true,
+      equation: { left: parseSide(sides[0]), right: parseSide(sides[1]) },
+    };
+  } catch (error) {
+    if (error instanceof ParseError) return { ok: false, message: error.message };
+    throw error;
+  }
+}
+
+// a*x + b = 0 efter alt er flyttet over paa venstre side.
+function normalForm({ left, right }: ParsedEquation): LinearForm {
+  return { a: add(left.a, neg(right.a)), b: add(left.b, neg(right.b)) };
+}
+
+export function isEquivalent(p: ParsedEquation, q: ParsedEquation) {
+  const a = normalForm(p);
+  const b = normalForm(q);
+  if (isZero(a.a) || isZero(b.a)) return false;
+  return equals(mul(a.a, b.b), mul(b.a, a.b));
+}
+
+function isIsolatedX(side: LinearForm, other: LinearForm) {
+  return equals(side.a, ONE) && isZero(side.b) && isZero(other.a);
+}
+
+export function isSolved(equation: ParsedEquation) {
+  return (
+    isIsolatedX(equation.left, equation.right) ||
+    isIsolatedX(equation.right, equation.left)
+  );
+}
+
+export function splitSteps(answer: string) {
+  return answer
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function checkSteps(original: string, answer: string): StepCheck {
+  const start = parseLinearEquation(original);
+  const lines = splitSteps(answer);
+  const statuses: StepStatus[] = [];
+  if (!start.ok) {
+    return {
+      statuses,
+      firstError: null,
+      error: `Opgavens ligning kan ikke læses: ${start.message}`,
+      solved: false,
+    };
+  }
+  let previous = start.equation;
+  let last: ParsedEquation | null = null;
+  for (let i = 0; i < lines.length; i += 1) {
+    const parsed = parseLinearEquation(lines[i]);
+    if (!parsed.ok) {
+      statuses.push("unreadable");
+      return {
+        statuses,
+        firstError: i,
+        message: `Linje ${i + 1} kan ikke læses: ${parsed.message}`,
+        solved: false,
+      };
+    }
+    if (!isEquivalent(previous, parsed.equation)) {
+      statuses.push("invalid");
+      return {
+        statuses,
+        firstError: i,
+        message: isZero(normalForm(parsed.equation).a)
+          ? `Linje ${i + 1}: x er forsvundet. Tjek omskrivningen.`
+          : `Linje ${i + 1} har ikke samme løsning som linjen før.`,
+        solved: false,
+      };
+    }
+    statuses.push("ok");
+    previous = parsed.equation;
+    last = parsed.equation;
+  }
+  return {
+    statuses,
+    firstError: null,
+    solved: last !== null && isSolved(last),
+  };
+}
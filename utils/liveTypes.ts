@@ -3,6 +3,9 @@ export type LiveEvent =
       type: "task";
       equation: string;
       operation: string;
+      track?: string;
+      serialized?: string;
+      seed?: string;
       ts: number;
     }
   | {
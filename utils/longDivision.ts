@@ -0,0 +1,193 @@
+import type { CheckResult } from "@/utils/taskModule";
+import type { CellStatus } from "@/utils/columnArithmetic";
+
+// Lang division (trappemetoden): hvert trin har et kvotientciffer, et produkt
+// og en rest. Cifrene i dividenden taelles fra venstre her.
+
+export type LongDivisionStep = {
+  // Index i digits for det sidste ciffer, trinnet bruger.
+  end: number;
+  partial: number;
+  quotient: number;
+  product: number;
+  remainder: number;
+};
+
+export type LongDivisionLayout = {
+  // Dividendens cifre uden komma, evt. forlaenget med nuller.
+  digits: string;
+  integerDigits: number;
+  // Antal nuller, der er hentet ned efter dividendens egne cifre.
+  extraZeros: number;
+  divisor: number;
+  steps: LongDivisionStep[];
+};
+
+export type LongDivisionAnswer = {
+  quotient: string[];
+  products: string[];
+  remainders: string[];
+};
+
+export type LongDivisionMarks = {
+  quotient: CellStatus[];
+  products: CellStatus[];
+  remainders: CellStatus[];
+};
+
+type StepField = "quotient" | "products" | "remainders";
+
+const FIELD_NAMES: Record<StepField, string> = {
+  quotient: "kvotientcifferet",
+  products: "produktet",
+  remainders: "resten",
+};
+
+export const emptyLongDivisionAnswer: LongDivisionAnswer = {
+  quotient: [],
+  products: [],
+  remainders: [],
+};
+
+function splitDigits(n: number) {
+  const [int, dec = ""] = String(Math.abs(n)).split(".");
+  return { int, dec };
+}
+
+export function buildLongDivision(
+  dividend: number,
+  divisor: number,
+  maxDecimals: number
+): LongDivisionLayout {
+  const { int, dec } = splitDigits(dividend);
+  const ownDigits = int + dec;
+  const extraZeros = Math.max(0, maxDecimals - dec.length);
+  const allDigits = ownDigits + "0".repeat(extraZeros);
+  const integerDigits = int.length;
+
+  // Foerste trin tager cifre, til delen kan deles, men senest sidste
+  // heltalsciffer (saa kvotienten starter med 0, hvis dividenden er mindre).
+  let end = 0;
+  let partial = Number(allDigits[0]);
+  while (partial < divisor && end < integerDigits - 1) {
+    end += 1;
+    partial = partial * 10 + Number(allDigits[end]);
+  }
+
+  const steps: LongDivisionStep[] = [];
+  while (true) {
+    const quotient = Math.floor(partial / divisor);
+    const product = quotient * divisor;
+    const remainder = partial - product;
+    steps.push({ end, partial, quotient, product, remainder });
+
+    const done =
+      end >= allDigits.length - 1 ||
+      (remainder === 0 &&
+        end >= ownDigits.length - 1 &&
+        end >= integerDigits - 1);
+    if (done) break;
+    end += 1;
+    partial = remainder * 10 + Number(allDigits[end]);
+  }
+
+  const used = end + 1;
+  return {
+    digits: allDigits.slice(0, used),
+    integerDigits,
+    extraZeros: Math.max(0, used - ownDigits.length),
+    divisor,
+    steps,
+  };
+}
+
+// Antal kvotientcifre foer kommaet.
+export function quotientIntegerDigits(layout: LongDivisionLayout) {
+  return layout.steps.filter((step) => step.end < layout.integerDigits).length;
+}
+
+// Cifret der hentes ned efter trin index; null ved sidste trin.
+export function broughtDownDigit(layout: LongDivisionLayout, index: number) {
+  if (index >= layout.steps.length - 1) return null;
+  return layout.digits[layout.steps[index].end + 1] ?? null;
+}
+
+function cellStatus(value: string | undefined, expected: number): CellStatus {
+  if (!value) return "empty";
+  return Number(value) === expected ? "ok" : "wrong";
+}
+
+export function markLongDivision(
+  layout: LongDivisionLayout,
+  answer: LongDivisionAnswer
+): LongDivisionMarks {
+  return {
+    quotient: layout.steps.map((step, i) =>
+      cellStatus(answer.quotient[i], step.quotient)
+    ),
+    products: layout.steps.map((step, i) =>
+      cellStatus(answer.products[i], step.product)
+    ),
+    remainders: layout.steps.map((step, i) =>
+      cellStatus(answer.remainders[i], step.remainder)
+    ),
+  };
+}
+
+// Foerste trin, der ikke er udfyldt rigtigt, og hvad der mangler i det.
+export function stuckStep(
+  layout: LongDivisionLayout,
+  answer: LongDivisionAnswer
+) {
+  const marks = markLongDivision(layout, answer);
+  const fields: StepField[] = ["quotient", "products", "remainders"];
+  for (let index = 0; index < layout.steps.length; index += 1) {
+    const wrong = fields.find((field) => marks[field][index] === "wrong");
+    if (wrong) return { index, field: wrong, status: "wrong" as const };
+    const empty = fields.find((field) => marks[field][index] === "empty");
+    if (empty) return { index, field: empty, status: "empty" as const };
+  }
+  return null;
+}
+
+export function checkLongDivision(
+  layout: LongDivisionLayout,
+  answer: LongDivisionAnswer
+): CheckResult {
+  const stuck = stuckStep(layout, answer);
+  if (!stuck) return { type: "correct", message: "Rigtigt! Godt klaret." };
+  if (stuck.status === "empty") {
+    return { type: "error", message: `Udfyld trin ${stuck.index + 1}.` };
+  }
+  return {
+    type: "wrong",
+    message: `Tjek ${FIELD_NAMES[stuck.field]} i trin ${stuck.index + 1}.`,
+  };
+}
+
+export function quotientText(
+  layout: LongDivisionLayout,
+  answer: LongDivisionAnswer
+) {
+  const digits = layout.steps.map((_, i) => answer.quotient[i] || "_");
+  const integers = quotientIntegerDigits(layout);
+  if (integers === digits.length) return digits.join("");
+  return `${digits.slice(0, integers).join("")},${digits.slice(integers).join("")}`;
+}
+
+// Kort status til laererens live-visning.
+export function longDivisionProgress(
+  layout: LongDivisionLayout,
+  answer: LongDivisionAnswer
+) {
+  const total = layout.steps.length;
+  const stuck = stuckStep(layout, answer);
+  const status = stuck
+    ? `trin ${stuck.index + 1}/${total}: ${
+        stuck.status === "wrong"
+          ? `fejl i ${FIELD_NAMES[stuck.field]}`
+          : `mangler ${FIELD_NAMES[stuck.field]}`
+      }`
+    : "alle trin udfyldt";
+  return `${quotientText(layout, answer)} · ${status}`;
+}
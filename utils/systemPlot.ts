@@ -0,0 +1,105 @@
+import {
+  formatSystemEquation,
+  type SystemEquation,
+  type SystemTask,
+} from "@/utils/tracks/ligningssystemer";
+
+// Koordinatsystem til whiteboardet. center er verdenspunktet, hvor (0, 0)
+// ligger; y vender opad som i matematik.
+
+const UNIT = 24;
+const MIN_EXTENT = 10;
+const LINE_COLORS = ["#2563eb", "#059669"];
+
+type Point = { x: number; y: number };
+
+function plotExtent(task: SystemTask) {
+  return Math.max(MIN_EXTENT, Math.abs(task.x) + 3, Math.abs(task.y) + 3);
+}
+
+// Linjens endepunkter ved kanten af koordinatsystemet.
+function lineEnds({ a, b, c }: SystemEquation, extent: number): [Point, Point] {
+  if (b === 0) {
+    const x = c / a;
+    return [
+      { x, y: -extent },
+      { x, y: extent },
+    ];
+  }
+  return [
+    { x: -extent, y: (c - a * -extent) / b },
+    { x: extent, y: (c - a * extent) / b },
+  ];
+}
+
+export function drawSystemPlot(
+  ctx: CanvasRenderingContext2D,
+  center: Point,
+  task: SystemTask,
+  showLines: boolean
+) {
+  const extent = plotExtent(task);
+  const size = extent * UNIT;
+  const toWorld = (p: Point) => ({
+    x: center.x + p.x * UNIT,
+    y: center.y - p.y * UNIT,
+  });
+
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = "#e2e8f0";
+  for (let i = -extent; i <= extent; i += 1) {
+    ctx.beginPath();
+    ctx.moveTo(center.x + i * UNIT, center.y - size);
+    ctx.lineTo(center.x + i * UNIT, center.y + size);
+    ctx.moveTo(center.x - size, center.y + i * UNIT);
+    ctx.lineTo(center.x + size, center.y + i * UNIT);
+    ctx.stroke();
+  }
+
+  ctx.strokeStyle = "#64748b";
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(center.x - size, center.y);
+  ctx.lineTo(center.x + size, center.y);
+  ctx.moveTo(center.x, center.y - size);
+  ctx.lineTo(center.x, center.y + size);
+  ctx.stroke();
+
+  ctx.fillStyle = "#64748b";
+  ctx.font = "11px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+  for (let i = -extent + 1; i < extent; i += 1) {
+    if (i === 0 || i % 2 !== 0) continue;
+    ctx.fillText(String(i), center.x + i * UNIT, center.y + 4);
+    ctx.fillText(String(-i), center.x - 10, center.y + i * UNIT - 6);
+  }
+  ctx.font = "bold 13px sans-serif";
+  ctx.fillText("x", center.x + size - 8, center.y + 6);
+  ctx.fillText("y", center.x + 10, center.y - size + 2);
+
+  if (showLines) {
+    // Klip til koordinatsystemet, saa lodrette og stejle linjer ikke stikker ud.
+    ctx.beginPath();
+    ctx.rect(center.x - size, center.y - size, size * 2, size * 2);
+    ctx.clip();
+    ctx.lineWidth = 2.5;
+    ctx.textAlign = "left";
+    task.equations.forEach((equation, index) => {
+      const [start, end] = lineEnds(equation, extent).map(toWorld);
+      ctx.strokeStyle = LINE_COLORS[index];
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+      ctx.fillStyle = LINE_COLORS[index];
+      ctx.fillText(
+        formatSystemEquation(equation),
+        center.x - size + 8,
+        center.y - size + 8 + index * 18
+      );
+    });
+  }
+  ctx.restore();
+}
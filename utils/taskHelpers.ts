@@ -0,0 +1,84 @@
+let rng: () => number = Math.random;
+
+// FNV-1a, saa et vilkaarligt seed (fx "7B4K:practice:3") bliver til 32 bit.
+function hashSeed(seed: string) {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i += 1) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+function mulberry32(state: number) {
+  let a = state;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Alle generatorer traekker tal herfra i stedet for Math.random.
+export function random() {
+  return rng();
+}
+
+// Koer fn med en deterministisk PRNG; samme seed giver samme opgave.
+export function withSeed<T>(seed: string | null | undefined, fn: () => T): T {
+  if (!seed) return fn();
+  const previous = rng;
+  rng = mulberry32(hashSeed(seed));
+  try {
+    return fn();
+  } finally {
+    rng = previous;
+  }
+}
+
+export function randInt(min: number, max: number) {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
+
+export function shuffle<T>(items: T[]) {
+  const arr = [...items];
+  for (let i = arr.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
+
+export function gcd(a: number, b: number) {
+  let x = Math.abs(a);
+  let y = Math.abs(b);
+  while (y !== 0) {
+    const t = x % y;
+    x = y;
+    y = t;
+  }
+  return x || 1;
+}
+
+export function lcm(a: number, b: number) {
+  return Math.abs(a * b) / gcd(a, b);
+}
+
+export function normalizeNumberString(raw: string) {
+  let s = raw.trim().replace(/\s+/g, "").replace(",", ".");
+  if (!s) return null;
+  if (!/^-?\d*(\.\d*)?$/.test(s)) return null;
+  if (s === "." || s === "-") return null;
+  if (s.startsWith(".")) s = `0${s}`;
+  const [intPartRaw, fracPartRaw] = s.split(".");
+  const intPart = intPartRaw.replace(/^(-?)0+(?=\d)/, "$1") || "0";
+  const fracPart = fracPartRaw?.replace(/0+$/, "") ?? "";
+  if (!fracPart) return intPart;
+  return `${intPart}.${fracPart}`;
+}
+
+export function formatDisplay(value: string) {
+  return value.replace(".", ",");
+}
@@ -0,0 +1,79 @@
+export type FeedbackType = "idle" | "correct" | "wrong" | "error" | "info";
+
+export type Feedback = {
+  type: FeedbackType;
+  message: string;
+};
+
+export type CheckResult = {
+  type: "correct" | "wrong" | "error";
+  message?: string;
+};
+
+export type TrackMeta = {
+  title: string;
+  description: string;
+  href?: string;
+  tag: string;
+  accent: string;
+};
+
+// Et opgavemodul samler alt det, et spor skal kunne: lave en opgave, tjekke et
+// svar, vise opgaven som tekst og sende den til laererpanelet.
+export type TaskModule<TSettings, TTask, TAnswer = string> = {
+  id: string; // bruges ogsaa som storageKey (fx "broeker_streak_v1")
+  trackLabel: string;
+  track: TrackMeta;
+  defaultSettings: TSettings;
+  emptyAnswer: TAnswer;
+  normalizeSettings?(raw: unknown): TSettings;
+  // previous er opgaven, der lige er vist. Den gives kun uden seed, saa opgave
+  // nr. i med seed kun afhaenger af seed og indstillinger.
+  generate(settings: TSettings, previous?: TTask): TTask;
+  check(task: TTask, answer: TAnswer): CheckResult;
+  format(task: TTask): string;
+  label(task: TTask): string;
+  formatAnswer(answer: TAnswer, task: TTask): string;
+  solution(task: TTask): string;
+  serialize(task: TTask): string;
+  deserialize(raw: string): TTask | null;
+  // Valgfri: kaldes efter hvert tjek/facit med tiden siden opgaven blev vist.
+  recordResult?(task: TTask, result: CheckResult, elapsedMs: number): void;
+};
+
+export type AnyTaskModule = TaskModule<unknown, unknown, unknown>;
+
+export function serializeJson<T>(task: T) {
+  return JSON.stringify(task);
+}
+
+export function deserializeJson<T>(
+  raw: string,
+  isTask: (value: unknown) => value is T
+): T | null {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isTask(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Laererens indstillinger for et spor i sessionen (sessions.track_settings),
+// fx {"tabeller":{"tables":[3,7]}}.
+export function sessionSettingsFor(
+  raw: string,
+  trackId: string
+): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    const own = isRecord(parsed) ? parsed[trackId] : null;
+    return isRecord(own) ? own : {};
+  } catch {
+    return {};
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
@@ -0,0 +1,40 @@
+import type { AnyTaskModule, TrackMeta } from "@/utils/taskModule";
+import { practiceModule } from "@/utils/tracks/practice";
+import { potenserModule } from "@/utils/tracks/potenser";
+import { potensreglerModule } from "@/utils/tracks/potensregler";
+import { broekerModule } from "@/utils/tracks/broeker";
+import { regnehierarkietModule } from "@/utils/tracks/regnehierarkiet";
+import { omskrivningModule } from "@/utils/tracks/omskrivning";
+import { procentModule } from "@/utils/tracks/procent";
+import { tekstopgaverModule } from "@/utils/tracks/tekstopgaver";
+import { ligningerModule } from "@/utils/tracks/ligninger";
+import { ligningssystemerModule } from "@/utils/tracks/ligningssystemer";
+import { geometriModule } from "@/utils/tracks/geometri";
+import { tabellerModule } from "@/utils/tracks/tabeller";
+
+// Raekkefoelgen her er ogsaa raekkefoelgen paa forsiden.
+export const taskModules: AnyTaskModule[] = [
+  practiceModule,
+  tabellerModule,
+  potenserModule,
+  potensreglerModule,
+  broekerModule,
+  regnehierarkietModule,
+  omskrivningModule,
+  procentModule,
+  tekstopgaverModule,
+  ligningerModule,
+  ligningssystemerModule,
+  geometriModule,
+];
+
+export const tracks: TrackMeta[] = taskModules.map((module) => module.track);
+
+export function getTaskModule(id?: string | null) {
+  if (!id) return null;
+  return taskModules.find((module) => module.id === id) ?? null;
+}
+
+export function getTrackLabel(id?: string | null) {
+  return getTaskModule(id)?.trackLabel ?? null;
+}
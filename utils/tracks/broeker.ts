@@ -0,0 +1,621 @@
+import { gcd, lcm, randInt } from "@/utils/taskHelpers";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type CheckResult,
+  type TaskModule,
+} from "@/utils/taskModule";
+
+export type BroekerOperation =
+  | "add"
+  | "subtract"
+  | "multiply"
+  | "divide"
+  | "mulInt"
+  | "divInt"
+  | "expand"
+  | "reduce"
+  | "lcd"
+  | "compare"
+  | "order";
+
+export type BroekerRange = "small" | "medium" | "large";
+
+// "mixed": svaret skal skrives som blandet tal, "improper": som uaegte broek.
+export type BroekerAnswerForm = "any" | "mixed" | "improper";
+
+// Visuel model af broekerne: lagkage, stang eller kvadratnet.
+export type BroekerModel = "none" | "pie" | "bar" | "grid";
+
+export type Comparison = "<" | "=" | ">";
+
+export type Fraction = { n: number; d: number };
+export type MixedNumber = { whole: number; n: number; d: number };
+// Ved forlaeng/forkort er b den naevner, broeken skal omskrives til.
+export type BroekerTask = {
+  operation: BroekerOperation;
+  a: Fraction;
+  b: Fraction | number;
+  // Tredje broek ved faellesnaevner og ordning.
+  c?: Fraction;
+  // Broeker stoerre end 1 vises som blandede tal (fx 2 1/3).
+  mixed?: boolean;
+  answerForm?: BroekerAnswerForm;
+};
+
+export type BroekerSettings = {
+  operation: BroekerOperation;
+  range: BroekerRange;
+  mixedOperands: boolean;
+  answerForm: BroekerAnswerForm;
+  model: BroekerModel;
+};
+
+// order er raekkefoelgen af broekerne (indeks) fra mindst til stoerst.
+export type BroekerAnswer = {
+  whole: string;
+  num: string;
+  den: string;
+  relation: Comparison | "";
+  order: number[];
+};
+
+export const operationLabels: Record<BroekerOperation, string> = {
+  add: "Plus",
+  subtract: "Minus",
+  multiply: "Gange",
+  divide: "Divider",
+  mulInt: "Gange med helt tal",
+  divInt: "Divider med helt tal",
+  expand: "Forlæng",
+  reduce: "Forkort",
+  lcd: "Fællesnævner",
+  compare: "Sammenlign",
+  order: "Ordn",
+};
+
+export const operationSymbols: Record<BroekerOperation, string> = {
+  add: "+",
+  subtract: "-",
+  multiply: "x",
+  divide: "/",
+  mulInt: "x",
+  divInt: "/",
+  expand: "=",
+  reduce: "=",
+  lcd: ",",
+  compare: "?",
+  order: ",",
+};
+
+const ranges: Record<
+  BroekerRange,
+  { maxNum: number; maxDen: number; maxInt: number }
+> = {
+  small: { maxNum: 5, maxDen: 5, maxInt: 5 },
+  medium: { maxNum: 15, maxDen: 15, maxInt: 15 },
+  large: { maxNum: 35, maxDen: 35, maxInt: 35 },
+};
+
+// Mindre naevnere til faellesnaevner og ordning, saa tallene ikke eksploderer.
+const compareDenominators: Record<BroekerRange, number> = {
+  small: 6,
+  medium: 10,
+  large: 12,
+};
+
+export function simplifyFraction(f: Fraction): Fraction {
+  const sign = f.d < 0 ? -1 : 1;
+  const n = f.n * sign;
+  const d = f.d * sign;
+  const g = gcd(n, d);
+  return { n: n / g, d: d / g };
+}
+
+export function compareFractions(a: Fraction, b: Fraction) {
+  return a.n * b.d - b.n * a.d;
+}
+
+export function toMixed(f: Fraction): MixedNumber {
+  const whole = Math.trunc(f.n / f.d);
+  return { whole, n: Math.abs(f.n - whole * f.d), d: f.d };
+}
+
+export function isImproper(f: Fraction) {
+  return Math.abs(f.n) >= f.d && f.d !== 1;
+}
+
+function addFractions(a: Fraction, b: Fraction): Fraction {
+  return simplifyFraction({ n: a.n * b.d + b.n * a.d, d: a.d * b.d });
+}
+
+function subtractFractions(a: Fraction, b: Fraction): Fraction {
+  return simplifyFraction({ n: a.n * b.d - b.n * a.d, d: a.d * b.d });
+}
+
+function multiplyFractions(a: Fraction, b: Fraction): Fraction {
+  return simplifyFraction({ n: a.n * b.n, d: a.d * b.d });
+}
+
+function divideFractions(a: Fraction, b: Fraction): Fraction {
+  return simplifyFraction({ n: a.n * b.d, d: a.d * b.n });
+}
+
+function randomFraction(range: BroekerRange): Fraction {
+  const { maxNum, maxDen } = ranges[range];
+  const d = randInt(2, maxDen);
+  const n = randInt(1, maxNum);
+  return simplifyFraction({ n, d });
+}
+
+function randomProperFraction(range: BroekerRange): Fraction {
+  const { maxDen } = ranges[range];
+  const d = randInt(2, maxDen);
+  const n = randInt(1, d - 1);
+  return simplifyFraction({ n, d });
+}
+
+// Uaegte broek med vaerdi mellem 1 og 4, saa den giver et blandet tal.
+function randomMixedFraction(range: BroekerRange): Fraction {
+  const proper = randomProperFraction(range);
+  const whole = randInt(1, 3);
+  return { n: whole * proper.d + proper.n, d: proper.d };
+}
+
+function randomFactor(range: BroekerRange) {
+  return randInt(2, Math.min(ranges[range].maxInt, 10));
+}
+
+function randomCompareFraction(range: BroekerRange): Fraction {
+  const d = randInt(2, compareDenominators[range]);
+  return simplifyFraction({ n: randInt(1, d - 1), d });
+}
+
+function divisors(value: number) {
+  return Array.from({ length: value }, (_, i) => i + 1).filter(
+    (k) => value % k === 0
+  );
+}
+
+// Broeker med forskellig vaerdi; ellers er raekkefoelgen ikke entydig.
+function distinctFractions(range: BroekerRange, count: number) {
+  const found: Fraction[] = [];
+  while (found.length < count) {
+    const next = randomCompareFraction(range);
+    if (found.every((f) => compareFractions(f, next) !== 0)) found.push(next);
+  }
+  return found;
+}
+
+function buildConversion(settings: BroekerSettings): BroekerTask | null {
+  const { operation, range } = settings;
+  if (operation === "expand") {
+    const a = randomProperFraction(range);
+    return { operation, a, b: a.d * randomFactor(range) };
+  }
+  if (operation === "reduce") {
+    const simple = randomProperFraction(range);
+    const factor = randomFactor(range);
+    const keep = divisors(factor).filter((k) => k < factor);
+    const target = simple.d * keep[randInt(0, keep.length - 1)];
+    return {
+      operation,
+      a: { n: simple.n * factor, d: simple.d * factor },
+      b: target,
+    };
+  }
+  if (operation === "lcd") {
+    const count = range === "small" ? 2 : range === "medium" ? randInt(2, 3) : 3;
+    const [a, b, c] = distinctFractions(range, count);
+    return c ? { operation, a, b, c } : { operation, a, b };
+  }
+  if (operation === "compare") {
+    const a = randomCompareFraction(range);
+    // Af og til to lige store broeker skrevet forskelligt.
+    const b =
+      randInt(1, 5) === 1
+        ? { n: a.n * 2, d: a.d * 2 }
+        : distinctFractions(range, 1)[0];
+    return { operation, a, b };
+  }
+  if (operation === "order") {
+    const [a, b, c] = distinctFractions(range, 3);
+    return { operation, a, b, c };
+  }
+  return null;
+}
+
+function buildTask(settings: BroekerSettings): BroekerTask {
+  const task = buildOperands(settings);
+  return {
+    ...task,
+    mixed: settings.mixedOperands,
+    answerForm: settings.answerForm,
+  };
+}
+
+function buildOperands(settings: BroekerSettings): BroekerTask {
+  const conversion = buildConversion(settings);
+  if (conversion) return conversion;
+  const pick = settings.mixedOperands ? randomMixedFraction : randomFraction;
+  if (settings.operation === "mulInt") {
+    const a = pick(settings.range);
+    const intB = randInt(2, ranges[settings.range].maxInt);
+    return { operation: settings.operation, a, b: intB };
+  }
+  if (settings.operation === "divInt") {
+    const a = pick(settings.range);
+    const intB = randInt(2, ranges[settings.range].maxInt);
+    return { operation: settings.operation, a, b: intB };
+  }
+  const pickOperand = settings.mixedOperands
+    ? randomMixedFraction
+    : randomProperFraction;
+  const a = pickOperand(settings.range);
+  const b = pickOperand(settings.range);
+  if (settings.operation === "subtract" && compareFractions(a, b) < 0) {
+    return { operation: settings.operation, a: b, b: a };
+  }
+  if (settings.operation === "divide") {
+    return { operation: settings.operation, a, b: b.n === 0 ? { ...b, n: 1 } : b };
+  }
+  return { operation: settings.operation, a, b };
+}
+
+export function solveTask(task: BroekerTask): Fraction {
+  const a = task.a;
+  const b = task.b;
+  switch (task.operation) {
+    case "add":
+      return addFractions(a, b as Fraction);
+    case "subtract":
+      return subtractFractions(a, b as Fraction);
+    case "multiply":
+      return multiplyFractions(a, b as Fraction);
+    case "divide":
+      return divideFractions(a, b as Fraction);
+    case "mulInt":
+      return simplifyFraction({ n: a.n * (b as number), d: a.d });
+    case "divInt":
+      return simplifyFraction({ n: a.n, d: a.d * (b as number) });
+    case "expand":
+    case "reduce":
+      // Ikke forkortet: svaret skal have den givne naevner.
+      return { n: (a.n * (b as number)) / a.d, d: b as number };
+    default:
+      return simplifyFraction(a);
+  }
+}
+
+const MAX_MODEL_PARTS = 48;
+const MAX_MODEL_WHOLES = 4;
+
+// Kan broeken tegnes som model uden at delene bliver for smaa?
+export function fitsModel(value: Fraction, parts = value.d) {
+  const wholes = Math.ceil(value.n / value.d);
+  return parts <= MAX_MODEL_PARTS && wholes <= MAX_MODEL_WHOLES;
+}
+
+// Den model, eleven skraverer svaret i: antal dele pr. hel og antal hele.
+// Ved division med en broek findes ingen naturlig inddeling, saa der svares
+// med tal.
+export function shadingModel(task: BroekerTask) {
+  const { a, b } = task;
+  let parts: number;
+  switch (task.operation) {
+    case "add":
+    case "subtract":
+      parts = lcm(a.d, (b as Fraction).d);
+      break;
+    case "multiply":
+      parts = a.d * (b as Fraction).d;
+      break;
+    case "mulInt":
+      parts = a.d;
+      break;
+    case "divInt":
+      parts = a.d * (b as number);
+      break;
+    case "expand":
+    case "reduce":
+      parts = b as number;
+      break;
+    default:
+      return null;
+  }
+  const correct = solveTask(task);
+  if (!fitsModel(correct, parts)) return null;
+  return { parts, wholes: Math.max(1, Math.ceil(correct.n / correct.d)) };
+}
+
+export function taskFractions(task: BroekerTask): Fraction[] {
+  const list = typeof task.b === "number" ? [task.a] : [task.a, task.b];
+  return task.c ? [...list, task.c] : list;
+}
+
+export function commonDenominator(fractions: Fraction[]) {
+  return fractions.reduce((acc, f) => lcm(acc, f.d), 1);
+}
+
+function compareSign(a: Fraction, b: Fraction): Comparison {
+  const diff = compareFractions(a, b);
+  return diff < 0 ? "<" : diff > 0 ? ">" : "=";
+}
+
+function sortedOrder(task: BroekerTask) {
+  const fractions = taskFractions(task);
+  return fractions
+    .map((_, i) => i)
+    .sort((i, j) => compareFractions(fractions[i], fractions[j]));
+}
+
+// Fx " 1/2 = 3/6, 2/3 = 4/6." - tom, hvis intet skal forlaenges.
+function expandedText(fractions: Fraction[]) {
+  const common = commonDenominator(fractions);
+  const parts = fractions
+    .filter((f) => f.d !== common)
+    .map((f) => `${formatFractionText(f)} = ${(f.n * common) / f.d}/${common}`);
+  return parts.length > 0 ? ` ${parts.join(", ")}.` : "";
+}
+
+export function formatFractionText(value: Fraction) {
+  return `${value.n}/${value.d}`;
+}
+
+export function formatMixedText(value: Fraction) {
+  if (value.d === 1) return String(value.n);
+  if (!isImproper(value)) return formatFractionText(value);
+  const { whole, n, d } = toMixed(value);
+  return n === 0 ? String(whole) : `${whole} ${n}/${d}`;
+}
+
+function parseAnswer(answer: BroekerAnswer): Fraction | null {
+  const wholeRaw = answer.whole.trim();
+  const numRaw = answer.num.trim();
+  const whole = wholeRaw === "" ? 0 : Number.parseInt(wholeRaw, 10);
+  if (!Number.isFinite(whole)) return null;
+  // Kun et helt tal: "3" i heltalsfeltet er 3/1.
+  if (numRaw === "" && wholeRaw !== "") return { n: whole, d: 1 };
+  const n = Number.parseInt(numRaw, 10);
+  if (!Number.isFinite(n)) return null;
+  const denRaw = answer.den.trim();
+  const d = denRaw === "" ? 1 : Number.parseInt(denRaw, 10);
+  if (!Number.isFinite(d) || d === 0) return null;
+  const sign = whole < 0 ? -1 : 1;
+  return simplifyFraction({ n: whole * d + sign * n, d });
+}
+
+function checkForm(task: BroekerTask, answer: BroekerAnswer): CheckResult {
+  const correct = solveTask(task);
+  const hasWhole = answer.whole.trim() !== "";
+  if (task.answerForm === "improper" && hasWhole && correct.d !== 1) {
+    return {
+      type: "wrong",
+      message: "Værdien er rigtig - men skriv den som uægte brøk uden helt tal.",
+    };
+  }
+  const num = Math.abs(Number.parseInt(answer.num.trim(), 10));
+  const den = Number.parseInt(answer.den.trim(), 10);
+  const properRest = !Number.isFinite(num) || num < den;
+  if (task.answerForm === "mixed" && isImproper(correct)) {
+    if (!hasWhole || !properRest) {
+      return {
+        type: "wrong",
+        message: `Værdien er rigtig - men skriv den som blandet tal, fx ${formatMixedText(
+          correct
+        )}.`,
+      };
+    }
+  }
+  return { type: "correct" };
+}
+
+function checkConversion(task: BroekerTask, answer: BroekerAnswer): CheckResult {
+  const target = task.b as number;
+  const n = Number.parseInt(answer.num.trim(), 10);
+  const d = Number.parseInt(answer.den.trim(), 10);
+  if (!Number.isFinite(n) || !Number.isFinite(d) || d === 0) {
+    return { type: "error", message: "Skriv både tæller og nævner." };
+  }
+  if (d !== target) {
+    return { type: "wrong", message: `Nævneren skal være ${target}.` };
+  }
+  return n === solveTask(task).n ? { type: "correct" } : { type: "wrong" };
+}
+
+function checkCommonDenominator(
+  task: BroekerTask,
+  answer: BroekerAnswer
+): CheckResult {
+  const value = Number.parseInt(answer.den.trim(), 10);
+  if (!Number.isFinite(value) || value <= 0) {
+    return { type: "error", message: "Skriv fællesnævneren som et helt tal." };
+  }
+  const fractions = taskFractions(task);
+  const common = commonDenominator(fractions);
+  if (value === common) return { type: "correct" };
+  if (fractions.every((f) => value % f.d === 0)) {
+    return {
+      type: "wrong",
+      message: `${value} er en fællesnævner, men ikke den mindste.`,
+    };
+  }
+  return { type: "wrong" };
+}
+
+function checkOrder(task: BroekerTask, answer: BroekerAnswer): CheckResult {
+  const fractions = taskFractions(task);
+  if (answer.order.length !== fractions.length) {
+    return { type: "error", message: "Vælg alle brøkerne i rækkefølge." };
+  }
+  const correct = answer.order.every(
+    (index, i) =>
+      i === 0 ||
+      compareFractions(fractions[answer.order[i - 1]], fractions[index]) < 0
+  );
+  return correct ? { type: "correct" } : { type: "wrong" };
+}
+
+function checkFraction(task: BroekerTask, answer: BroekerAnswer): CheckResult {
+  const parsed = parseAnswer(answer);
+  if (!parsed) {
+    return {
+      type: "error",
+      message: "Skriv et gyldigt svar. Nævner må ikke være 0.",
+    };
+  }
+  const correct = solveTask(task);
+  return parsed.n === correct.n && parsed.d === correct.d
+    ? checkForm(task, answer)
+    : { type: "wrong" };
+}
+
+function isBroekerTask(value: unknown): value is BroekerTask {
+  return (
+    isRecord(value) &&
+    typeof value.operation === "string" &&
+    isRecord(value.a) &&
+    (typeof value.b === "number" || isRecord(value.b))
+  );
+}
+
+const defaultSettings: BroekerSettings = {
+  operation: "add",
+  range: "small",
+  mixedOperands: false,
+  answerForm: "any",
+  model: "none",
+};
+
+const ANSWER_FORMS: BroekerAnswerForm[] = ["any", "mixed", "improper"];
+const MODELS: BroekerModel[] = ["none", "pie", "bar", "grid"];
+
+function normalizeSettings(raw: unknown): BroekerSettings {
+  if (!isRecord(raw)) return defaultSettings;
+  const operation =
+    typeof raw.operation === "string" && raw.operation in operationLabels
+      ? (raw.operation as BroekerOperation)
+      : defaultSettings.operation;
+  const range =
+    raw.range === "medium" || raw.range === "large" ? raw.range : "small";
+  return {
+    operation,
+    range,
+    mixedOperands: raw.mixedOperands === true,
+    answerForm:
+      ANSWER_FORMS.find((form) => form === raw.answerForm) ??
+      defaultSettings.answerForm,
+    model: MODELS.find((model) => model === raw.model) ?? defaultSettings.model,
+  };
+}
+
+export const broekerModule: TaskModule<
+  BroekerSettings,
+  BroekerTask,
+  BroekerAnswer
+> = {
+  id: "broeker",
+  trackLabel: "Brøker",
+  track: {
+    title: "Brøker",
+    description:
+      "Regn med brøker, forlæng og forkort, find fællesnævner og sammenlign.",
+    href: "/broeker",
+    tag: "Aktiv",
+    accent: "from-orange-100/80 via-white to-amber-100/60",
+  },
+  defaultSettings,
+  normalizeSettings,
+  emptyAnswer: { whole: "", num: "", den: "", relation: "", order: [] },
+  generate: buildTask,
+  check: (task, answer) => {
+    switch (task.operation) {
+      case "expand":
+      case "reduce":
+        return checkConversion(task, answer);
+      case "lcd":
+        return checkCommonDenominator(task, answer);
+      case "compare":
+        if (!answer.relation) {
+          return { type: "error", message: "Vælg <, = eller >." };
+        }
+        return answer.relation === compareSign(task.a, task.b as Fraction)
+          ? { type: "correct" }
+          : { type: "wrong" };
+      case "order":
+        return checkOrder(task, answer);
+      default:
+        return checkFraction(task, answer);
+    }
+  },
+  format: (task) => {
+    const list = taskFractions(task).map(formatFractionText).join(", ");
+    if (task.operation === "expand" || task.operation === "reduce") {
+      return `${formatFractionText(task.a)} = ?/${task.b}`;
+    }
+    if (task.operation === "lcd") return `Fællesnævner for ${list}`;
+    if (task.operation === "compare") {
+      return `${formatFractionText(task.a)} ? ${formatFractionText(
+        task.b as Fraction
+      )}`;
+    }
+    if (task.operation === "order") return `Ordn ${list}`;
+    const text = task.mixed ? formatMixedText : formatFractionText;
+    const aText = text(task.a);
+    const bText = typeof task.b === "number" ? String(task.b) : text(task.b);
+    return `${aText} ${operationSymbols[task.operation]} ${bText}`;
+  },
+  label: (task) => operationLabels[task.operation],
+  formatAnswer: (answer, task) => {
+    const fractions = taskFractions(task);
+    if (task.operation === "lcd") return answer.den.trim();
+    if (task.operation === "compare") {
+      if (!answer.relation) return "";
+      return `${formatFractionText(task.a)} ${answer.relation} ${formatFractionText(
+        task.b as Fraction
+      )}`;
+    }
+    if (task.operation === "order") {
+      return answer.order
+        .map((index) => formatFractionText(fractions[index]))
+        .join(" < ");
+    }
+    const fraction =
+      answer.num || answer.den ? `${answer.num}/${answer.den}` : "";
+    return [answer.whole.trim(), fraction].filter(Boolean).join(" ");
+  },
+  solution: (task) => {
+    const fractions = taskFractions(task);
+    if (task.operation === "expand" || task.operation === "reduce") {
+      const target = solveTask(task);
+      const factor =
+        task.operation === "expand" ? target.d / task.a.d : task.a.d / target.d;
+      const verb = task.operation === "expand" ? "gang" : "del";
+      return `Facit: ${formatFractionText(task.a)} = ${formatFractionText(
+        target
+      )} (${verb} tæller og nævner med ${factor}).`;
+    }
+    if (task.operation === "lcd") {
+      return `Facit: ${commonDenominator(fractions)}.${expandedText(fractions)}`;
+    }
+    if (task.operation === "compare") {
+      const b = task.b as Fraction;
+      return `Facit: ${formatFractionText(task.a)} ${compareSign(
+        task.a,
+        b
+      )} ${formatFractionText(b)}.${expandedText(fractions)}`;
+    }
+    if (task.operation === "order") {
+      return `Facit: ${sortedOrder(task)
+        .map((index) => formatFractionText(fractions[index]))
+        .join(" < ")}.`;
+    }
+    const correct = solveTask(task);
+    return isImproper(correct)
+      ? `Facit: ${formatFractionText(correct)} = ${formatMixedText(correct)}.`
+      : `Facit: ${formatFractionText(correct)}.`;
+  },
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isBroekerTask),
+};
@@ -0,0 +1,460 @@
+import {
+  formatDisplay,
+  normalizeNumberString,
+  randInt,
+} from "@/utils/taskHelpers";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type CheckResult,
+  type TaskModule,
+} from "@/utils/taskModule";
+
+export type GeometriShape =
+  | "rectangle"
+  | "triangle"
+  | "parallelogram"
+  | "trapezoid"
+  | "circle"
+  | "composite"
+  | "mixed";
+export type GeometriQuantity = "area" | "perimeter" | "mixed";
+export type GeometriRange = "small" | "medium" | "large";
+export type GeometriUnit = "mm" | "cm" | "m";
+
+// Alle maal er i samme enhed. offset er den vandrette forskydning af
+// toppunktet/overkanten, saa figuren kan tegnes.
+export type GeometriFigure =
+  | { shape: "rectangle"; width: number; height: number }
+  | {
+      shape: "triangle";
+      base: number;
+      height: number;
+      offset: number;
+      left: number;
+      right: number;
+    }
+  | {
+      shape: "parallelogram";
+      base: number;
+      height: number;
+      offset: number;
+      side: number;
+    }
+  | {
+      shape: "trapezoid";
+      top: number;
+      bottom: number;
+      height: number;
+      offset: number;
+      left: number;
+      right: number;
+    }
+  | { shape: "circle"; radius: number; showDiameter: boolean }
+  | {
+      shape: "lshape";
+      width: number;
+      height: number;
+      cutWidth: number;
+      cutHeight: number;
+    }
+  | {
+      shape: "house";
+      width: number;
+      height: number;
+      roofHeight: number;
+      roofSide: number;
+    };
+
+export type GeometriTask = {
+  figure: GeometriFigure;
+  quantity: Exclude<GeometriQuantity, "mixed">;
+  unit: GeometriUnit;
+  expected: number;
+};
+
+export type GeometriSettings = {
+  shape: GeometriShape;
+  quantity: GeometriQuantity;
+  range: GeometriRange;
+};
+
+// Skolernes tilnaermelse; svar med Math.PI godtages ogsaa.
+const PI_SCHOOL = 3.14;
+
+const ranges: Record<
+  GeometriRange,
+  { sideMin: number; sideMax: number; scale: number; units: GeometriUnit[] }
+> = {
+  small: { sideMin: 2, sideMax: 12, scale: 1, units: ["cm"] },
+  medium: { sideMin: 3, sideMax: 20, scale: 1, units: ["cm", "m"] },
+  large: { sideMin: 3, sideMax: 30, scale: 0.5, units: ["mm", "cm", "m"] },
+};
+
+export const shapeNames: Record<GeometriFigure["shape"], string> = {
+  rectangle: "rektangel",
+  triangle: "trekant",
+  parallelogram: "parallelogram",
+  trapezoid: "trapez",
+  circle: "cirkel",
+  lshape: "sammensat figur",
+  house: "sammensat figur",
+};
+
+const PRIMITIVE_TRIPLES: [number, number, number][] = [
+  [3, 4, 5],
+  [5, 12, 13],
+  [8, 15, 17],
+];
+
+type LegPair = { run: number; rise: number; hyp: number };
+
+// Retvinklede trekanter med heltallige sider, saa skraa sider bliver paene.
+function legPairs(maxLeg: number) {
+  const pairs: LegPair[] = [];
+  for (const [a, b, c] of PRIMITIVE_TRIPLES) {
+    for (let k = 1; k * Math.max(a, b) <= maxLeg; k += 1) {
+      pairs.push({ run: a * k, rise: b * k, hyp: c * k });
+      pairs.push({ run: b * k, rise: a * k, hyp: c * k });
+    }
+  }
+  return pairs;
+}
+
+function pick<T>(items: T[]) {
+  return items[randInt(0, items.length - 1)];
+}
+
+function roundTo(n: number, decimals: number) {
+  const factor = 10 ** decimals;
+  return Math.round(n * factor) / factor;
+}
+
+function scaleFigure(figure: GeometriFigure, scale: number): GeometriFigure {
+  if (scale === 1) return figure;
+  const scaled: Record<string, unknown> = { ...figure };
+  for (const [key, value] of Object.entries(figure)) {
+    if (typeof value === "number") scaled[key] = value * scale;
+  }
+  return scaled as GeometriFigure;
+}
+
+function buildFigure(
+  shape: Exclude<GeometriShape, "mixed">,
+  range: GeometriRange
+): GeometriFigure {
+  const { sideMin, sideMax } = ranges[range];
+  const pairs = legPairs(sideMax);
+
+  if (shape === "rectangle") {
+    const a = randInt(sideMin, sideMax);
+    const b = randInt(sideMin, sideMax);
+    return { shape, width: Math.max(a, b), height: Math.min(a, b) };
+  }
+
+  if (shape === "triangle") {
+    const first = pick(pairs);
+    const second = pick(pairs.filter((p) => p.rise === first.rise));
+    return {
+      shape,
+      base: first.run + second.run,
+      height: first.rise,
+      offset: first.run,
+      left: first.hyp,
+      right: second.hyp,
+    };
+  }
+
+  if (shape === "parallelogram") {
+    const slant = pick(pairs);
+    const base = randInt(
+      Math.max(sideMin, slant.run + 1),
+      Math.max(sideMax, slant.run + sideMin)
+    );
+    return {
+      shape,
+      base,
+      height: slant.rise,
+      offset: slant.run,
+      side: slant.hyp,
+    };
+  }
+
+  if (shape === "trapezoid") {
+    const left = pick(pairs);
+    const right = pick(pairs.filter((p) => p.rise === left.rise));
+    const top = randInt(sideMin, sideMax);
+    return {
+      shape,
+      top,
+      bottom: top + left.run + right.run,
+      height: left.rise,
+      offset: left.run,
+      left: left.hyp,
+      right: right.hyp,
+    };
+  }
+
+  if (shape === "circle") {
+    return {
+      shape,
+      radius: randInt(1, Math.ceil(sideMax / 2)),
+      showDiameter: range !== "small" && randInt(0, 1) === 1,
+    };
+  }
+
+  if (randInt(0, 1) === 0) {
+    const width = randInt(sideMin + 2, sideMax);
+    const height = randInt(sideMin + 2, sideMax);
+    return {
+      shape: "lshape",
+      width,
+      height,
+      cutWidth: randInt(1, width - 2),
+      cutHeight: randInt(1, height - 2),
+    };
+  }
+
+  const roof = pick(pairs);
+  return {
+    shape: "house",
+    width: roof.run * 2,
+    height: randInt(sideMin, sideMax),
+    roofHeight: roof.rise,
+    roofSide: roof.hyp,
+  };
+}
+
+export function figureArea(figure: GeometriFigure, pi: number = PI_SCHOOL) {
+  switch (figure.shape) {
+    case "rectangle":
+      return figure.width * figure.height;
+    case "triangle":
+      return (figure.base * figure.height) / 2;
+    case "parallelogram":
+      return figure.base * figure.height;
+    case "trapezoid":
+      return ((figure.top + figure.bottom) * figure.height) / 2;
+    case "circle":
+      return pi * figure.radius * figure.radius;
+    case "lshape":
+      return figure.width * figure.height - figure.cutWidth * figure.cutHeight;
+    case "house":
+      return (
+        figure.width * figure.height + (figure.width * figure.roofHeight) / 2
+      );
+  }
+}
+
+export function figurePerimeter(
+  figure: GeometriFigure,
+  pi: number = PI_SCHOOL
+) {
+  switch (figure.shape) {
+    case "rectangle":
+      return 2 * (figure.width + figure.height);
+    case "triangle":
+      return figure.base + figure.left + figure.right;
+    case "parallelogram":
+      return 2 * (figure.base + figure.side);
+    case "trapezoid":
+      return figure.top + figure.bottom + figure.left + figure.right;
+    case "circle":
+      return 2 * pi * figure.radius;
+    case "lshape":
+      return 2 * (figure.width + figure.height);
+    case "house":
+      return figure.width + 2 * figure.height + 2 * figure.roofSide;
+  }
+}
+
+function computeValue(task: Omit<GeometriTask, "expected">, pi?: number) {
+  const value =
+    task.quantity === "area"
+      ? figureArea(task.figure, pi)
+      : figurePerimeter(task.figure, pi);
+  return roundTo(value, 2);
+}
+
+function buildTask(settings: GeometriSettings): GeometriTask {
+  const shape =
+    settings.shape === "mixed"
+      ? pick([
+          "rectangle",
+          "triangle",
+          "parallelogram",
+          "trapezoid",
+          "circle",
+          "composite",
+        ] as const)
+      : settings.shape;
+  const quantity =
+    settings.quantity === "mixed"
+      ? pick(["area", "perimeter"] as const)
+      : settings.quantity;
+  const { scale, units } = ranges[settings.range];
+  const figure = scaleFigure(buildFigure(shape, settings.range), scale);
+  const unit = pick(units);
+  return {
+    figure,
+    quantity,
+    unit,
+    expected: computeValue({ figure, quantity, unit }),
+  };
+}
+
+export function unitLabel(task: Pick<GeometriTask, "quantity" | "unit">) {
+  return task.quantity === "area" ? `${task.unit}²` : task.unit;
+}
+
+export function formatLength(value: number, unit: GeometriUnit) {
+  return `${formatDisplay(String(roundTo(value, 2)))} ${unit}`;
+}
+
+// Maal i samme raekkefoelge som paa tegningen, til tekst og laererens visning.
+export function figureMeasures(figure: GeometriFigure): [string, number][] {
+  switch (figure.shape) {
+    case "rectangle":
+      return [
+        ["l", figure.width],
+        ["b", figure.height],
+      ];
+    case "triangle":
+      return [
+        ["g", figure.base],
+        ["h", figure.height],
+        ["a", figure.left],
+        ["c", figure.right],
+      ];
+    case "parallelogram":
+      return [
+        ["g", figure.base],
+        ["h", figure.height],
+        ["s", figure.side],
+      ];
+    case "trapezoid":
+      return [
+        ["a", figure.top],
+        ["b", figure.bottom],
+        ["h", figure.height],
+        ["c", figure.left],
+        ["d", figure.right],
+      ];
+    case "circle":
+      return figure.showDiameter
+        ? [["d", figure.radius * 2]]
+        : [["r", figure.radius]];
+    case "lshape":
+      return [
+        ["l", figure.width],
+        ["b", figure.height],
+        ["hak l", figure.cutWidth],
+        ["hak b", figure.cutHeight],
+      ];
+    case "house":
+      return [
+        ["l", figure.width],
+        ["b", figure.height],
+        ["tag h", figure.roofHeight],
+        ["tag s", figure.roofSide],
+      ];
+  }
+}
+
+export function formatQuestion(task: GeometriTask) {
+  const quantity = task.quantity === "area" ? "Areal" : "Omkreds";
+  const measures = figureMeasures(task.figure)
+    .map(([name, value]) => `${name} = ${formatLength(value, task.unit)}`)
+    .join(", ");
+  return `${quantity} af ${shapeNames[task.figure.shape]} (${measures})`;
+}
+
+function normalizeUnit(raw: string) {
+  return raw
+    .toLowerCase()
+    .replace(/\s+/g, "")
+    .replace("^2", "2")
+    .replace("²", "2");
+}
+
+function parseAnswer(raw: string) {
+  // Mellemrum i tallet er kun tusindtalsgrupper, fx 12 500 cm².
+  const match = raw
+    .trim()
+    .match(/^(-?(?:\d{1,3}(?: \d{3})+|\d*)(?:[.,]\d+)?)\s*(.*)$/);
+  if (!match || /^\d/.test(match[2])) return null;
+  const number = normalizeNumberString(match[1]);
+  if (!number) return null;
+  return { value: Number(number), unit: normalizeUnit(match[2]) };
+}
+
+function checkGeometri(task: GeometriTask, answer: string): CheckResult {
+  const parsed = parseAnswer(answer);
+  if (!parsed) {
+    return {
+      type: "error",
+      message: "Skriv et tal og en enhed, fx 12,5 cm².",
+    };
+  }
+  const expectedUnit = unitLabel(task);
+  if (!parsed.unit) {
+    return { type: "error", message: `Husk enheden, fx ${expectedUnit}.` };
+  }
+
+  const withPi = computeValue(task, Math.PI);
+  const tolerance =
+    task.figure.shape === "circle" ? Math.max(0.01, task.expected * 0.005) : 0;
+  const valueOk =
+    Math.abs(parsed.value - task.expected) <= tolerance + 1e-9 ||
+    Math.abs(parsed.value - withPi) <= tolerance + 1e-9;
+
+  if (parsed.unit !== normalizeUnit(expectedUnit)) {
+    return {
+      type: "wrong",
+      message: valueOk
+        ? `Tallet er rigtigt, men enheden skal være ${expectedUnit}.`
+        : `Tjek både tal og enhed. Svaret skal være i ${expectedUnit}.`,
+    };
+  }
+  return valueOk ? { type: "correct" } : { type: "wrong" };
+}
+
+function isGeometriTask(value: unknown): value is GeometriTask {
+  return (
+    isRecord(value) &&
+    isRecord(value.figure) &&
+    typeof value.figure.shape === "string" &&
+    (value.quantity === "area" || value.quantity === "perimeter") &&
+    typeof value.unit === "string" &&
+    typeof value.expected === "number"
+  );
+}
+
+export const geometriModule: TaskModule<GeometriSettings, GeometriTask> = {
+  id: "geometri",
+  trackLabel: "Geometri",
+  track: {
+    title: "Geometri",
+    description: "Areal og omkreds i overskuelige trin.",
+    href: "/geometri",
+    tag: "Aktiv",
+    accent: "from-yellow-100/70 via-white to-orange-100/60",
+  },
+  defaultSettings: {
+    shape: "mixed",
+    quantity: "mixed",
+    range: "small",
+  },
+  emptyAnswer: "",
+  generate: buildTask,
+  check: checkGeometri,
+  format: formatQuestion,
+  label: (task) =>
+    `Geometri (${task.quantity === "area" ? "areal" : "omkreds"})`,
+  formatAnswer: (answer) => answer,
+  solution: (task) =>
+    `Facit: ${formatDisplay(String(task.expected))} ${unitLabel(task)}.`,
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isGeometriTask),
+};
@@ -0,0 +1,599 @@
+import {
+  gcd,
+  normalizeNumberString,
+  randInt,
+  random,
+} from "@/utils/taskHelpers";
+import { checkSteps, splitSteps } from "@/utils/linearEquation";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type TaskModule,
+} from "@/utils/taskModule";
+
+export type LigningerOperation =
+  | "oneStep"
+  | "twoStep"
+  | "parens"
+  | "fractions"
+  | "inequalities"
+  | "mixed";
+export type LigningerRange = "small" | "medium" | "large";
+// "steps": eleven skriver hver omformet ligning paa sin egen linje.
+export type LigningerMode = "answer" | "steps";
+
+export type Fraction = { n: number; d: number };
+export type Relation = "<" | ">" | "≤" | "≥";
+
+export type LigningerTask = {
+  operation: Exclude<LigningerOperation, "mixed">;
+  equation: string;
+  expected: number;
+  // Eksakt loesning, naar den ikke er et helt tal (fx -3/4).
+  fraction?: Fraction;
+  // Uligheder: loesningen er "x relation expected".
+  relation?: Relation;
+  label: string;
+  steps?: boolean;
+};
+
+const operationLabels: Record<LigningerTask["operation"], string> = {
+  oneStep: "1 trin",
+  twoStep: "2 trin",
+  parens: "parenteser",
+  fractions: "brøk/decimal",
+  inequalities: "uligheder",
+};
+
+export type LigningerSettings = {
+  operation: LigningerOperation;
+  range: LigningerRange;
+  mode: LigningerMode;
+};
+
+const ranges: Record<
+  LigningerRange,
+  { xMin: number; xMax: number; coeffMax: number; offsetMax: number }
+> = {
+  small: { xMin: 1, xMax: 12, coeffMax: 5, offsetMax: 10 },
+  medium: { xMin: 2, xMax: 25, coeffMax: 8, offsetMax: 20 },
+  large: { xMin: 5, xMax: 50, coeffMax: 12, offsetMax: 35 },
+};
+
+function buildOneStep(range: LigningerRange): LigningerTask {
+  const { xMin, xMax, coeffMax, offsetMax } = ranges[range];
+  const kinds = ["add", "sub", "mul", "div"] as const;
+  for (let i = 0; i < 200; i += 1) {
+    const kind = kinds[randInt(0, kinds.length - 1)];
+    if (kind === "add") {
+      const x = randInt(xMin, xMax);
+      const b = randInt(1, offsetMax);
+      const c = x + b;
+      return {
+        operation: "oneStep",
+        equation: `x + ${b} = ${c}`,
+        expected: x,
+        label: "1 trin",
+      };
+    }
+    if (kind === "sub") {
+      const x = randInt(Math.max(2, xMin), xMax);
+      const bMax = Math.min(offsetMax, x - 1);
+      if (bMax < 1) continue;
+      const b = randInt(1, bMax);
+      const c = x - b;
+      return {
+        operation: "oneStep",
+        equation: `x - ${b} = ${c}`,
+        expected: x,
+        label: "1 trin",
+      };
+    }
+    if (kind === "mul") {
+      const x = randInt(xMin, xMax);
+      const a = randInt(2, coeffMax);
+      const c = a * x;
+      return {
+        operation: "oneStep",
+        equation: `${a}x = ${c}`,
+        expected: x,
+        label: "1 trin",
+      };
+    }
+    const a = randInt(2, coeffMax);
+    const cMax = Math.floor(xMax / a);
+    if (cMax < xMin) continue;
+    const c = randInt(xMin, cMax);
+    const x = a * c;
+    return {
+      operation: "oneStep",
+      equation: `x / ${a} = ${c}`,
+      expected: x,
+      label: "1 trin",
+    };
+  }
+  return {
+    operation: "oneStep",
+    equation: "x + 1 = 2",
+    expected: 1,
+    label: "1 trin",
+  };
+}
+
+function buildTwoStep(range: LigningerRange): LigningerTask {
+  const { xMin, xMax, coeffMax, offsetMax } = ranges[range];
+  const kinds = ["add", "sub", "bothSides"] as const;
+  for (let i = 0; i < 200; i += 1) {
+    const kind = kinds[randInt(0, kinds.length - 1)];
+    const x = randInt(xMin, xMax);
+    const a = randInt(2, coeffMax);
+    const formatSide = (coeff: number, constant: number) => {
+      if (constant === 0) return `${coeff}x`;
+      const sign = constant > 0 ? "+" : "-";
+      return `${coeff}x ${sign} ${Math.abs(constant)}`;
+    };
+    if (kind === "bothSides") {
+      let c = randInt(2, coeffMax);
+      if (coeffMax <= 2 && c === a) continue;
+      while (c === a) {
+        c = randInt(2, coeffMax);
+      }
+      const b = randInt(-offsetMax, offsetMax);
+      if (b === 0) continue;
+      const d = (a - c) * x + b;
+      if (d === 0 || Math.abs(d) > offsetMax) continue;
+      return {
+        operation: "twoStep",
+        equation: `${formatSide(a, b)} = ${formatSide(c, d)}`,
+        expected: x,
+        label: "2 trin",
+      };
+    }
+    if (kind === "add") {
+      const b = randInt(1, offsetMax);
+      const c = a * x + b;
+      return {
+        operation: "twoStep",
+        equation: `${a}x + ${b} = ${c}`,
+        expected: x,
+        label: "2 trin",
+      };
+    }
+    const bMax = Math.min(offsetMax, a * x - 1);
+    if (bMax < 1) continue;
+    const b = randInt(1, bMax);
+    const c = a * x - b;
+    return {
+      operation: "twoStep",
+      equation: `${a}x - ${b} = ${c}`,
+      expected: x,
+      label: "2 trin",
+    };
+  }
+  return {
+    operation: "twoStep",
+    equation: "2x + 3 = 11",
+    expected: 4,
+    label: "2 trin",
+  };
+}
+
+// Stoerre x-vaerdier giver for store tal, naar der ganges ind i parenteser.
+const PARENS_X_MAX = 20;
+const FRACTION_DEN_MAX: Record<LigningerRange, number> = {
+  small: 4,
+  medium: 6,
+  large: 10,
+};
+
+function randNonZero(max: number) {
+  const value = randInt(1, max);
+  return random() < 0.5 ? -value : value;
+}
+
+export function formatCoeff(coeff: number, variable = "x") {
+  if (coeff === 1) return variable;
+  if (coeff === -1) return `-${variable}`;
+  return `${coeff}${variable}`;
+}
+
+function formatLinear(coeff: number, constant: number) {
+  if (coeff === 0) return String(constant);
+  const x = formatCoeff(coeff);
+  if (constant === 0) return x;
+  return `${x} ${constant > 0 ? "+" : "-"} ${Math.abs(constant)}`;
+}
+
+function formatParens(coeff: number, constant: number) {
+  const sign = constant > 0 ? "+" : "-";
+  return `${coeff === 1 ? "" : coeff}(x ${sign} ${Math.abs(constant)})`;
+}
+
+function withConstant(expression: string, constant: number) {
+  if (constant === 0) return expression;
+  return `${expression} ${constant > 0 ? "+" : "-"} ${Math.abs(constant)}`;
+}
+
+function buildParens(range: LigningerRange): LigningerTask {
+  const { coeffMax, offsetMax } = ranges[range];
+  const xMax = Math.min(ranges[range].xMax, PARENS_X_MAX);
+  const bMax = Math.max(2, Math.floor(offsetMax / 2));
+  const kinds = ["oneSide", "bothSides", "twoParens"] as const;
+  for (let i = 0; i < 200; i += 1) {
+    const kind = kinds[randInt(0, kinds.length - 1)];
+    const x = randNonZero(xMax);
+    const a = randInt(2, coeffMax);
+    const b = randNonZero(bMax);
+    const left = formatParens(a, b);
+    const value = a * (x + b);
+    let right = String(value);
+    if (kind === "bothSides") {
+      const c = randInt(1, coeffMax);
+      if (c === a) continue;
+      right = formatLinear(c, value - c * x);
+    }
+    if (kind === "twoParens") {
+      const c = randInt(2, coeffMax);
+      const e = randNonZero(bMax);
+      if (c === a) continue;
+      right = withConstant(formatParens(c, e), value - c * (x + e));
+    }
+    return {
+      operation: "parens",
+      equation: `${left} = ${right}`,
+      expected: x,
+      label: "Parenteser",
+    };
+  }
+  return {
+    operation: "parens",
+    equation: "3(x - 2) = 2x + 5",
+    expected: 11,
+    label: "Parenteser",
+  };
+}
+
+function buildFractions(range: LigningerRange): LigningerTask {
+  const { coeffMax, offsetMax } = ranges[range];
+  const kinds = ["oneSide", "bothSides", "parens"] as const;
+  for (let i = 0; i < 200; i += 1) {
+    const kind = kinds[randInt(0, kinds.length - 1)];
+    const d = randInt(2, FRACTION_DEN_MAX[range]);
+    const n = randNonZero(d * 3);
+    if (gcd(Math.abs(n), d) !== 1) continue;
+    // Koefficienten (eller forskellen mellem dem) er et multiplum af naevneren,
+    // saa alle konstanter i ligningen bliver hele tal.
+    const k = d * randInt(1, 2);
+    const b = randNonZero(offsetMax);
+    const kx = (k / d) * n;
+    let equation = `${formatLinear(k, b)} = ${kx + b}`;
+    if (kind === "bothSides") {
+      const c = randInt(1, coeffMax);
+      equation = `${formatLinear(c + k, b)} = ${formatLinear(c, kx + b)}`;
+    }
+    if (kind === "parens") {
+      equation = `${formatParens(k, b)} = ${kx + k * b}`;
+    }
+    return {
+      operation: "fractions",
+      equation,
+      expected: n / d,
+      fraction: { n, d },
+      label: "Brøk/decimal",
+    };
+  }
+  return {
+    operation: "fractions",
+    equation: "4x + 1 = -2",
+    expected: -0.75,
+    fraction: { n: -3, d: 4 },
+    label: "Brøk/decimal",
+  };
+}
+
+const FLIPPED: Record<Relation, Relation> = {
+  "<": ">",
+  ">": "<",
+  "≤": "≥",
+  "≥": "≤",
+};
+
+function buildInequality(range: LigningerRange): LigningerTask {
+  const { xMax, coeffMax, offsetMax } = ranges[range];
+  const relations = Object.keys(FLIPPED) as Relation[];
+  for (let i = 0; i < 200; i += 1) {
+    const relation = relations[randInt(0, relations.length - 1)];
+    const x = randNonZero(Math.min(xMax, PARENS_X_MAX));
+    // Negativ koefficient i ca. halvdelen, saa tegnet skal vendes.
+    const a = randNonZero(coeffMax);
+    if (Math.abs(a) === 1) continue;
+    const b = randNonZero(offsetMax);
+    const left = formatLinear(a, b);
+    let right = String(a * x + b);
+    let coeff = a;
+    if (random() < 0.4) {
+      const c = randNonZero(coeffMax);
+      if (c === a) continue;
+      right = formatLinear(c, (a - c) * x + b);
+      coeff = a - c;
+    }
+    return {
+      operation: "inequalities",
+      equation: `${left} ${relation} ${right}`,
+      expected: x,
+      relation: coeff < 0 ? FLIPPED[relation] : relation,
+      label: "Uligheder",
+    };
+  }
+  return {
+    operation: "inequalities",
+    equation: "-2x + 3 < 11",
+    expected: -4,
+    relation: ">",
+    label: "Uligheder",
+  };
+}
+
+function simplify({ n, d }: Fraction): Fraction {
+  const sign = d < 0 ? -1 : 1;
+  const g = gcd(Math.abs(n), Math.abs(d)) || 1;
+  return { n: (sign * n) / g, d: (sign * d) / g };
+}
+
+function expectedFraction(task: LigningerTask): Fraction {
+  return task.fraction ?? { n: task.expected, d: 1 };
+}
+
+// Accepterer "5", "-3/4", "-0,75" og "x = -3/4".
+// Et decimaltal er endeligt, naar naevneren kun har primfaktorerne 2 og 5.
+function isTerminating({ d }: Fraction) {
+  let rest = Math.abs(d);
+  while (rest % 2 === 0) rest /= 2;
+  while (rest % 5 === 0) rest /= 5;
+  return rest === 1;
+}
+
+function parseSolution(raw: string) {
+  const s = raw
+    .trim()
+    .replace(/^x\s*=/i, "")
+    .replace(/[\u2212\u2013]/g, "-")
+    .replace(/\s+/g, "");
+  const fraction = s.match(/^(-?\d+)\/(-?\d+)$/);
+  if (fraction) {
+    const d = Number(fraction[2]);
+    if (d === 0) return null;
+    return { value: simplify({ n: Number(fraction[1]), d }), decimals: null };
+  }
+  const normalized = normalizeNumberString(s);
+  if (!normalized) return null;
+  const decimals = normalized.split(".")[1]?.length ?? 0;
+  const scale = 10 ** decimals;
+  return {
+    value: simplify({ n: Math.round(Number(normalized) * scale), d: scale }),
+    decimals,
+  };
+}
+
+function checkLigning(task: LigningerTask, answer: string) {
+  const parsed = parseSolution(answer);
+  if (!parsed) {
+    return {
+      type: "error" as const,
+      message: "Skriv et tal eller en brøk, fx -3/4 eller -0,75.",
+    };
+  }
+  const expected = expectedFraction(task);
+  if (parsed.value.n === expected.n && parsed.value.d === expected.d) {
+    return { type: "correct" as const };
+  }
+  // Uendelige decimaltal (fx 2/3) godkendes afrundet til mindst 2 decimaler.
+  // Endelige som 3/8 = 0,375 skal skrives helt.
+  if (
+    parsed.decimals !== null &&
+    parsed.decimals >= 2 &&
+    !isTerminating(expected)
+  ) {
+    const value = parsed.value.n / parsed.value.d;
+    const tolerance = 0.5 * 10 ** -parsed.decimals + 1e-9;
+    if (Math.abs(value - task.expected) <= tolerance) {
+      return { type: "correct" as const };
+    }
+  }
+  return { type: "wrong" as const };
+}
+
+// Accepterer "x < 4", "x >= -2", "x ≤ 3/2" og "4 > x".
+export function parseInequality(raw: string) {
+  const s = raw
+    .trim()
+    .replace(/<=|=</g, "≤")
+    .replace(/>=|=>/g, "≥")
+    .replace(/[\u2212\u2013]/g, "-");
+  const xFirst = s.match(/^x\s*([<>≤≥])\s*(.+)$/i);
+  const xLast = s.match(/^(.+?)\s*([<>≤≥])\s*x$/i);
+  const relation: Relation | null = xFirst
+    ? (xFirst[1] as Relation)
+    : xLast
+    ? FLIPPED[xLast[2] as Relation]
+    : null;
+  const boundary = xFirst?.[2] ?? xLast?.[1];
+  if (!relation || !boundary) return null;
+  const parsed = parseSolution(boundary);
+  if (!parsed) return null;
+  return { relation, value: parsed.value, text: boundary.trim() };
+}
+
+// Intervalskrivemaade som i danske lærebøger: x < 4 er ]-∞; 4[.
+export function formatInterval(relation: Relation, boundary: string) {
+  if (relation === "<") return `]-∞; ${boundary}[`;
+  if (relation === "≤") return `]-∞; ${boundary}]`;
+  if (relation === ">") return `]${boundary}; ∞[`;
+  return `[${boundary}; ∞[`;
+}
+
+// Tallinjen gaar fra -extent til extent, rundet op til hele tiere.
+export function numberLineExtent(task: LigningerTask) {
+  return Math.max(10, Math.ceil((Math.abs(task.expected) + 2) / 10) * 10);
+}
+
+function checkInequality(task: LigningerTask, answer: string) {
+  const parsed = parseInequality(answer);
+  if (!parsed || !task.relation) {
+    return {
+      type: "error" as const,
+      message: "Skriv fx x < 4 eller x ≥ -2 - eller marker på tallinjen.",
+    };
+  }
+  const expected = expectedFraction(task);
+  const boundaryOk =
+    parsed.value.n === expected.n && parsed.value.d === expected.d;
+  if (boundaryOk && parsed.relation === task.relation) {
+    return { type: "correct" as const };
+  }
+  const pointsLeft = (relation: Relation) => relation === "<" || relation === "≤";
+  if (boundaryOk && pointsLeft(parsed.relation) !== pointsLeft(task.relation)) {
+    return {
+      type: "wrong" as const,
+      message:
+        "Grænsen er rigtig, men tegnet vender forkert. Husk at vende det, når du ganger eller dividerer med et negativt tal.",
+    };
+  }
+  if (boundaryOk) {
+    return {
+      type: "wrong" as const,
+      message: "Grænsen er rigtig - men er grænsen selv med i løsningen?",
+    };
+  }
+  return { type: "wrong" as const };
+}
+
+function formatInequalityAnswer(answer: string) {
+  const parsed = parseInequality(answer);
+  if (!parsed) return answer;
+  return `x ${parsed.relation} ${parsed.text} · ${formatInterval(
+    parsed.relation,
+    parsed.text
+  )}`;
+}
+
+function checkLigningSteps(task: LigningerTask, answer: string) {
+  if (splitSteps(answer).length === 0) {
+    return {
+      type: "error" as const,
+      message: "Skriv en omformet ligning pr. linje, fx 2x = 8.",
+    };
+  }
+  const result = checkSteps(task.equation, answer);
+  if (result.error) {
+    return { type: "error" as const, message: result.error };
+  }
+  if (result.firstError !== null) {
+    const unreadable = result.statuses[result.firstError] === "unreadable";
+    return {
+      type: unreadable ? ("error" as const) : ("wrong" as const),
+      message: result.message,
+    };
+  }
+  if (!result.solved) {
+    return {
+      type: "error" as const,
+      message: "Alle linjer holder indtil videre - fortsæt, til x står alene.",
+    };
+  }
+  return { type: "correct" as const, message: "Alle trin holder. Flot!" };
+}
+
+function formatSolution(task: LigningerTask) {
+  if (task.relation) {
+    const boundary = String(task.expected);
+    return `x ${task.relation} ${boundary}, dvs. ${formatInterval(
+      task.relation,
+      boundary
+    )}`;
+  }
+  if (!task.fraction) return `x = ${task.expected}`;
+  const { n, d } = task.fraction;
+  const decimal = Number(task.expected.toFixed(4));
+  const exact = Math.abs(decimal - task.expected) < 1e-12;
+  const shown = (exact ? String(decimal) : task.expected.toFixed(2)).replace(
+    ".",
+    ","
+  );
+  return `x = ${n}/${d} ${exact ? "=" : "≈"} ${shown}`;
+}
+
+function buildTask(settings: LigningerSettings): LigningerTask {
+  const task = buildEquation(settings);
+  // Trinvis tjek understoetter kun ligninger, ikke uligheder.
+  return settings.mode === "steps" && !task.relation
+    ? { ...task, steps: true }
+    : task;
+}
+
+function buildEquation(settings: LigningerSettings): LigningerTask {
+  if (settings.operation === "parens") return buildParens(settings.range);
+  if (settings.operation === "fractions") return buildFractions(settings.range);
+  if (settings.operation === "inequalities") {
+    return buildInequality(settings.range);
+  }
+  const op =
+    settings.operation === "mixed"
+      ? random() < 0.5
+        ? "oneStep"
+        : "twoStep"
+      : settings.operation;
+  return op === "oneStep"
+    ? buildOneStep(settings.range)
+    : buildTwoStep(settings.range);
+}
+
+function isLigningerTask(value: unknown): value is LigningerTask {
+  return (
+    isRecord(value) &&
+    (value.operation === "oneStep" ||
+      value.operation === "twoStep" ||
+      value.operation === "parens" ||
+      value.operation === "fractions" ||
+      value.operation === "inequalities") &&
+    typeof value.equation === "string" &&
+    typeof value.expected === "number"
+  );
+}
+
+export const ligningerModule: TaskModule<LigningerSettings, LigningerTask> = {
+  id: "ligninger",
+  trackLabel: "Ligninger",
+  track: {
+    title: "Ligninger",
+    description: "Løs ligninger og uligheder - fra 1 trin til parenteser og brøker.",
+    href: "/ligninger",
+    tag: "Aktiv",
+    accent: "from-lime-100/80 via-white to-emerald-100/50",
+  },
+  defaultSettings: {
+    operation: "mixed",
+    range: "small",
+    mode: "answer",
+  },
+  emptyAnswer: "",
+  generate: buildTask,
+  check: (task, answer) => {
+    if (task.relation) return checkInequality(task, answer);
+    return task.steps
+      ? checkLigningSteps(task, answer)
+      : checkLigning(task, answer);
+  },
+  format: (task) => task.equation,
+  label: (task) =>
+    `Ligninger (${operationLabels[task.operation]}${task.steps ? ", trinvis" : ""})`,
+  // Trinene vises paa én linje i laererpanelet.
+  formatAnswer: (answer, task) => {
+    if (task.relation) return formatInequalityAnswer(answer);
+    return task.steps ? splitSteps(answer).join(" ⇒ ") : answer;
+  },
+  solution: (task) => `Facit: ${formatSolution(task)}`,
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isLigningerTask),
+};
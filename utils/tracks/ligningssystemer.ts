@@ -0,0 +1,209 @@
+import { randInt } from "@/utils/taskHelpers";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type CheckResult,
+  type TaskModule,
+} from "@/utils/taskModule";
+import { formatCoeff } from "@/utils/tracks/ligninger";
+
+export type SystemRange = "small" | "medium" | "large";
+export type SystemMethod = "" | "substitution" | "elimination" | "graphical";
+
+// a*x + b*y = c
+export type SystemEquation = { a: number; b: number; c: number };
+
+export type SystemTask = {
+  equations: [SystemEquation, SystemEquation];
+  x: number;
+  y: number;
+  range: SystemRange;
+};
+
+export type SystemSettings = {
+  range: SystemRange;
+  // Tegn begge linjer i koordinatsystemet paa whiteboardet.
+  showLines: boolean;
+};
+
+export type SystemAnswer = {
+  x: string;
+  y: string;
+  method: SystemMethod;
+};
+
+export const methodLabels: Record<Exclude<SystemMethod, "">, string> = {
+  substitution: "Substitutionsmetoden",
+  elimination: "Lige store koefficienters metode",
+  graphical: "Grafisk løsning",
+};
+
+const ranges: Record<
+  SystemRange,
+  { solMin: number; solMax: number; coeffMax: number; negativeCoeffs: boolean }
+> = {
+  small: { solMin: 0, solMax: 8, coeffMax: 2, negativeCoeffs: false },
+  medium: { solMin: -6, solMax: 10, coeffMax: 4, negativeCoeffs: true },
+  large: { solMin: -12, solMax: 12, coeffMax: 7, negativeCoeffs: true },
+};
+
+const rangeLabels: Record<SystemRange, string> = {
+  small: "level 1",
+  medium: "level 2",
+  large: "level 3",
+};
+
+function randCoeff(max: number, allowNegative: boolean) {
+  const value = randInt(1, max);
+  return allowNegative && randInt(0, 1) === 1 ? -value : value;
+}
+
+function formatTerm(coeff: number, variable: string, first: boolean) {
+  if (first) return formatCoeff(coeff, variable);
+  const sign = coeff > 0 ? "+" : "-";
+  return `${sign} ${formatCoeff(Math.abs(coeff), variable)}`;
+}
+
+export function formatSystemEquation({ a, b, c }: SystemEquation) {
+  const left = [
+    a !== 0 ? formatTerm(a, "x", true) : "",
+    b !== 0 ? formatTerm(b, "y", a === 0) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return `${left} = ${c}`;
+}
+
+function buildTask(settings: SystemSettings): SystemTask {
+  const { solMin, solMax, coeffMax, negativeCoeffs } = ranges[settings.range];
+  for (let i = 0; i < 200; i += 1) {
+    const x = randInt(solMin, solMax);
+    const y = randInt(solMin, solMax);
+    const a1 = randCoeff(coeffMax, false);
+    const b1 = randCoeff(coeffMax, negativeCoeffs);
+    const a2 = randCoeff(coeffMax, negativeCoeffs);
+    // Paa level 1 har anden ligning altid minus foran y (fx x - y = 2).
+    const b2 =
+      settings.range === "small"
+        ? -randCoeff(coeffMax, false)
+        : randCoeff(coeffMax, true);
+    // Determinanten maa ikke vaere 0, ellers er linjerne parallelle.
+    if (a1 * b2 - a2 * b1 === 0) continue;
+    return {
+      equations: [
+        { a: a1, b: b1, c: a1 * x + b1 * y },
+        { a: a2, b: b2, c: a2 * x + b2 * y },
+      ],
+      x,
+      y,
+      range: settings.range,
+    };
+  }
+  return {
+    equations: [
+      { a: 1, b: 1, c: 7 },
+      { a: 1, b: -1, c: 1 },
+    ],
+    x: 4,
+    y: 3,
+    range: settings.range,
+  };
+}
+
+function parseInteger(raw: string) {
+  const s = raw.trim().replace(/[−–]/g, "-").replace(/\s+/g, "");
+  if (!/^-?\d+$/.test(s)) return null;
+  return Number(s);
+}
+
+function satisfies({ a, b, c }: SystemEquation, x: number, y: number) {
+  return a * x + b * y === c;
+}
+
+function checkSystem(task: SystemTask, answer: SystemAnswer): CheckResult {
+  if (!answer.x.trim() || !answer.y.trim()) {
+    return { type: "error", message: "Skriv både x og y." };
+  }
+  const x = parseInteger(answer.x);
+  const y = parseInteger(answer.y);
+  if (x === null || y === null) {
+    return { type: "error", message: "x og y er hele tal i disse opgaver." };
+  }
+  if (x === task.x && y === task.y) return { type: "correct" };
+  const [first, second] = task.equations;
+  if (satisfies(first, x, y) || satisfies(second, x, y)) {
+    return {
+      type: "wrong",
+      message: `(${x}, ${y}) passer i ${
+        satisfies(first, x, y) ? "første" : "anden"
+      } ligning, men ikke i ${
+        satisfies(first, x, y) ? "anden" : "første"
+      }. Løsningen skal passe i begge.`,
+    };
+  }
+  if (x === task.x) {
+    return { type: "wrong", message: "x passer - tjek y igen." };
+  }
+  if (y === task.y) {
+    return { type: "wrong", message: "y passer - tjek x igen." };
+  }
+  return { type: "wrong" };
+}
+
+function formatAnswer(answer: SystemAnswer) {
+  const pair = `(${answer.x.trim() || "?"}, ${answer.y.trim() || "?"})`;
+  return answer.method ? `${pair} · ${methodLabels[answer.method]}` : pair;
+}
+
+function isEquation(value: unknown): value is SystemEquation {
+  return (
+    isRecord(value) &&
+    typeof value.a === "number" &&
+    typeof value.b === "number" &&
+    typeof value.c === "number"
+  );
+}
+
+function isSystemTask(value: unknown): value is SystemTask {
+  return (
+    isRecord(value) &&
+    Array.isArray(value.equations) &&
+    value.equations.length === 2 &&
+    value.equations.every(isEquation) &&
+    typeof value.x === "number" &&
+    typeof value.y === "number" &&
+    (value.range === "small" ||
+      value.range === "medium" ||
+      value.range === "large")
+  );
+}
+
+export const ligningssystemerModule: TaskModule<
+  SystemSettings,
+  SystemTask,
+  SystemAnswer
+> = {
+  id: "ligningssystemer",
+  trackLabel: "Ligningssystemer",
+  track: {
+    title: "Ligningssystemer",
+    description: "To ligninger med to ubekendte - løs med regning eller graf.",
+    href: "/ligningssystemer",
+    tag: "Aktiv",
+    accent: "from-teal-100/80 via-white to-sky-100/60",
+  },
+  defaultSettings: {
+    range: "small",
+    showLines: true,
+  },
+  emptyAnswer: { x: "", y: "", method: "" },
+  generate: buildTask,
+  check: checkSystem,
+  format: (task) => task.equations.map(formatSystemEquation).join(" og "),
+  label: (task) => `Ligningssystemer (${rangeLabels[task.range]})`,
+  formatAnswer,
+  solution: (task) => `Facit: x = ${task.x}, y = ${task.y}.`,
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isSystemTask),
+};
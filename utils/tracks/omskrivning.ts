@@ -0,0 +1,344 @@
+import { gcd, normalizeNumberString, randInt } from "@/utils/taskHelpers";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type CheckResult,
+  type TaskModule,
+} from "@/utils/taskModule";
+
+export type OmskrivningDifficulty = "easy" | "medium" | "hard" | "hardPlus";
+export type GivenType = "fraction" | "decimal" | "percent";
+
+export type Fraction = { n: number; d: number };
+// Periodiske decimaltal gemmes med perioden i parentes, fx "0.1(6)".
+export type OmskrivningTask = {
+  givenType: GivenType;
+  fraction: Fraction;
+  decimal: string;
+  percent: string;
+  label: string;
+};
+
+export type OmskrivningSettings = {
+  difficulty: OmskrivningDifficulty;
+};
+
+export type OmskrivningAnswer = {
+  fraction: string;
+  decimal: string;
+  percent: string;
+};
+
+const difficulties: Record<
+  OmskrivningDifficulty,
+  { denominators: number[]; numeratorMaxFactor: number; label: string }
+> = {
+  easy: {
+    denominators: [2, 4, 5, 10, 20, 25, 50],
+    numeratorMaxFactor: 1,
+    label: "Let",
+  },
+  medium: {
+    denominators: [4, 5, 8, 10, 16, 20, 25, 40, 50, 125],
+    numeratorMaxFactor: 2,
+    label: "Mellem",
+  },
+  hard: {
+    denominators: [8, 10, 16, 20, 32, 40, 50, 64, 100, 125, 200, 250, 500],
+    numeratorMaxFactor: 3,
+    label: "Svær",
+  },
+  // Naevnere med andre primfaktorer end 2 og 5 giver periodiske decimaltal.
+  hardPlus: {
+    denominators: [3, 6, 7, 9, 11, 12, 15, 30],
+    numeratorMaxFactor: 2,
+    label: "Svær+",
+  },
+};
+
+export function simplifyFraction(f: Fraction): Fraction {
+  const sign = f.d < 0 ? -1 : 1;
+  const n = f.n * sign;
+  const d = f.d * sign;
+  const g = gcd(n, d);
+  return { n: n / g, d: d / g };
+}
+
+export function decimalFromFraction(n: number, d: number) {
+  const sign = n < 0 ? "-" : "";
+  let nn = Math.abs(n);
+  let dd = Math.abs(d);
+  const g = gcd(nn, dd);
+  nn /= g;
+  dd /= g;
+  let tmp = dd;
+  let pow2 = 0;
+  let pow5 = 0;
+  while (tmp % 2 === 0) {
+    pow2 += 1;
+    tmp /= 2;
+  }
+  while (tmp % 5 === 0) {
+    pow5 += 1;
+    tmp /= 5;
+  }
+  if (tmp !== 1) return sign + repeatingDecimal(nn, dd);
+  const k = Math.max(pow2, pow5);
+  const scale = 10 ** k;
+  const value = (nn * scale) / dd;
+  let digits = String(value);
+  if (k === 0) return sign + digits;
+  if (digits.length <= k) digits = digits.padStart(k + 1, "0");
+  const intPart = digits.slice(0, digits.length - k);
+  const fracPart = digits.slice(digits.length - k);
+  let s = `${intPart}.${fracPart}`;
+  s = s.replace(/0+$/, "").replace(/\.$/, "");
+  return sign + s;
+}
+
+// Lang division, til en rest gentager sig: 1/6 -> "0.1(6)".
+function repeatingDecimal(n: number, d: number) {
+  const digits: string[] = [];
+  const seen = new Map<number, number>();
+  let rest = n % d;
+  while (rest !== 0 && !seen.has(rest)) {
+    seen.set(rest, digits.length);
+    rest *= 10;
+    digits.push(String(Math.floor(rest / d)));
+    rest %= d;
+  }
+  const intPart = String(Math.floor(n / d));
+  const start = seen.get(rest) ?? digits.length;
+  const head = digits.slice(0, start).join("");
+  if (start === digits.length) return head ? `${intPart}.${head}` : intPart;
+  return `${intPart}.${head}(${digits.slice(start).join("")})`;
+}
+
+export function splitPeriod(value: string) {
+  const match = value.match(/^(.*?)\((\d+)\)$/);
+  return match
+    ? { head: match[1], period: match[2] }
+    : { head: value, period: "" };
+}
+
+// Korteste periode, der gentages mindst to gange til sidst: "1666" -> 1(6).
+function inferPeriod(digits: string) {
+  for (let length = 1; length * 2 <= digits.length; length += 1) {
+    let start = digits.length - length;
+    while (start > 0 && digits[start - 1] === digits[start - 1 + length]) {
+      start -= 1;
+    }
+    if (digits.length - start >= length * 2) {
+      return `${digits.slice(0, start)}(${digits.slice(start, start + length)})`;
+    }
+  }
+  return null;
+}
+
+// Godtager 0,25 samt perioder som 0,(3), 0,3̅ (streg over) og 0,333...
+// Resultatet er paa formen "-0.1(6)" eller null.
+function normalizeDecimalInput(raw: string) {
+  let s = raw.trim().replace(/\s+/g, "").replace(",", ".");
+  const sign = s.startsWith("-") ? "-" : "";
+  if (sign) s = s.slice(1);
+  if (s.startsWith(".")) s = `0${s}`;
+  let match = s.match(/^(\d+)\.(\d*)\((\d+)\)$/);
+  if (match) return `${sign}${match[1]}.${match[2]}(${match[3]})`;
+  match = s.match(/^(\d+)\.(\d*)((?:\d[\u0304\u0305])+)$/);
+  if (match) {
+    const period = match[3].replace(/[\u0304\u0305]/g, "");
+    return `${sign}${match[1]}.${match[2]}(${period})`;
+  }
+  match = s.match(/^(\d+)\.(\d+)(?:\.\.\.|…)$/);
+  if (match) {
+    const fraction = inferPeriod(match[2]);
+    return fraction ? `${sign}${match[1]}.${fraction}` : null;
+  }
+  return normalizeNumberString(sign + s);
+}
+
+// "0.1(6)" -> (16 - 1) / 90 = 1/6. Terminerende decimaltal har tom periode.
+export function fractionFromDecimal(value: string): Fraction | null {
+  const match = value.match(/^(-?)(\d+)(?:\.(\d*)(?:\((\d+)\))?)?$/);
+  if (!match) return null;
+  const [, sign, intPart, head = "", period = ""] = match;
+  const scale = 10 ** head.length;
+  const nines = period ? 10 ** period.length - 1 : 1;
+  const headValue = Number(intPart + head);
+  const n = period ? Number(intPart + head + period) - headValue : headValue;
+  const f = simplifyFraction({ n, d: scale * nines });
+  return sign ? { n: -f.n, d: f.d } : f;
+}
+
+function periodicSteps(value: string) {
+  const { head, period } = splitPeriod(value);
+  if (!period) return null;
+  const [intPart, prefix] = head.split(".");
+  const headDigits = Number(intPart + prefix);
+  const all = Number(intPart + prefix + period);
+  const d = `${"9".repeat(period.length)}${"0".repeat(prefix.length)}`;
+  return headDigits === 0 ? `${all}/${d}` : `(${all} - ${headDigits})/${d}`;
+}
+
+function sameFraction(a: Fraction, b: Fraction) {
+  const x = simplifyFraction(a);
+  const y = simplifyFraction(b);
+  return x.n === y.n && x.d === y.d;
+}
+
+// Et afrundet svar paa et periodisk tal faar en hjaelp i stedet for bare "forkert".
+function roundedPeriodic(expected: string, parsed: string) {
+  if (!splitPeriod(expected).period || parsed.includes("(")) return false;
+  const decimals = parsed.split(".")[1]?.length ?? 0;
+  const target = fractionFromDecimal(expected);
+  if (!target || decimals < 2) return false;
+  return Math.abs(Number(parsed) - target.n / target.d) < 10 ** -decimals;
+}
+
+const PERIOD_HINT = "Tallet er periodisk - marker perioden, fx 0,(3) eller 0,333...";
+
+export function formatFractionDisplay(value: Fraction) {
+  if (value.d === 1) return String(value.n);
+  return `${value.n}/${value.d}`;
+}
+
+export function formatDecimalDisplay(value: string) {
+  return value.replace(".", ",");
+}
+
+function parseFraction(raw: string): Fraction | null {
+  const s = raw.trim().replace(/\s+/g, "");
+  if (!s) return null;
+  if (s.includes("/")) {
+    const [nRaw, dRaw] = s.split("/");
+    if (!nRaw || !dRaw) return null;
+    const n = Number.parseInt(nRaw, 10);
+    const d = Number.parseInt(dRaw, 10);
+    if (!Number.isFinite(n) || !Number.isFinite(d) || d === 0) return null;
+    return simplifyFraction({ n, d });
+  }
+  const n = Number.parseInt(s, 10);
+  if (!Number.isFinite(n)) return null;
+  return simplifyFraction({ n, d: 1 });
+}
+
+function buildTask(settings: OmskrivningSettings): OmskrivningTask {
+  const { denominators, numeratorMaxFactor, label } =
+    difficulties[settings.difficulty];
+  const d = denominators[randInt(0, denominators.length - 1)];
+  const maxNumerator = d * numeratorMaxFactor;
+  const n = randInt(1, Math.max(1, maxNumerator));
+  const fraction = simplifyFraction({ n, d });
+  const decimal = decimalFromFraction(fraction.n, fraction.d);
+  const percent = decimalFromFraction(fraction.n * 100, fraction.d);
+  const givenType = (["fraction", "decimal", "percent"] as const)[
+    randInt(0, 2)
+  ];
+  return { givenType, fraction, decimal, percent, label };
+}
+
+export function givenDisplay(task: OmskrivningTask) {
+  if (task.givenType === "fraction") {
+    return formatFractionDisplay(task.fraction);
+  }
+  if (task.givenType === "decimal") {
+    return formatDecimalDisplay(task.decimal);
+  }
+  return `${formatDecimalDisplay(task.percent)}%`;
+}
+
+function checkOmskrivning(
+  task: OmskrivningTask,
+  answer: OmskrivningAnswer
+): CheckResult {
+  if (task.givenType !== "fraction") {
+    const parsed = parseFraction(answer.fraction);
+    if (!parsed) {
+      return { type: "error", message: "Skriv en gyldig brøk som fx 1/2." };
+    }
+    const expected = simplifyFraction(task.fraction);
+    if (parsed.n !== expected.n || parsed.d !== expected.d) {
+      return { type: "wrong" };
+    }
+  }
+
+  if (task.givenType !== "decimal") {
+    const parsed = normalizeDecimalInput(answer.decimal);
+    const value = parsed ? fractionFromDecimal(parsed) : null;
+    if (!parsed || !value) {
+      return {
+        type: "error",
+        message: "Skriv et gyldigt decimaltal, fx 0,25 eller 0,(3).",
+      };
+    }
+    if (!sameFraction(value, task.fraction)) {
+      return roundedPeriodic(task.decimal, parsed)
+        ? { type: "wrong", message: PERIOD_HINT }
+        : { type: "wrong" };
+    }
+  }
+
+  if (task.givenType !== "percent") {
+    const parsed = normalizeDecimalInput(answer.percent.replace("%", ""));
+    const value = parsed ? fractionFromDecimal(parsed) : null;
+    if (!parsed || !value) {
+      return { type: "error", message: "Skriv et gyldigt procenttal." };
+    }
+    const expected = { n: task.fraction.n * 100, d: task.fraction.d };
+    if (!sameFraction(value, expected)) {
+      return roundedPeriodic(task.percent, parsed)
+        ? { type: "wrong", message: PERIOD_HINT }
+        : { type: "wrong" };
+    }
+  }
+
+  return { type: "correct" };
+}
+
+function isOmskrivningTask(value: unknown): value is OmskrivningTask {
+  return (
+    isRecord(value) &&
+    typeof value.givenType === "string" &&
+    isRecord(value.fraction) &&
+    typeof value.decimal === "string" &&
+    typeof value.percent === "string"
+  );
+}
+
+export const omskrivningModule: TaskModule<
+  OmskrivningSettings,
+  OmskrivningTask,
+  OmskrivningAnswer
+> = {
+  id: "omskrivning",
+  trackLabel: "Omskrivning",
+  track: {
+    title: "Omskrivning",
+    description: "Omskriv mellem decimaltal, procent og broeker.",
+    href: "/omskrivning",
+    tag: "Aktiv",
+    accent: "from-cyan-100/80 via-white to-sky-100/60",
+  },
+  defaultSettings: { difficulty: "easy" },
+  emptyAnswer: { fraction: "", decimal: "", percent: "" },
+  generate: buildTask,
+  check: checkOmskrivning,
+  format: (task) => `Omskriv: ${givenDisplay(task)}`,
+  label: (task) => `Omskrivning (${task.label})`,
+  formatAnswer: (answer) =>
+    [answer.fraction, answer.decimal, answer.percent]
+      .filter(Boolean)
+      .join(" | "),
+  solution: (task) => {
+    const fractionText = formatFractionDisplay(task.fraction);
+    const decimalText = formatDecimalDisplay(task.decimal);
+    const percentText = `${formatDecimalDisplay(task.percent)}%`;
+    const steps = periodicSteps(task.decimal);
+    return steps
+      ? `Facit: ${decimalText} = ${steps} = ${fractionText} = ${percentText}.`
+      : `Facit: ${fractionText} = ${decimalText} = ${percentText}.`;
+  },
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isOmskrivningTask),
+};
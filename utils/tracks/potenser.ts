@@ -0,0 +1,360 @@
+import { toSuperscript } from "@/utils/expression";
+import {
+  formatDisplay,
+  normalizeNumberString,
+  randInt,
+  random,
+} from "@/utils/taskHelpers";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type CheckResult,
+  type TaskModule,
+} from "@/utils/taskModule";
+
+export type PotenserOperation =
+  | "multiply"
+  | "divide"
+  | "mixed"
+  | "toScientific"
+  | "fromScientific"
+  | "sciMultiply"
+  | "sciDivide";
+export type PotenserRange = "small" | "medium" | "large";
+
+// Et tal paa formen mantisse · 10^eksponent, fx 3,2 · 10⁵.
+export type Scientific = { mantissa: string; exponent: number };
+
+// expected er altid svarets vaerdi skrevet som almindeligt tal. Ved
+// toScientific er base tallet, der skal omskrives, og exponent facit; ved
+// fromScientific er base mantissen. Ved gange/dividere staar tallene i a og b.
+export type PotenserTask = {
+  operation: Exclude<PotenserOperation, "mixed">;
+  base: string;
+  exponent: number;
+  expected: string;
+  a?: Scientific;
+  b?: Scientific;
+};
+
+export type PotenserAnswer = { value: string; mantissa: string; exponent: string };
+
+export const operationLabels: Record<PotenserTask["operation"], string> = {
+  multiply: "Gange med 10ⁿ",
+  divide: "Divider med 10ⁿ",
+  toScientific: "Til videnskabelig notation",
+  fromScientific: "Fra videnskabelig notation",
+  sciMultiply: "Gange i videnskabelig notation",
+  sciDivide: "Divider i videnskabelig notation",
+};
+
+export type PotenserSettings = {
+  operation: PotenserOperation;
+  range: PotenserRange;
+};
+
+const ranges: Record<
+  PotenserRange,
+  { expMax: number; digits: [number, number]; decMax: number }
+> = {
+  small: { expMax: 3, digits: [1, 2], decMax: 1 },
+  medium: { expMax: 6, digits: [2, 3], decMax: 2 },
+  large: { expMax: 9, digits: [2, 4], decMax: 3 },
+};
+
+function shiftDecimal(base: string, exponent: number, op: "multiply" | "divide") {
+  const normalized = normalizeNumberString(base);
+  if (!normalized) return "0";
+  const parts = normalized.split(".");
+  let digits = parts.join("");
+  const pos = parts[0].startsWith("-") ? parts[0].length - 1 : parts[0].length;
+  const negative = parts[0].startsWith("-");
+  if (negative) digits = digits.replace("-", "");
+
+  let newPos = op === "multiply" ? pos + exponent : pos - exponent;
+  if (newPos <= 0) {
+    digits = "0".repeat(-newPos) + digits;
+    newPos = 0;
+  }
+  if (newPos >= digits.length) {
+    digits = digits + "0".repeat(newPos - digits.length);
+    newPos = digits.length;
+  }
+
+  const withDot =
+    newPos === digits.length
+      ? digits
+      : `${digits.slice(0, newPos)}.${digits.slice(newPos)}`;
+  const result = normalizeNumberString(withDot) ?? "0";
+  return negative ? `-${result}` : result;
+}
+
+function multiplyDecimals(a: string, b: string) {
+  const scaled = (value: string) => {
+    const [int, frac = ""] = value.split(".");
+    return { digits: Number(`${int}${frac}`), scale: frac.length };
+  };
+  const x = scaled(a);
+  const y = scaled(b);
+  return shiftDecimal(String(x.digits * y.digits), x.scale + y.scale, "divide");
+}
+
+// Omskriver et positivt tal til videnskabelig notation med 1 <= mantisse < 10.
+export function toScientificParts(value: string): Scientific {
+  const normalized = normalizeNumberString(value) ?? "0";
+  const [int, frac = ""] = normalized.split(".");
+  const leadingZeros = frac.length - frac.replace(/^0+/, "").length;
+  const exponent = int !== "0" ? int.length - 1 : -(leadingZeros + 1);
+  return {
+    mantissa: shiftDecimal(normalized, exponent, "divide"),
+    exponent,
+  };
+}
+
+export function fromScientific(value: Scientific) {
+  return shiftDecimal(value.mantissa, value.exponent, "multiply");
+}
+
+export function formatScientific(value: Scientific) {
+  return `${formatDisplay(value.mantissa)} · 10${toSuperscript(value.exponent)}`;
+}
+
+function randomExponent(range: PotenserRange) {
+  const max = ranges[range].expMax;
+  const exponent = randInt(1, max);
+  return random() < 0.5 ? exponent : -exponent;
+}
+
+// Mantisse med et antal betydende cifre, fx 3 -> "4.07".
+function randomMantissa(digitsCount: number) {
+  let digits = String(randInt(1, 9));
+  for (let i = 1; i < digitsCount; i += 1) {
+    digits += String(randInt(0, 9));
+  }
+  return shiftDecimal(digits, digitsCount - 1, "divide");
+}
+
+function randomScientific(range: PotenserRange, digitsCount?: number) {
+  const [min, max] = ranges[range].digits;
+  return {
+    mantissa: randomMantissa(digitsCount ?? randInt(min, max)),
+    exponent: randomExponent(range),
+  };
+}
+
+function buildScientificTask(
+  operation: PotenserTask["operation"],
+  range: PotenserRange
+): PotenserTask {
+  if (operation === "toScientific" || operation === "fromScientific") {
+    const value = randomScientific(range);
+    const decimal = fromScientific(value);
+    const base = operation === "toScientific" ? decimal : value.mantissa;
+    return { operation, base, exponent: value.exponent, expected: decimal };
+  }
+  // Faerre cifre end ved omskrivning, saa produktet kan regnes i hovedet.
+  const digitsCount = ranges[range].digits[0];
+  const b = randomScientific(range, digitsCount);
+  const first = randomScientific(range, digitsCount);
+  const product = toScientificParts(
+    fromScientific({
+      mantissa: multiplyDecimals(first.mantissa, b.mantissa),
+      exponent: first.exponent + b.exponent,
+    })
+  );
+  // Ved division bygges a som facit gange b, saa kvotienten gaar op.
+  const a = operation === "sciMultiply" ? first : product;
+  const result = operation === "sciMultiply" ? product : first;
+  return {
+    operation,
+    base: "",
+    exponent: 0,
+    expected: fromScientific(result),
+    a,
+    b,
+  };
+}
+
+function randomBase(range: PotenserRange) {
+  const { digits, decMax } = ranges[range];
+  const digitsCount = randInt(digits[0], digits[1]);
+  const decimals = randInt(0, decMax);
+  const first = String(randInt(1, 9));
+  let rest = "";
+  for (let i = 1; i < digitsCount; i += 1) {
+    rest += String(randInt(0, 9));
+  }
+  let frac = "";
+  for (let i = 0; i < decimals; i += 1) {
+    frac += String(randInt(0, 9));
+  }
+  const base = decimals > 0 ? `${first}${rest}.${frac}` : `${first}${rest}`;
+  return normalizeNumberString(base) ?? "1";
+}
+
+function buildTask(settings: PotenserSettings): PotenserTask {
+  const { operation } = settings;
+  if (
+    operation !== "mixed" &&
+    operation !== "multiply" &&
+    operation !== "divide"
+  ) {
+    return buildScientificTask(operation, settings.range);
+  }
+  const op =
+    operation === "mixed"
+      ? random() < 0.5
+        ? "multiply"
+        : "divide"
+      : operation;
+  const exponent = randInt(1, ranges[settings.range].expMax);
+  const base = randomBase(settings.range);
+  const expected = shiftDecimal(base, exponent, op);
+  return { operation: op, exponent, base, expected };
+}
+
+// Ved disse opgaver skal svaret skrives i videnskabelig notation.
+export function answersScientific(operation: PotenserTask["operation"]) {
+  return (
+    operation === "toScientific" ||
+    operation === "sciMultiply" ||
+    operation === "sciDivide"
+  );
+}
+
+function parseExponent(raw: string) {
+  const s = raw.trim().replace(/[−–]/g, "-");
+  return /^-?\d+$/.test(s) ? Number(s) : null;
+}
+
+function checkScientific(task: PotenserTask, answer: PotenserAnswer): CheckResult {
+  const mantissa = normalizeNumberString(answer.mantissa);
+  const exponent = parseExponent(answer.exponent);
+  if (!mantissa || exponent === null) {
+    return {
+      type: "error",
+      message: "Skriv både tallet foran og eksponenten, fx 3,2 og 5.",
+    };
+  }
+  const value = fromScientific({ mantissa, exponent });
+  const expected = normalizeNumberString(task.expected) ?? task.expected;
+  if (value !== expected) return { type: "wrong" };
+  const size = Math.abs(Number(mantissa));
+  if (size < 1 || size >= 10) {
+    return {
+      type: "wrong",
+      message:
+        "Værdien er rigtig - men tallet foran 10'eren skal være mindst 1 og mindre end 10.",
+    };
+  }
+  return { type: "correct" };
+}
+
+function scientificSolution(task: PotenserTask) {
+  const result = formatScientific(toScientificParts(task.expected));
+  if (!task.a || !task.b) return `Facit: ${result}.`;
+  const multiply = task.operation === "sciMultiply";
+  const mantissa = multiply
+    ? multiplyDecimals(task.a.mantissa, task.b.mantissa)
+    : normalizeNumberString(
+        String(
+          Math.round((Number(task.a.mantissa) / Number(task.b.mantissa)) * 1e6) /
+            1e6
+        )
+      ) ?? "0";
+  const exponent = multiply
+    ? task.a.exponent + task.b.exponent
+    : task.a.exponent - task.b.exponent;
+  const steps = `${formatDisplay(task.a.mantissa)} ${
+    multiply ? "×" : "÷"
+  } ${formatDisplay(task.b.mantissa)} = ${formatDisplay(
+    mantissa
+  )}, og eksponenterne ${multiply ? "lægges sammen" : "trækkes fra"}: ${
+    task.a.exponent
+  } ${multiply ? "+" : "-"} ${
+    task.b.exponent < 0 ? `(${task.b.exponent})` : task.b.exponent
+  } = ${exponent}`;
+  const raw = formatScientific({ mantissa, exponent });
+  // Mantissen rykkes paa plads, hvis den ikke ligger mellem 1 og 10.
+  const shift = raw === result ? "" : `, så ${raw} = ${result}`;
+  return `Facit: ${result} (${steps}${shift}).`;
+}
+
+function isPotenserTask(value: unknown): value is PotenserTask {
+  return (
+    isRecord(value) &&
+    typeof value.operation === "string" &&
+    value.operation in operationLabels &&
+    typeof value.base === "string" &&
+    typeof value.exponent === "number" &&
+    typeof value.expected === "string"
+  );
+}
+
+export const potenserModule: TaskModule<
+  PotenserSettings,
+  PotenserTask,
+  PotenserAnswer
+> = {
+  id: "potenser",
+  trackLabel: "Potenser af 10",
+  track: {
+    title: "Potenser af 10",
+    description: "Bliv sikker på potensregning og videnskabelig notation.",
+    href: "/potenser",
+    tag: "Aktiv",
+    accent: "from-violet-100/70 via-white to-rose-100/60",
+  },
+  defaultSettings: {
+    operation: "mixed",
+    range: "small",
+  },
+  emptyAnswer: { value: "", mantissa: "", exponent: "" },
+  generate: buildTask,
+  check: (task, answer) => {
+    if (answersScientific(task.operation)) return checkScientific(task, answer);
+    const parsed = normalizeNumberString(answer.value);
+    if (!parsed) {
+      return {
+        type: "error",
+        message: "Skriv et gyldigt tal. Brug komma ved decimaltal.",
+      };
+    }
+    const expected = normalizeNumberString(task.expected) ?? task.expected;
+    return parsed === expected ? { type: "correct" } : { type: "wrong" };
+  },
+  format: (task) => {
+    if (task.a && task.b) {
+      const symbol = task.operation === "sciMultiply" ? "×" : "÷";
+      return `${formatScientific(task.a)} ${symbol} ${formatScientific(task.b)}`;
+    }
+    if (task.operation === "toScientific") {
+      return `${formatDisplay(task.base)} i videnskabelig notation`;
+    }
+    if (task.operation === "fromScientific") {
+      return formatScientific({ mantissa: task.base, exponent: task.exponent });
+    }
+    const base = formatDisplay(task.base);
+    const symbol = task.operation === "multiply" ? "×" : "÷";
+    return `${base} ${symbol} 10${toSuperscript(task.exponent)}`;
+  },
+  label: (task) =>
+    task.operation === "multiply" || task.operation === "divide"
+      ? "Potenser af 10"
+      : operationLabels[task.operation],
+  formatAnswer: (answer, task) => {
+    if (!answersScientific(task.operation)) return answer.value;
+    if (!answer.mantissa && !answer.exponent) return "";
+    const exponent = parseExponent(answer.exponent);
+    return exponent === null
+      ? `${answer.mantissa} · 10^${answer.exponent}`
+      : `${answer.mantissa} · 10${toSuperscript(exponent)}`;
+  },
+  solution: (task) =>
+    answersScientific(task.operation)
+      ? scientificSolution(task)
+      : `Facit: ${formatDisplay(task.expected)}.`,
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isPotenserTask),
+};
@@ -0,0 +1,461 @@
+import { readSuperscript } from "@/utils/expression";
+import { gcd, randInt, shuffle } from "@/utils/taskHelpers";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type CheckResult,
+  type TaskModule,
+} from "@/utils/taskModule";
+import { formatExponent } from "@/utils/tracks/regnehierarkiet";
+
+export type PotensRule =
+  | "product"
+  | "quotient"
+  | "powerOfPower"
+  | "productPower"
+  | "zero"
+  | "negative";
+
+export type PotensreglerBase = "number" | "letter";
+
+// Facit gemmes som grundtal -> eksponent, fx { a: 7 } eller { 2: 3, 5: 3 }.
+// Et tomt facit betyder 1.
+export type PotensreglerTask = {
+  rule: PotensRule;
+  symbolic: boolean;
+  expression: string;
+  expected: Record<string, number>;
+  hint: string;
+};
+
+export type PotensreglerSettings = {
+  rule: PotensRule | "mixed";
+  base: PotensreglerBase;
+};
+
+export const ruleLabels: Record<PotensRule, string> = {
+  product: "aⁿ · aᵐ",
+  quotient: "aⁿ : aᵐ",
+  powerOfPower: "(aⁿ)ᵐ",
+  productPower: "(ab)ⁿ",
+  zero: "a⁰",
+  negative: "Negative eksponenter",
+};
+
+const RULES = Object.keys(ruleLabels) as PotensRule[];
+const LETTERS = ["a", "b", "c", "k", "p", "y"];
+
+type Fraction = { n: number; d: number };
+
+function simplify(f: Fraction): Fraction {
+  const sign = f.d < 0 ? -1 : 1;
+  const g = gcd(f.n, f.d);
+  return { n: (sign * f.n) / g, d: (sign * f.d) / g };
+}
+
+function pick<T>(items: T[]) {
+  return items[randInt(0, items.length - 1)];
+}
+
+function power(base: string, exponent: number) {
+  return exponent === 1 ? base : `${base}${formatExponent(exponent)}`;
+}
+
+export function formatPower(expected: Record<string, number>, symbolic: boolean) {
+  const factors = Object.entries(expected)
+    .filter(([, exponent]) => exponent !== 0)
+    .map(([base, exponent]) => power(base, exponent));
+  if (factors.length === 0) return "1";
+  return factors.join(symbolic ? "" : " · ");
+}
+
+function valueOf(expected: Record<string, number>): Fraction {
+  return Object.entries(expected).reduce<Fraction>(
+    (acc, [base, exponent]) => {
+      const p = Number(base) ** Math.abs(exponent);
+      return simplify(
+        exponent < 0 ? { n: acc.n, d: acc.d * p } : { n: acc.n * p, d: acc.d }
+      );
+    },
+    { n: 1, d: 1 }
+  );
+}
+
+function formatValue(value: Fraction) {
+  return value.d === 1 ? String(value.n) : `${value.n}/${value.d}`;
+}
+
+function buildRule(rule: PotensRule, symbolic: boolean): PotensreglerTask {
+  const letters = shuffle(LETTERS);
+  const a = symbolic ? letters[0] : String(randInt(2, 5));
+  const b = symbolic ? letters[1] : String(randInt(2, 5));
+  const n = randInt(2, symbolic ? 9 : 5);
+  const m = randInt(2, symbolic ? 9 : 4);
+  const base = { rule, symbolic };
+  switch (rule) {
+    case "product":
+      return {
+        ...base,
+        expression: `${power(a, n)} · ${power(a, m)}`,
+        expected: { [a]: n + m },
+        hint: `Samme grundtal ganges: eksponenterne lægges sammen, ${n} + ${m} = ${
+          n + m
+        }.`,
+      };
+    case "quotient": {
+      const top = n + m;
+      return {
+        ...base,
+        expression: `${power(a, top)} : ${power(a, m)}`,
+        expected: { [a]: n },
+        hint: `Samme grundtal divideres: eksponenterne trækkes fra, ${top} - ${m} = ${
+          n
+        }.`,
+      };
+    }
+    case "powerOfPower": {
+      const inner = symbolic ? n : randInt(2, 3);
+      return {
+        ...base,
+        expression: `(${power(a, inner)})${formatExponent(m)}`,
+        expected: { [a]: inner * m },
+        hint: `Potens af en potens: eksponenterne ganges, ${inner} · ${m} = ${
+          inner * m
+        }.`,
+      };
+    }
+    case "productPower": {
+      const other = a === b ? String(Number(b) + 1) : b;
+      const exponent = symbolic ? n : randInt(2, 3);
+      return {
+        ...base,
+        expression: symbolic
+          ? `(${a}${other})${formatExponent(exponent)}`
+          : `(${a} · ${other})${formatExponent(exponent)}`,
+        expected: { [a]: exponent, [other]: exponent },
+        hint: "Eksponenten ganges ind på hver faktor i parentesen.",
+      };
+    }
+    case "zero": {
+      const variant = randInt(1, 3);
+      const expression =
+        variant === 1
+          ? power(a, 0)
+          : variant === 2
+          ? `${power(a, n)} : ${power(a, n)}`
+          : `(${power(a, n)})${formatExponent(0)}`;
+      return {
+        ...base,
+        expression,
+        expected: {},
+        hint: "Alle tal (undtagen 0) opløftet i 0 giver 1.",
+      };
+    }
+    case "negative": {
+      const variant = randInt(1, 2);
+      if (variant === 1) {
+        return {
+          ...base,
+          expression: power(a, -m),
+          expected: { [a]: -m },
+          hint: `En negativ eksponent betyder 1 divideret med potensen: ${power(
+            a,
+            -m
+          )} = 1/${power(a, m)}.`,
+        };
+      }
+      const top = randInt(1, m - 1);
+      return {
+        ...base,
+        expression: `${power(a, top)} : ${power(a, m)}`,
+        expected: { [a]: top - m },
+        hint: `Eksponenterne trækkes fra, ${top} - ${m} = ${top - m}, og ${power(
+          a,
+          top - m
+        )} = 1/${power(a, m - top)}.`,
+      };
+    }
+  }
+}
+
+function buildTask(settings: PotensreglerSettings): PotensreglerTask {
+  const rule = settings.rule === "mixed" ? pick(RULES) : settings.rule;
+  return buildRule(rule, settings.base === "letter");
+}
+
+type Factor = { base: string; exponent: number; explicit: boolean };
+
+// Elevens svar som en liste af faktorer; naevnerens faktorer faar negativ
+// eksponent. nested markerer en parentes med eksponent, fx (ab)³.
+type ParsedPower = {
+  factors: Factor[];
+  nested: boolean;
+  denominator: number;
+  negative: boolean;
+};
+
+type Token =
+  | { kind: "num"; value: string }
+  | { kind: "letter"; value: string }
+  | { kind: "exp"; value: number }
+  | { kind: "mul" }
+  | { kind: "div" }
+  | { kind: "open" }
+  | { kind: "close" };
+
+function tokenize(input: string): Token[] | null {
+  const s = input.replace(/[−–]/g, "-").replace(/\s+/g, "");
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < s.length) {
+    const rest = s.slice(i);
+    const number = rest.match(/^\d+(?:[.,]\d+)?/);
+    const exponent = rest.match(/^\^\(?(-?\d+)\)?/);
+    const superscript = readSuperscript(rest);
+    if (number) {
+      tokens.push({ kind: "num", value: number[0].replace(",", ".") });
+      i += number[0].length;
+    } else if (exponent) {
+      tokens.push({ kind: "exp", value: Number(exponent[1]) });
+      i += exponent[0].length;
+    } else if (superscript.length > 0) {
+      if (superscript.value === null) return null;
+      tokens.push({ kind: "exp", value: superscript.value });
+      i += superscript.length;
+    } else {
+      const ch = s[i].toLowerCase();
+      if (/[a-z]/.test(ch)) tokens.push({ kind: "letter", value: ch });
+      else if ("·*×".includes(ch)) tokens.push({ kind: "mul" });
+      else if ("/:".includes(ch)) tokens.push({ kind: "div" });
+      else if (ch === "(") tokens.push({ kind: "open" });
+      else if (ch === ")") tokens.push({ kind: "close" });
+      else return null;
+      i += 1;
+    }
+  }
+  return tokens;
+}
+
+export function parsePowerAnswer(input: string): ParsedPower | null {
+  const trimmed = input.trim().replace(/^[−–]/, "-");
+  const negative = trimmed.startsWith("-");
+  const tokens = tokenize(negative ? trimmed.slice(1) : trimmed) ?? [];
+  if (tokens.length === 0) return null;
+  let pos = 0;
+  let nested = false;
+
+  function product(): Factor[] | null {
+    const factors: Factor[] = [];
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.kind === "mul") {
+        if (factors.length === 0) return null;
+        pos += 1;
+        continue;
+      }
+      if (token.kind === "div" || token.kind === "close") break;
+      const next = factor();
+      if (!next) return null;
+      factors.push(...next);
+    }
+    return factors.length > 0 ? factors : null;
+  }
+
+  function factor(): Factor[] | null {
+    const token = tokens[pos];
+    pos += 1;
+    let inner: Factor[] | null = null;
+    if (token?.kind === "num" || token?.kind === "letter") {
+      inner = [{ base: token.value, exponent: 1, explicit: false }];
+    } else if (token?.kind === "open") {
+      inner = product();
+      if (!inner || tokens[pos]?.kind !== "close") return null;
+      pos += 1;
+    }
+    if (!inner) return null;
+    const exp = tokens[pos];
+    if (exp?.kind !== "exp") return inner;
+    pos += 1;
+    if (token.kind === "open") nested = true;
+    return inner.map((f) => ({
+      base: f.base,
+      exponent: f.exponent * exp.value,
+      explicit: true,
+    }));
+  }
+
+  const top = product();
+  if (!top) return null;
+  let bottom: Factor[] = [];
+  if (tokens[pos]?.kind === "div") {
+    pos += 1;
+    const parsed = product();
+    if (!parsed) return null;
+    bottom = parsed.map((f) => ({ ...f, exponent: -f.exponent }));
+  }
+  if (pos !== tokens.length) return null;
+  return {
+    factors: [...top, ...bottom],
+    nested,
+    denominator: bottom.length,
+    negative,
+  };
+}
+
+function parsedValue(parsed: ParsedPower): Fraction {
+  const value = parsed.factors
+    .filter((f) => !/[a-z]/.test(f.base))
+    .reduce<Fraction>(
+      (acc, f) => {
+        const [int, frac = ""] = f.base.split(".");
+        const scale = 10 ** frac.length;
+        const base = simplify({ n: Number(`${int}${frac}`), d: scale });
+        const k = Math.abs(f.exponent);
+        const p = { n: base.n ** k, d: base.d ** k };
+        return simplify(
+          f.exponent < 0
+            ? { n: acc.n * p.d, d: acc.d * p.n }
+            : { n: acc.n * p.n, d: acc.d * p.d }
+        );
+      },
+      { n: 1, d: 1 }
+    );
+  return parsed.negative ? { n: -value.n, d: value.d } : value;
+}
+
+function letterExponents(parsed: ParsedPower) {
+  const exponents: Record<string, number> = {};
+  parsed.factors
+    .filter((f) => /[a-z]/.test(f.base))
+    .forEach((f) => {
+      exponents[f.base] = (exponents[f.base] ?? 0) + f.exponent;
+    });
+  return exponents;
+}
+
+function sameExponents(a: Record<string, number>, b: Record<string, number>) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) => (a[key] ?? 0) === (b[key] ?? 0));
+}
+
+// Svaret er reduceret, naar hvert grundtal kun staar én gang og ingen
+// parentes har en eksponent. En ren vaerdi maa hoejst vaere en broek.
+function isSimplified(parsed: ParsedPower) {
+  const bases = parsed.factors.map((f) => f.base);
+  if (parsed.nested || new Set(bases).size !== bases.length) return false;
+  if (parsed.factors.some((f) => f.explicit)) return true;
+  return parsed.factors.length - parsed.denominator <= 1 && parsed.denominator <= 1;
+}
+
+function checkPotensregler(
+  task: PotensreglerTask,
+  answer: string
+): CheckResult {
+  const parsed = parsePowerAnswer(answer);
+  if (!parsed) {
+    return {
+      type: "error",
+      message: task.symbolic
+        ? "Skriv svaret som en potens, fx a^5."
+        : "Skriv svaret som en potens, fx 3^5, eller som en værdi.",
+    };
+  }
+  const letters = letterExponents(parsed);
+  const value = parsedValue(parsed);
+  const expected = valueOf(task.symbolic ? {} : task.expected);
+  const sameValue = value.n === expected.n && value.d === expected.d;
+  const correct = task.symbolic
+    ? sameValue && sameExponents(letters, task.expected)
+    : sameValue && Object.keys(letters).length === 0;
+  if (!correct) {
+    if (task.rule === "negative" && value.n < 0) {
+      return {
+        type: "wrong",
+        message:
+          "En negativ eksponent giver ikke et negativt tal - den betyder 1 divideret med potensen.",
+      };
+    }
+    return { type: "wrong" };
+  }
+  if (task.rule === "zero" && parsed.factors.some((f) => f.explicit)) {
+    return {
+      type: "wrong",
+      message: "Skriv værdien - hvad giver en potens med eksponenten 0?",
+    };
+  }
+  if (parsed.nested) {
+    return {
+      type: "wrong",
+      message: "Rigtig værdi - men gang eksponenten ind i parentesen.",
+    };
+  }
+  if (!isSimplified(parsed)) {
+    return {
+      type: "wrong",
+      message: task.symbolic
+        ? "Rigtig værdi - men saml det, så hvert grundtal kun står én gang."
+        : "Rigtig værdi - men skriv det som én potens eller regn værdien helt ud.",
+    };
+  }
+  return { type: "correct" };
+}
+
+// Viser ^-eksponenter som haevet skrift, fx "a^-2" -> "a⁻²".
+export function prettyPower(input: string) {
+  return input.replace(/\^\(?(-?\d+)\)?/g, (_, exponent: string) =>
+    formatExponent(Number(exponent))
+  );
+}
+
+function isPotensreglerTask(value: unknown): value is PotensreglerTask {
+  return (
+    isRecord(value) &&
+    typeof value.rule === "string" &&
+    value.rule in ruleLabels &&
+    typeof value.symbolic === "boolean" &&
+    typeof value.expression === "string" &&
+    isRecord(value.expected) &&
+    typeof value.hint === "string"
+  );
+}
+
+function normalizeSettings(raw: unknown): PotensreglerSettings {
+  if (!isRecord(raw)) return { rule: "mixed", base: "number" };
+  const rule =
+    typeof raw.rule === "string" && raw.rule in ruleLabels
+      ? (raw.rule as PotensRule)
+      : "mixed";
+  return { rule, base: raw.base === "letter" ? "letter" : "number" };
+}
+
+export const potensreglerModule: TaskModule<
+  PotensreglerSettings,
+  PotensreglerTask
+> = {
+  id: "potensregler",
+  trackLabel: "Potensregneregler",
+  track: {
+    title: "Potensregneregler",
+    description: "Gange, dividere og opløfte potenser - med tal og bogstaver.",
+    href: "/potensregler",
+    tag: "Aktiv",
+    accent: "from-fuchsia-100/70 via-white to-violet-100/60",
+  },
+  defaultSettings: { rule: "mixed", base: "number" },
+  emptyAnswer: "",
+  normalizeSettings,
+  generate: buildTask,
+  check: checkPotensregler,
+  format: (task) => task.expression,
+  label: (task) => `Potensregler (${ruleLabels[task.rule]})`,
+  formatAnswer: (answer) => prettyPower(answer),
+  solution: (task) => {
+    const result = formatPower(task.expected, task.symbolic);
+    const value = task.symbolic ? "" : ` = ${formatValue(valueOf(task.expected))}`;
+    const shown = result === "1" ? "1" : `${result}${value}`;
+    return `Facit: ${shown}. ${task.hint}`;
+  },
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isPotensreglerTask),
+};
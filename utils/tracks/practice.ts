@@ -0,0 +1,485 @@
+import {
+  generateTask,
+  Operation,
+  OperationSel,
+  DigitsSel,
+  DecimalsSel,
+  BorrowMode,
+  DivisionLevel,
+  normalizeRange,
+  type OperandRange,
+} from "@/utils/generateTask";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type TaskModule,
+} from "@/utils/taskModule";
+import {
+  buildColumnLayout,
+  checkColumns,
+  columnResultText,
+  emptyColumnAnswer,
+  type ColumnAnswer,
+} from "@/utils/columnArithmetic";
+import {
+  buildLongDivision,
+  checkLongDivision,
+  emptyLongDivisionAnswer,
+  longDivisionProgress,
+  type LongDivisionAnswer,
+} from "@/utils/longDivision";
+
+export type PracticeLayout = "horizontal" | "vertical" | "columns";
+// digits = cifre/decimaler-vaelgerne; custom = egne min/max pr. led.
+export type RangeMode = "digits" | "custom";
+
+export type PracticeTask = {
+  operation: Operation;
+  layout?: PracticeLayout;
+  divisionLevel?: DivisionLevel;
+  problem: { operands: number[]; operator: string };
+};
+
+export type PracticeSettings = {
+  operation: OperationSel;
+  digitsSel: DigitsSel;
+  decimalsSel: DecimalsSel;
+  borrowMode: BorrowMode;
+  divisionLevel: DivisionLevel;
+  layout: PracticeLayout;
+  negatives: boolean;
+  operandCount: number;
+  rangeMode: RangeMode;
+  ranges: OperandRange[];
+};
+
+export type PracticePreset = {
+  id: string;
+  label: string;
+  settings: Partial<PracticeSettings>;
+};
+
+// columns bruges kun, naar opgaven stilles op med mente/laan, og division
+// kun ved trinvis lang division.
+export type PracticeAnswer = {
+  value: string;
+  columns?: ColumnAnswer;
+  division?: LongDivisionAnswer;
+};
+
+export const operationLabel: Record<Operation, string> = {
+  addition: "Plus",
+  subtraction: "Minus",
+  multiplication: "Gange",
+  division: "Division",
+};
+
+// ---------- Helpers ----------
+// Accepterer ogsaa typografisk minus/tankestreg og "(-3)".
+export function parseDa(input: string): number {
+  if (typeof input !== "string") return NaN;
+  let s = input.trim().replace(/\s+/g, "").replace(/[\u2212\u2013]/g, "-");
+  if (/^\(.*\)$/.test(s)) s = s.slice(1, -1);
+  if (!/^[+-]?[\d.,]+$/.test(s)) return NaN;
+  return Number(s.replace(",", "."));
+}
+
+function decimalsCount(n: number): number {
+  const s = String(n);
+  const i = s.indexOf(".");
+  return i === -1 ? 0 : s.length - i - 1;
+}
+
+// Runder symmetrisk om 0, saa -2,5 bliver -3 ligesom 2,5 bliver 3.
+function roundTo(n: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return (Math.sign(n) * Math.round(Math.abs(n) * factor)) / factor;
+}
+
+function truncTo(n: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.trunc(n * factor) / factor;
+}
+
+export function fmtDa(n: number, decimals?: number): string {
+  const d = typeof decimals === "number" ? decimals : decimalsCount(n);
+  const s = Math.abs(n).toFixed(d);
+  // Intet fortegn foran et tal, der rundes til 0.
+  const sign = n < 0 && Number(s) !== 0 ? "-" : "";
+  return `${sign}${s.replace(".", ",")}`;
+}
+
+function hasNegative(task: PracticeTask) {
+  return task.problem.operands.some((n) => n < 0);
+}
+
+function computeExpected(operation: Operation, operands: number[]) {
+  switch (operation) {
+    case "addition":
+      return operands.reduce((a, b) => a + b, 0);
+    case "subtraction":
+      return operands.slice(1).reduce((a, b) => a - b, operands[0]);
+    case "multiplication":
+      return operands.reduce((a, b) => a * b, 1);
+    case "division":
+      return operands.slice(1).reduce((a, b) => a / b, operands[0]);
+  }
+}
+
+export function answerPrecision(task: PracticeTask) {
+  const base = Math.max(...task.problem.operands.map(decimalsCount), 0);
+  if (task.operation !== "division") return base;
+  const level = task.divisionLevel ?? 1;
+  if (level === "rest" || level <= 2) return 0;
+  return 2;
+}
+
+export function expectedAnswer(task: PracticeTask) {
+  const expectedRaw = computeExpected(task.operation, task.problem.operands);
+  const precision = answerPrecision(task);
+  return task.operation === "division"
+    ? truncTo(expectedRaw, precision)
+    : roundTo(expectedRaw, precision);
+}
+
+export function formatEquation(task: PracticeTask) {
+  // Negative tal efter det foerste staar i parentes: 5 - (-3).
+  const parts = task.problem.operands.map((n, i) =>
+    n < 0 && i > 0 ? `(${fmtDa(n)})` : fmtDa(n)
+  );
+  return parts.join(` ${task.problem.operator} `);
+}
+
+export function columnLayoutFor(task: PracticeTask) {
+  if (task.layout !== "columns" || task.operation === "division") return null;
+  if (hasNegative(task)) return null;
+  // Kun plus kan stilles op med mere end to tal.
+  if (task.problem.operands.length > 2 && task.operation !== "addition") {
+    return null;
+  }
+  return buildColumnLayout(
+    task.operation,
+    task.problem.operands,
+    task.problem.operator
+  );
+}
+
+export function longDivisionFor(task: PracticeTask) {
+  if (task.layout !== "columns" || task.operation !== "division") return null;
+  if (hasNegative(task)) return null;
+  const [dividend, divisor] = task.problem.operands;
+  return buildLongDivision(dividend, divisor, answerPrecision(task));
+}
+
+export function hasRemainder(task: PracticeTask) {
+  return task.operation === "division" && task.divisionLevel === "rest";
+}
+
+function expectedRemainder(task: PracticeTask) {
+  const [dividend, divisor] = task.problem.operands;
+  return {
+    quotient: Math.floor(dividend / divisor),
+    remainder: dividend % divisor,
+  };
+}
+
+// Accepterer "17 rest 3", "17 r 3" og "17 r. 3".
+export function parseRemainder(input: string) {
+  const match = input
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+)\s*(?:rest|r\.?)\s*(\d+)$/);
+  if (!match) return null;
+  return { quotient: Number(match[1]), remainder: Number(match[2]) };
+}
+
+export function fmtRemainder({
+  quotient,
+  remainder,
+}: {
+  quotient: number;
+  remainder: number;
+}) {
+  return `${quotient} rest ${remainder}`;
+}
+
+export function facitText(task: PracticeTask) {
+  return hasRemainder(task)
+    ? fmtRemainder(expectedRemainder(task))
+    : fmtDa(expectedAnswer(task), answerPrecision(task));
+}
+
+function checkRemainder(task: PracticeTask, answer: string) {
+  const student = parseRemainder(answer);
+  if (!student) {
+    return {
+      type: "error" as const,
+      message: "Skriv svaret som fx 17 rest 3.",
+    };
+  }
+  const expected = expectedRemainder(task);
+  const divisor = task.problem.operands[1];
+  if (
+    student.quotient === expected.quotient &&
+    student.remainder === expected.remainder
+  ) {
+    return { type: "correct" as const, message: "Rigtigt! Godt klaret." };
+  }
+  if (student.remainder >= divisor) {
+    return {
+      type: "wrong" as const,
+      message: `Resten skal være mindre end ${divisor}.`,
+    };
+  }
+  if (student.quotient === expected.quotient) {
+    return { type: "wrong" as const, message: "Kvotienten passer - tjek resten." };
+  }
+  return { type: "wrong" as const };
+}
+
+function checkValue(task: PracticeTask, answer: string) {
+  const studentRaw = parseDa(answer);
+  if (!Number.isFinite(studentRaw)) {
+    return {
+      type: "error" as const,
+      message: "Skriv et tal (brug komma ved kommatal).",
+    };
+  }
+
+  const expectedRaw = computeExpected(task.operation, task.problem.operands);
+  const precision = answerPrecision(task);
+  const student =
+    task.operation === "division"
+      ? truncTo(studentRaw, precision)
+      : roundTo(studentRaw, precision);
+
+  let ok = student === expectedAnswer(task);
+  if (task.operation === "division") {
+    const expectedTrunc = truncTo(expectedRaw, precision);
+    const expectedRound = roundTo(expectedRaw, precision);
+    const studentTrunc = truncTo(studentRaw, precision);
+    const studentRound = roundTo(studentRaw, precision);
+    ok =
+      studentTrunc === expectedTrunc ||
+      studentRound === expectedRound ||
+      studentTrunc === expectedRound ||
+      studentRound === expectedTrunc;
+  }
+
+  if (ok) return { type: "correct" as const, message: "Rigtigt! Godt klaret." };
+  return { type: "wrong" as const };
+}
+
+function checkPractice(task: PracticeTask, answer: PracticeAnswer) {
+  const layout = columnLayoutFor(task);
+  if (layout) {
+    return checkColumns(layout, answer.columns ?? emptyColumnAnswer);
+  }
+  const division = longDivisionFor(task);
+  if (division) {
+    return checkLongDivision(
+      division,
+      answer.division ?? emptyLongDivisionAnswer
+    );
+  }
+  if (hasRemainder(task)) return checkRemainder(task, answer.value);
+  return checkValue(task, answer.value);
+}
+
+function formatPracticeAnswer(task: PracticeTask, answer: PracticeAnswer) {
+  const division = longDivisionFor(task);
+  if (division) {
+    return longDivisionProgress(
+      division,
+      answer.division ?? emptyLongDivisionAnswer
+    );
+  }
+  if (hasRemainder(task)) {
+    const parsed = parseRemainder(answer.value);
+    return parsed ? fmtRemainder(parsed) : answer.value;
+  }
+  const layout = columnLayoutFor(task);
+  if (!layout || !answer.columns) return answer.value;
+  const carries = answer.columns.carries.filter(Boolean).length
+    ? ` (${layout.carryLabel}: ${[...answer.columns.carries]
+        .reverse()
+        .map((carry) => carry || "·")
+        .join("")})`
+    : "";
+  return `${columnResultText(layout, answer.columns)}${carries}`;
+}
+
+function isPracticeTask(value: unknown): value is PracticeTask {
+  if (!isRecord(value) || typeof value.operation !== "string") return false;
+  const problem = value.problem;
+  return (
+    isRecord(problem) &&
+    Array.isArray(problem.operands) &&
+    typeof problem.operator === "string"
+  );
+}
+
+const defaultSettings: PracticeSettings = {
+  operation: "addition",
+  digitsSel: 1,
+  decimalsSel: 0,
+  borrowMode: "mixed",
+  divisionLevel: 1,
+  layout: "horizontal",
+  negatives: false,
+  operandCount: 2,
+  rangeMode: "digits",
+  ranges: [
+    { min: 1, max: 99, decimals: 0 },
+    { min: 1, max: 99, decimals: 0 },
+  ],
+};
+
+export const practicePresets: PracticePreset[] = [
+  {
+    id: "tables10",
+    label: "Tabeller op til 10",
+    settings: {
+      operation: "multiplication",
+      operandCount: 2,
+      rangeMode: "custom",
+      ranges: [
+        { min: 1, max: 10, decimals: 0 },
+        { min: 1, max: 10, decimals: 0 },
+      ],
+    },
+  },
+  {
+    id: "times10",
+    label: "Gange med 10, 100 og 1000",
+    settings: {
+      operation: "multiplication",
+      operandCount: 2,
+      rangeMode: "custom",
+      ranges: [
+        { min: 0, max: 999, decimals: 2 },
+        { min: 10, max: 1000, decimals: 0, values: [10, 100, 1000] },
+      ],
+    },
+  },
+  {
+    id: "big",
+    label: "Store tal (op til 6 cifre)",
+    settings: {
+      rangeMode: "custom",
+      ranges: [
+        { min: 10000, max: 999999, decimals: 0 },
+        { min: 1000, max: 99999, decimals: 0 },
+      ],
+    },
+  },
+  {
+    id: "decimals3",
+    label: "Tre decimaler",
+    settings: {
+      rangeMode: "custom",
+      ranges: [
+        { min: 0, max: 99, decimals: 3 },
+        { min: 0, max: 99, decimals: 3 },
+      ],
+    },
+  },
+];
+
+const OPERATIONS: OperationSel[] = [
+  "addition",
+  "subtraction",
+  "multiplication",
+  "division",
+  "mix",
+];
+const DIGITS: DigitsSel[] = [1, 2, 3, "mix"];
+const DECIMALS: DecimalsSel[] = [0, 1, 2, "mix"];
+const BORROW_MODES: BorrowMode[] = ["with", "without", "mixed"];
+const DIVISION_LEVELS: DivisionLevel[] = [1, 2, 3, 4, "rest"];
+const LAYOUTS: PracticeLayout[] = ["horizontal", "vertical", "columns"];
+
+function oneOf<T>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.find((option) => option === value) ?? fallback;
+}
+
+function normalizeSettings(raw: unknown): PracticeSettings {
+  if (!isRecord(raw)) return defaultSettings;
+  const ranges = Array.isArray(raw.ranges)
+    ? raw.ranges
+        .map(normalizeRange)
+        .filter((range): range is OperandRange => range !== null)
+    : [];
+  const operandCount =
+    typeof raw.operandCount === "number" && Number.isInteger(raw.operandCount)
+      ? Math.min(5, Math.max(2, raw.operandCount))
+      : defaultSettings.operandCount;
+  return {
+    operation: oneOf(raw.operation, OPERATIONS, defaultSettings.operation),
+    digitsSel: oneOf(raw.digitsSel, DIGITS, defaultSettings.digitsSel),
+    decimalsSel: oneOf(raw.decimalsSel, DECIMALS, defaultSettings.decimalsSel),
+    borrowMode: oneOf(raw.borrowMode, BORROW_MODES, defaultSettings.borrowMode),
+    divisionLevel: oneOf(
+      raw.divisionLevel,
+      DIVISION_LEVELS,
+      defaultSettings.divisionLevel
+    ),
+    layout: oneOf(raw.layout, LAYOUTS, defaultSettings.layout),
+    negatives: raw.negatives === true,
+    operandCount,
+    rangeMode: raw.rangeMode === "custom" ? "custom" : "digits",
+    ranges: ranges.length > 0 ? ranges : defaultSettings.ranges,
+  };
+}
+
+export const practiceModule: TaskModule<
+  PracticeSettings,
+  PracticeTask,
+  PracticeAnswer
+> = {
+  id: "practice",
+  trackLabel: "Øvelseszone",
+  track: {
+    title: "Øvelseszonen",
+    description: "Plus, minus, gange og division i blandede missioner.",
+    href: "/practice",
+    tag: "Aktiv",
+    accent: "from-emerald-200/70 via-white to-blue-200/60",
+  },
+  defaultSettings,
+  normalizeSettings,
+  emptyAnswer: { value: "" },
+  generate: (settings) => {
+    const task = generateTask({
+      operation: settings.operation,
+      digitsSel: settings.digitsSel,
+      decimalsSel: settings.decimalsSel,
+      borrowMode: settings.borrowMode,
+      divisionLevel: settings.divisionLevel,
+      negatives: settings.negatives,
+      operandCount: settings.operandCount,
+      ranges: settings.rangeMode === "custom" ? settings.ranges : undefined,
+    });
+    // Lodret opstilling findes ikke for division.
+    if (task.operation === "division") {
+      return {
+        ...task,
+        layout:
+          settings.layout === "columns"
+            ? ("columns" as const)
+            : ("horizontal" as const),
+      };
+    }
+    return { ...task, layout: settings.layout };
+  },
+  check: checkPractice,
+  format: formatEquation,
+  label: (task) => operationLabel[task.operation],
+  formatAnswer: (answer, task) => formatPracticeAnswer(task, answer),
+  solution: (task) => {
+    return `Facit: ${facitText(task)}. Start en ny opgave for at fortsætte.`;
+  },
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isPracticeTask),
+};
@@ -0,0 +1,545 @@
+import {
+  formatDisplay,
+  gcd,
+  normalizeNumberString,
+  randInt,
+} from "@/utils/taskHelpers";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type TaskModule,
+} from "@/utils/taskModule";
+
+export type ProcentOperation =
+  | "percent"
+  | "permille"
+  | "share"
+  | "whole"
+  | "change"
+  | "changeRate"
+  | "vat"
+  | "simpleInterest"
+  | "compoundInterest"
+  | "mixed";
+export type ProcentRange = "small" | "medium" | "large";
+
+export type ProcentTask =
+  | {
+      operation: "percent" | "permille";
+      rate: number;
+      base: number;
+      expected: string;
+    }
+  | {
+      operation: "share";
+      part: string;
+      base: number;
+      expected: string;
+    }
+  | {
+      operation: "whole";
+      rate: number;
+      part: string;
+      expected: string;
+    }
+  | {
+      // Ny pris efter en stigning eller et fald paa rate procent.
+      operation: "change";
+      base: number;
+      rate: number;
+      direction: "up" | "down";
+      expected: string;
+    }
+  | {
+      // Hvor mange procent er vaerdien steget/faldet fra from til to.
+      operation: "changeRate";
+      from: number;
+      to: number;
+      expected: string;
+    }
+  | {
+      // "add": pris uden moms -> med moms, "remove": med moms -> uden moms.
+      operation: "vat";
+      amount: number;
+      direction: "add" | "remove";
+      expected: string;
+    }
+  | {
+      operation: "simpleInterest" | "compoundInterest";
+      principal: number;
+      rate: number;
+      periods: number;
+      expected: string;
+    };
+
+export const VAT_RATE = 25;
+
+// Opgaverne om aendring, moms og rente; svaret er et beloeb eller en procent.
+export type ChangeTask = Extract<
+  ProcentTask,
+  { operation: "change" | "changeRate" | "vat" | "simpleInterest" | "compoundInterest" }
+>;
+
+export function isChangeTask(task: ProcentTask): task is ChangeTask {
+  return (
+    task.operation === "change" ||
+    task.operation === "changeRate" ||
+    task.operation === "vat" ||
+    task.operation === "simpleInterest" ||
+    task.operation === "compoundInterest"
+  );
+}
+
+export type ProcentSettings = {
+  operation: ProcentOperation;
+  range: ProcentRange;
+};
+
+const OPERATIONS: ProcentOperation[] = [
+  "percent",
+  "permille",
+  "share",
+  "whole",
+  "change",
+  "changeRate",
+  "vat",
+  "simpleInterest",
+  "compoundInterest",
+  "mixed",
+];
+
+const defaultSettings: ProcentSettings = {
+  operation: "mixed",
+  range: "small",
+};
+
+const ranges: Record<ProcentRange, { baseMin: number; baseMax: number }> = {
+  small: { baseMin: 10, baseMax: 99 },
+  medium: { baseMin: 100, baseMax: 999 },
+  large: { baseMin: 1000, baseMax: 9999 },
+};
+
+function formatResult(value: number, decimals: number) {
+  if (Number.isInteger(value)) return String(value);
+  const fixed = value.toFixed(decimals);
+  return fixed.replace(/0+$/, "").replace(/\.$/, "");
+}
+
+function formatTruncated(value: number, decimals: number) {
+  if (Number.isInteger(value)) return String(value);
+  const factor = 10 ** decimals;
+  const truncated = Math.trunc(value * factor) / factor;
+  const fixed = truncated.toFixed(decimals);
+  return fixed.replace(/0+$/, "").replace(/\.$/, "");
+}
+
+// Tal der gaar op i divisor gange en faktor, saa resultatet bliver helt.
+function wholeMultiple(divisor: number, rate: number, min: number, max: number) {
+  const factor = divisor / gcd(rate, divisor);
+  const kMin = Math.ceil(min / factor);
+  const kMax = Math.floor(max / factor);
+  return kMin > kMax ? null : factor * randInt(kMin, kMax);
+}
+
+const NICE_RATES = [5, 10, 15, 20, 25, 30, 40, 50];
+
+function buildChangeTask(
+  op: "change" | "changeRate" | "vat",
+  settings: ProcentSettings
+): ProcentTask {
+  const range = ranges[settings.range];
+  const small = settings.range === "small";
+  const rate = small
+    ? NICE_RATES[randInt(0, NICE_RATES.length - 1)]
+    : randInt(1, 60);
+  const direction = randInt(0, 1) === 0 ? "up" : "down";
+  const factor = direction === "up" ? 1 + rate / 100 : 1 - rate / 100;
+  const base =
+    (small && wholeMultiple(100, rate, range.baseMin, range.baseMax)) ||
+    randInt(range.baseMin, range.baseMax);
+
+  if (op === "change") {
+    const expected = formatResult(base * factor, 2);
+    return { operation: op, base, rate, direction, expected };
+  }
+  if (op === "changeRate") {
+    // Slutvaerdien er startvaerdien aendret med rate procent, rundet til hele
+    // kroner; paa level 1 er aendringen derfor et helt antal procent.
+    const rounded = Math.round(base * factor);
+    const to =
+      rounded !== base ? rounded : base + (direction === "up" ? 1 : -1);
+    const expected = formatResult((Math.abs(to - base) / base) * 100, 2);
+    return { operation: op, from: base, to, expected };
+  }
+  const vatDirection = randInt(0, 1) === 0 ? "add" : "remove";
+  const amount =
+    (small &&
+      wholeMultiple(vatDirection === "add" ? 4 : 5, 1, range.baseMin, range.baseMax)) ||
+    randInt(range.baseMin, range.baseMax);
+  const vatFactor = 1 + VAT_RATE / 100;
+  const expected = formatResult(
+    vatDirection === "add" ? amount * vatFactor : amount / vatFactor,
+    2
+  );
+  return { operation: op, amount, direction: vatDirection, expected };
+}
+
+function compoundValue(principal: number, rate: number, periods: number) {
+  return principal * (1 + rate / 100) ** periods;
+}
+
+function buildInterestTask(
+  op: "simpleInterest" | "compoundInterest",
+  settings: ProcentSettings
+): ProcentTask {
+  const principal = randInt(10, 100) * (settings.range === "small" ? 100 : 1000);
+  const rate =
+    settings.range === "large" ? randInt(2, 16) / 2 : randInt(1, 8);
+  const periods = randInt(2, settings.range === "small" ? 4 : 10);
+  const value =
+    op === "simpleInterest"
+      ? principal * (1 + (rate / 100) * periods)
+      : compoundValue(principal, rate, periods);
+  return {
+    operation: op,
+    principal,
+    rate,
+    periods,
+    expected: formatResult(value, 2),
+  };
+}
+
+function buildTask(settings: ProcentSettings): ProcentTask {
+  // "mixed" blander kun grundopgaverne; aendring, moms og rente vaelges for sig.
+  const op =
+    settings.operation === "mixed"
+      ? (["percent", "permille", "share", "whole"] as const)[randInt(0, 3)]
+      : settings.operation;
+  if (op === "change" || op === "changeRate" || op === "vat") {
+    return buildChangeTask(op, settings);
+  }
+  if (op === "simpleInterest" || op === "compoundInterest") {
+    return buildInterestTask(op, settings);
+  }
+  const range = ranges[settings.range];
+  const preferWholeResult = settings.range === "small";
+
+  if (op === "share") {
+    const rateMax = 90;
+    if (preferWholeResult) {
+      for (let i = 0; i < 200; i += 1) {
+        const rate = randInt(1, rateMax);
+        const factor = 100 / gcd(rate, 100);
+        const kMin = Math.ceil(range.baseMin / factor);
+        const kMax = Math.floor(range.baseMax / factor);
+        if (kMin > kMax) continue;
+        const base = factor * randInt(kMin, kMax);
+        const part = String((base * rate) / 100);
+        return {
+          operation: "share",
+          base,
+          part,
+          expected: String(rate),
+        };
+      }
+    }
+
+    const base = randInt(range.baseMin, range.baseMax);
+    const part = randInt(1, base);
+    const expected = formatResult((part / base) * 100, 2);
+    return {
+      operation: "share",
+      base,
+      part: String(part),
+      expected,
+    };
+  }
+
+  if (op === "whole") {
+    const rateMax = 90;
+    if (preferWholeResult) {
+      for (let i = 0; i < 200; i += 1) {
+        const rate = randInt(1, rateMax);
+        const factor = 100 / gcd(rate, 100);
+        const kMin = Math.ceil(range.baseMin / factor);
+        const kMax = Math.floor(range.baseMax / factor);
+        if (kMin > kMax) continue;
+        const base = factor * randInt(kMin, kMax);
+        const part = String((base * rate) / 100);
+        return {
+          operation: "whole",
+          rate,
+          part,
+          expected: String(base),
+        };
+      }
+    }
+
+    const base = randInt(range.baseMin, range.baseMax);
+    const rate = randInt(1, rateMax);
+    const part = formatResult((base * rate) / 100, 2);
+    return {
+      operation: "whole",
+      rate,
+      part,
+      expected: String(base),
+    };
+  }
+
+  const divisor = op === "percent" ? 100 : 1000;
+  const rateMax = op === "percent" ? 90 : 900;
+
+  if (preferWholeResult) {
+    for (let i = 0; i < 200; i += 1) {
+      const rate = randInt(1, rateMax);
+      const factor = divisor / gcd(rate, divisor);
+      const kMin = Math.ceil(range.baseMin / factor);
+      const kMax = Math.floor(range.baseMax / factor);
+      if (kMin > kMax) continue;
+      const base = factor * randInt(kMin, kMax);
+      const expectedValue = (base * rate) / divisor;
+      return {
+        operation: op,
+        base,
+        rate,
+        expected: String(expectedValue),
+      };
+    }
+  }
+
+  const base = randInt(range.baseMin, range.baseMax);
+  const rate = randInt(1, rateMax);
+  const decimals = op === "percent" ? 2 : 3;
+  const expected = formatResult((base * rate) / divisor, decimals);
+  return { operation: op, base, rate, expected };
+}
+
+// Afrundet og afkortet til hvert af de givne antal decimaler.
+function roundings(rawValue: number, decimals: number[]) {
+  const answers: string[] = [];
+  decimals.forEach((count) => {
+    [formatResult(rawValue, count), formatTruncated(rawValue, count)].forEach(
+      (text) => {
+        const normalized = normalizeNumberString(text);
+        if (normalized && !answers.includes(normalized)) answers.push(normalized);
+      }
+    );
+  });
+  return answers;
+}
+
+function getChangeAnswers(task: ChangeTask): string[] {
+  switch (task.operation) {
+    case "change":
+      return roundings(
+        task.base * (1 + ((task.direction === "up" ? 1 : -1) * task.rate) / 100),
+        [2]
+      );
+    case "changeRate": {
+      // Et fald maa gerne skrives som negativ aendring, fx -15.
+      const raw = (Math.abs(task.to - task.from) / task.from) * 100;
+      const answers = roundings(raw, [1, 2]);
+      return task.to < task.from
+        ? [...answers, ...answers.map((answer) => `-${answer}`)]
+        : answers;
+    }
+    case "vat": {
+      const factor = 1 + VAT_RATE / 100;
+      return roundings(
+        task.direction === "add" ? task.amount * factor : task.amount / factor,
+        [2]
+      );
+    }
+    case "simpleInterest":
+      return roundings(
+        task.principal * (1 + (task.rate / 100) * task.periods),
+        [2]
+      );
+    case "compoundInterest": {
+      // Hele kroner og afrunding til oere efter hver periode godtages ogsaa.
+      let stepwise = task.principal;
+      for (let i = 0; i < task.periods; i += 1) {
+        stepwise = Math.round(stepwise * (1 + task.rate / 100) * 100) / 100;
+      }
+      const answers = roundings(
+        compoundValue(task.principal, task.rate, task.periods),
+        [0, 2]
+      );
+      return [...answers, ...roundings(stepwise, [2])];
+    }
+  }
+}
+
+// Typiske fejl med en forklaring: moms trukket fra som 25 % og en aendring
+// regnet i forhold til slutvaerdien i stedet for startvaerdien.
+function changeMistake(task: ChangeTask, parsed: string) {
+  if (task.operation === "vat" && task.direction === "remove") {
+    const minus = roundings(task.amount * (1 - VAT_RATE / 100), [2]);
+    if (minus.includes(parsed)) {
+      return "Momsen er 25 % af prisen uden moms - divider med 1,25 i stedet for at trække 25 % fra.";
+    }
+  }
+  if (task.operation === "changeRate") {
+    const wrongBase = roundings(
+      (Math.abs(task.to - task.from) / task.to) * 100,
+      [1, 2]
+    );
+    if (wrongBase.includes(parsed.replace(/^-/, ""))) {
+      return "Ændringen skal regnes i procent af startværdien, ikke slutværdien.";
+    }
+  }
+  return null;
+}
+
+function getAcceptedAnswers(task: ProcentTask) {
+  if (isChangeTask(task)) return getChangeAnswers(task);
+  const answers: string[] = [];
+  if (task.operation === "whole") {
+    const normalized = normalizeNumberString(task.expected) ?? task.expected;
+    return [normalized];
+  }
+
+  const decimals = task.operation === "permille" ? 3 : 2;
+  let rawValue = 0;
+  if (task.operation === "share") {
+    rawValue = (Number(task.part) / task.base) * 100;
+  } else {
+    const divisor = task.operation === "percent" ? 100 : 1000;
+    rawValue = (task.base * task.rate) / divisor;
+  }
+
+  const rounded = normalizeNumberString(formatResult(rawValue, decimals));
+  if (rounded) answers.push(rounded);
+  const truncated = normalizeNumberString(formatTruncated(rawValue, decimals));
+  if (truncated && !answers.includes(truncated)) answers.push(truncated);
+  return answers;
+}
+
+const kr = (value: number | string) => `${formatDisplay(String(value))} kr.`;
+
+function factorText(rate: number, sign: 1 | -1) {
+  return formatDisplay(formatResult(1 + (sign * rate) / 100, 4));
+}
+
+export function changeQuestion(task: ChangeTask) {
+  switch (task.operation) {
+    case "change":
+      return `En vare koster ${kr(task.base)} Prisen sættes ${
+        task.direction === "up" ? "op" : "ned"
+      } med ${formatDisplay(String(task.rate))} %. Hvad er den nye pris?`;
+    case "changeRate":
+      return `Prisen ændres fra ${kr(task.from)} til ${kr(task.to)} Hvor mange procent er prisen ${
+        task.to < task.from ? "faldet" : "steget"
+      }?`;
+    case "vat":
+      return task.direction === "add"
+        ? `En vare koster ${kr(task.amount)} uden moms. Hvad koster den med ${VAT_RATE} % moms?`
+        : `En vare koster ${kr(task.amount)} med ${VAT_RATE} % moms. Hvad koster den uden moms?`;
+    case "simpleInterest":
+      return `Du sætter ${kr(task.principal)} ind til ${formatDisplay(
+        String(task.rate)
+      )} % simpel rente om året. Hvor meget står der efter ${task.periods} år?`;
+    case "compoundInterest":
+      return `Du sætter ${kr(task.principal)} ind til ${formatDisplay(
+        String(task.rate)
+      )} % rente om året (rentes rente). Hvor meget står der efter ${
+        task.periods
+      } år?`;
+  }
+}
+
+function changeSolution(task: ChangeTask) {
+  const result = formatDisplay(task.expected);
+  switch (task.operation) {
+    case "change": {
+      const sign = task.direction === "up" ? 1 : -1;
+      return `Facit: ${result} kr. (${task.base} · ${factorText(
+        task.rate,
+        sign
+      )}).`;
+    }
+    case "changeRate":
+      return `Facit: ${result} %. Ændringen er ${Math.abs(
+        task.to - task.from
+      )} kr., og ${Math.abs(task.to - task.from)} / ${task.from} · 100 = ${result}.`;
+    case "vat":
+      return task.direction === "add"
+        ? `Facit: ${result} kr. (${task.amount} · 1,25).`
+        : `Facit: ${result} kr. (${task.amount} / 1,25 - ikke minus 25 %).`;
+    case "simpleInterest":
+      return `Facit: ${result} kr. Renten er ${formatDisplay(
+        formatResult((task.principal * task.rate) / 100, 2)
+      )} kr. hvert år i ${task.periods} år.`;
+    case "compoundInterest":
+      return `Facit: ${result} kr. (${task.principal} · ${factorText(
+        task.rate,
+        1
+      )}^${task.periods}).`;
+  }
+}
+
+function isProcentTask(value: unknown): value is ProcentTask {
+  return (
+    isRecord(value) &&
+    typeof value.operation === "string" &&
+    typeof value.expected === "string"
+  );
+}
+
+function normalizeSettings(raw: unknown): ProcentSettings {
+  if (!isRecord(raw)) return defaultSettings;
+  const operation = OPERATIONS.find((op) => op === raw.operation);
+  const range =
+    raw.range === "medium" || raw.range === "large" ? raw.range : "small";
+  return { operation: operation ?? defaultSettings.operation, range };
+}
+
+export const procentModule: TaskModule<ProcentSettings, ProcentTask> = {
+  id: "procent",
+  trackLabel: "Procent og promille",
+  track: {
+    title: "Procent og promille",
+    description: "Procent, promille, rabat, moms og rente i hverdagsopgaver.",
+    href: "/procent",
+    tag: "Aktiv",
+    accent: "from-sky-100/80 via-white to-emerald-100/60",
+  },
+  defaultSettings,
+  normalizeSettings,
+  emptyAnswer: "",
+  generate: buildTask,
+  check: (task, answer) => {
+    const parsed = normalizeNumberString(answer);
+    if (!parsed) {
+      return {
+        type: "error",
+        message: "Skriv et gyldigt tal. Brug komma ved decimaltal.",
+      };
+    }
+    if (getAcceptedAnswers(task).includes(parsed)) return { type: "correct" };
+    const mistake = isChangeTask(task) ? changeMistake(task, parsed) : null;
+    return mistake ? { type: "wrong", message: mistake } : { type: "wrong" };
+  },
+  format: (task) => {
+    if (isChangeTask(task)) return changeQuestion(task);
+    if (task.operation === "share") {
+      return `Hvor stor en procentdel er ${formatDisplay(task.part)} af ${task.base}`;
+    }
+    if (task.operation === "whole") {
+      return `Hvor stort er hele beløbet, hvis ${task.rate}% er ${formatDisplay(
+        task.part
+      )}`;
+    }
+    const symbol = task.operation === "percent" ? "%" : "‰";
+    return `${task.rate}${symbol} af ${task.base}`;
+  },
+  label: () => "Procent og promille",
+  formatAnswer: (answer) => answer,
+  solution: (task) =>
+    isChangeTask(task)
+      ? changeSolution(task)
+      : `Facit: ${formatDisplay(task.expected)}.`,
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isProcentTask),
+};
@@ -0,0 +1,616 @@
+import {
+  normalizeNumberString,
+  randInt,
+  random,
+  shuffle,
+} from "@/utils/taskHelpers";
+import {
+  binary,
+  combine,
+  evaluate,
+  formatExpression,
+  hasNegation,
+  isValue,
+  num,
+  numbersIn,
+  parens,
+  parseExpression,
+  power,
+  sqrt,
+  toSuperscript,
+  usedCategories,
+  type BinaryOp,
+  type Expr,
+  type OrderCategory,
+} from "@/utils/expression";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type CheckResult,
+  type TaskModule,
+} from "@/utils/taskModule";
+
+export type Level = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+export type { OrderCategory };
+
+export type TermCategory = "parens" | "power" | "multiply" | "number";
+
+export type Term = {
+  id: string;
+  display: string;
+  value: number;
+  category: TermCategory;
+};
+
+export type RegnehierarkietTask = {
+  expression: string;
+  result: number;
+  label: string;
+  terms: Term[];
+  ops: ("+" | "-")[];
+  // Level 6+: udtrykket er et helt traee og kan ikke deles op i led, saa
+  // regnearterne gemmes direkte i stedet for at blive udledt af terms.
+  categories?: OrderCategory[];
+  // Trinvis: eleven klikker sig igennem udregningen et deludtryk ad gangen.
+  stepwise?: boolean;
+  // Ram tallet: eleven saetter regnetegn og parenteser mellem tallene, saa
+  // udtrykket giver result. example er en af loesningerne.
+  target?: { numbers: number[]; example: string };
+};
+
+export type RegnehierarkietMode = "order" | "steps" | "target";
+
+export type RegnehierarkietSettings = {
+  level: Level;
+  mode: RegnehierarkietMode;
+};
+
+export type RegnehierarkietAnswer = {
+  order: OrderCategory[];
+  value: string;
+  // Trinvis: udtrykket efter hvert trin, fx ["2 + 12", "14"].
+  steps: string[];
+};
+
+const ORDER_SEQUENCE: OrderCategory[] = [
+  "parens",
+  "power",
+  "multiply",
+  "addsub",
+];
+
+const defaultSettings: RegnehierarkietSettings = { level: 1, mode: "order" };
+
+function parseNumber(raw: string) {
+  const normalized = normalizeNumberString(raw);
+  if (!normalized) return null;
+  const value = Number(normalized);
+  if (!Number.isFinite(value)) return null;
+  return value;
+}
+
+function makeParenTerm(min: number, max: number): Term {
+  const a = randInt(min, max);
+  const b = randInt(min, max);
+  const useSub = random() < 0.5;
+  if (useSub) {
+    const hi = Math.max(a, b);
+    const lo = Math.min(a, b);
+    return {
+      id: "",
+      display: `( ${hi} - ${lo} )`,
+      value: hi - lo,
+      category: "parens",
+    };
+  }
+  return {
+    id: "",
+    display: `( ${a} + ${b} )`,
+    value: a + b,
+    category: "parens",
+  };
+}
+
+function makeMultiplyTerm(min: number, max: number): Term {
+  const useDivision = random() < 0.4;
+  if (useDivision) {
+    const b = randInt(min, max);
+    const c = randInt(min, max);
+    const a = b * c;
+    return {
+      id: "",
+      display: `${a} ÷ ${b}`,
+      value: c,
+      category: "multiply",
+    };
+  }
+  const a = randInt(min, max);
+  const b = randInt(min, max);
+  return {
+    id: "",
+    display: `${a} x ${b}`,
+    value: a * b,
+    category: "multiply",
+  };
+}
+
+export function formatExponent(exp: number) {
+  return toSuperscript(exp);
+}
+
+export function makePowerTerm(
+  baseMin: number,
+  baseMax: number,
+  expMin: number,
+  expMax: number
+): Term {
+  const base = randInt(baseMin, baseMax);
+  const exponent = randInt(expMin, expMax);
+  const superExp = formatExponent(exponent);
+  return {
+    id: "",
+    display: `${base}${superExp}`,
+    value: base ** exponent,
+    category: "power",
+  };
+}
+
+function makeSqrtTerm(minResult: number, maxResult: number): Term {
+  const result = randInt(minResult, maxResult);
+  const value = result * result;
+  return {
+    id: "",
+    display: `\u221a${value}`,
+    value: result,
+    category: "power",
+  };
+}
+
+function makeNumberTerm(min: number, max: number): Term {
+  const n = randInt(min, max);
+  return {
+    id: "",
+    display: String(n),
+    value: n,
+    category: "number",
+  };
+}
+
+function buildExpression(terms: Term[], label: string): RegnehierarkietTask {
+  const ops = Array.from({ length: Math.max(terms.length - 1, 0) }, () =>
+    random() < 0.5 ? "+" : "-"
+  );
+  const withIds = terms.map((term, index) => ({
+    ...term,
+    id: `term-${index}`,
+  }));
+  const expression = withIds
+    .map((term, index) =>
+      index < ops.length ? `${term.display} ${ops[index]}` : term.display
+    )
+    .join(" ");
+  let result = withIds[0]?.value ?? 0;
+  for (let i = 0; i < ops.length; i += 1) {
+    const op = ops[i];
+    const next = withIds[i + 1].value;
+    result = op === "+" ? result + next : result - next;
+  }
+  return { expression, result, label, terms: withIds, ops };
+}
+
+function buildLevel1(): RegnehierarkietTask {
+  const count = randInt(2, 3);
+  const terms = shuffle(
+    Array.from({ length: count }, () => makeNumberTerm(1, 20))
+  );
+  return buildExpression(terms, "Level 1");
+}
+
+function buildLevel2(): RegnehierarkietTask {
+  const terms = shuffle([
+    makeMultiplyTerm(2, 9),
+    makeNumberTerm(2, 15),
+    makeNumberTerm(2, 15),
+  ]);
+  return buildExpression(terms, "Level 2");
+}
+
+function buildLevel3(): RegnehierarkietTask {
+  const terms = shuffle([
+    makeParenTerm(2, 12),
+    makeMultiplyTerm(2, 12),
+    makeNumberTerm(2, 18),
+  ]);
+  return buildExpression(terms, "Level 3");
+}
+
+function buildLevel4(): RegnehierarkietTask {
+  const terms = shuffle([
+    makeParenTerm(2, 12),
+    makePowerTerm(1, 5, 1, 3),
+    makeMultiplyTerm(3, 15),
+    makeNumberTerm(3, 20),
+  ]);
+  return buildExpression(terms, "Level 4");
+}
+
+function buildLevel5(): RegnehierarkietTask {
+  const terms = shuffle([
+    makeParenTerm(2, 12),
+    makePowerTerm(1, 5, 1, 3),
+    makeSqrtTerm(1, 15),
+    makeMultiplyTerm(3, 15),
+    makeNumberTerm(3, 20),
+  ]);
+  return buildExpression(terms, "Level 5");
+}
+
+function sumParens(min: number, max: number) {
+  const a = randInt(min, max);
+  const b = randInt(min, max);
+  return random() < 0.5
+    ? parens(binary("+", num(a), num(b)))
+    : parens(binary("-", num(Math.max(a, b) + 1), num(Math.min(a, b))));
+}
+
+function squaredParens() {
+  const sum = randInt(3, 10);
+  const a = randInt(1, sum - 1);
+  const squared = power(parens(binary("+", num(a), num(sum - a))), 2);
+  return random() < 0.5 ? binary("·", num(randInt(2, 4)), squared) : squared;
+}
+
+function productOfParens() {
+  return binary("·", num(randInt(2, 9)), sumParens(2, 9));
+}
+
+function divisionOfParens() {
+  const divisor = randInt(2, 9);
+  const total = divisor * randInt(2, 9);
+  const a = randInt(1, total - 1);
+  const sum = parens(binary("+", num(a), num(total - a)));
+  return binary("÷", sum, num(divisor));
+}
+
+function divisionChain() {
+  const b = randInt(2, 9);
+  const quotient = binary("÷", num(b * randInt(2, 9)), num(b));
+  return binary("·", quotient, num(randInt(2, 6)));
+}
+
+function nestedParens() {
+  const inner = sumParens(2, 8);
+  return parens(
+    binary("+", num(randInt(2, 15)), binary("·", num(randInt(2, 5)), inner))
+  );
+}
+
+const PYTHAGOREAN = [
+  [3, 4],
+  [6, 8],
+  [5, 12],
+  [8, 15],
+];
+
+function sqrtOfSquares() {
+  const [a, b] = PYTHAGOREAN[randInt(0, PYTHAGOREAN.length - 1)];
+  return sqrt(parens(binary("+", power(num(a), 2), power(num(b), 2))));
+}
+
+function squaredDivision() {
+  const b = randInt(2, 6);
+  return power(parens(binary("÷", num(b * randInt(2, 5)), num(b))), 2);
+}
+
+const LEVEL6_BLOCKS = [
+  squaredParens,
+  productOfParens,
+  divisionOfParens,
+  divisionChain,
+];
+const LEVEL7_BLOCKS = [nestedParens, sqrtOfSquares, squaredDivision];
+
+function pickBlock(blocks: (() => Expr)[]) {
+  return blocks[randInt(0, blocks.length - 1)]();
+}
+
+function buildTree(blocks: Expr[], label: string): RegnehierarkietTask | null {
+  const expr = shuffle(blocks).reduce((acc, block) =>
+    binary(random() < 0.5 ? "+" : "-", acc, block)
+  );
+  const result = evaluate(expr);
+  if (!Number.isInteger(result) || result < 0) return null;
+  const used = usedCategories(expr);
+  return {
+    expression: formatExpression(expr),
+    result,
+    label,
+    terms: [],
+    ops: [],
+    categories: ORDER_SEQUENCE.filter((category) => used.has(category)),
+  };
+}
+
+function buildNested(level: 6 | 7): RegnehierarkietTask {
+  for (let i = 0; i < 100; i += 1) {
+    // Level 7 blander to indlejrede blokke med en fra level 6.
+    const pool = level === 6 ? LEVEL6_BLOCKS : LEVEL7_BLOCKS;
+    const blocks = [pickBlock(pool), pickBlock(pool), pickBlock(LEVEL6_BLOCKS)];
+    const task = buildTree(blocks, `Level ${level}`);
+    if (task) return task;
+  }
+  const fallback = parseExpression("2 · (3 + 4)² - 18 ÷ 3");
+  return (
+    (fallback && buildTree([fallback], `Level ${level}`)) ?? buildLevel5()
+  );
+}
+
+const TARGET_MAX = 100;
+
+// Tilfaeldigt traee over tallene i den givne raekkefoelge.
+function randomTree(numbers: number[], ops: BinaryOp[]): Expr {
+  if (numbers.length === 1) return num(numbers[0]);
+  const split = randInt(1, numbers.length - 1);
+  return combine(
+    ops[randInt(0, ops.length - 1)],
+    randomTree(numbers.slice(0, split), ops),
+    randomTree(numbers.slice(split), ops)
+  );
+}
+
+function buildTarget(level: Level): RegnehierarkietTask {
+  const count = level <= 2 ? 3 : 4;
+  const ops: BinaryOp[] =
+    level === 1
+      ? ["+", "-"]
+      : level === 2
+      ? ["+", "-", "·"]
+      : ["+", "-", "·", "÷"];
+  const numberMax = level >= 5 ? 12 : 9;
+  for (let i = 0; i < 200; i += 1) {
+    const numbers = Array.from({ length: count }, () => randInt(1, numberMax));
+    const expr = randomTree(numbers, ops);
+    const result = evaluate(expr);
+    if (!Number.isInteger(result) || result < 0) continue;
+    if (result > TARGET_MAX) continue;
+    // Level 1-2 klarer sig uden parenteser; fra level 3 skal de helst bruges.
+    const hasParens = usedCategories(expr).has("parens");
+    if (level <= 2 ? hasParens : !hasParens && i < 150) continue;
+    return {
+      expression: `Ram ${result} med ${numbers.join(", ")}`,
+      result,
+      label: `Level ${level}, ram tallet`,
+      terms: [],
+      ops: [],
+      target: { numbers, example: formatExpression(expr) },
+    };
+  }
+  return {
+    expression: "Ram 14 med 2, 3, 4",
+    result: 14,
+    label: `Level ${level}, ram tallet`,
+    terms: [],
+    ops: [],
+    target: { numbers: [2, 3, 4], example: "2 · (3 + 4)" },
+  };
+}
+
+function buildTask(settings: RegnehierarkietSettings): RegnehierarkietTask {
+  if (settings.mode === "target") return buildTarget(settings.level);
+  const task = buildLevel(settings.level);
+  return settings.mode === "steps" ? { ...task, stepwise: true } : task;
+}
+
+function buildLevel(level: Level): RegnehierarkietTask {
+  if (level === 1) return buildLevel1();
+  if (level === 2) return buildLevel2();
+  if (level === 3) return buildLevel3();
+  if (level === 4) return buildLevel4();
+  if (level === 5) return buildLevel5();
+  return buildNested(level);
+}
+
+export function clampLevel(value: number): Level {
+  if (value <= 1) return 1;
+  if (value === 2) return 2;
+  if (value === 3) return 3;
+  if (value === 4) return 4;
+  if (value === 5) return 5;
+  if (value === 6) return 6;
+  return 7;
+}
+
+function normalizeSettings(raw: unknown): RegnehierarkietSettings {
+  if (!isRecord(raw)) return defaultSettings;
+  const mode =
+    raw.mode === "steps" || raw.mode === "target" ? raw.mode : "order";
+  return { level: normalizeLevel(raw), mode };
+}
+
+function normalizeLevel(raw: Record<string, unknown>): Level {
+  const rawLevel = raw.level;
+  if (typeof rawLevel === "number" && Number.isFinite(rawLevel)) {
+    return clampLevel(Math.round(rawLevel));
+  }
+  if (typeof rawLevel === "string") {
+    const parsed = Number(rawLevel);
+    if (Number.isFinite(parsed)) return clampLevel(Math.round(parsed));
+  }
+  const legacy = raw.difficulty;
+  if (legacy === "easy") return 2;
+  if (legacy === "medium") return 3;
+  if (legacy === "hard") return 4;
+  return defaultSettings.level;
+}
+
+export function requiredOrder(task: RegnehierarkietTask) {
+  if (task.categories) return task.categories;
+  const present = new Set<OrderCategory>();
+  task.terms.forEach((term) => {
+    if (term.category === "parens") present.add("parens");
+    if (term.category === "power") present.add("power");
+    if (term.category === "multiply") present.add("multiply");
+  });
+  if (task.ops.length) present.add("addsub");
+  return ORDER_SEQUENCE.filter((category) => present.has(category));
+}
+
+export function orderHint(task: RegnehierarkietTask) {
+  const includeSqrt = task.expression.includes("\u221a");
+  return requiredOrder(task)
+    .map((category, index) => {
+      if (category === "parens") return `()=${index + 1}`;
+      if (category === "power") {
+        return includeSqrt
+          ? `potenser/kvadratrod=${index + 1}`
+          : `potenser=${index + 1}`;
+      }
+      if (category === "multiply") return `x/\u00f7=${index + 1}`;
+      return `+ og -=${index + 1}`;
+    })
+    .join(", ");
+}
+
+// Udtrykket som det ser ud nu - efter elevens seneste trin.
+export function currentExpression(
+  task: RegnehierarkietTask,
+  answer: RegnehierarkietAnswer
+) {
+  const last = answer.steps[answer.steps.length - 1];
+  return parseExpression(last ?? task.expression);
+}
+
+function checkStepwise(
+  task: RegnehierarkietTask,
+  answer: RegnehierarkietAnswer
+): CheckResult {
+  const current = currentExpression(task, answer);
+  if (!current || !isValue(current)) {
+    return {
+      type: "error",
+      message: "Regn udtrykket helt ud - klik på den regneart, der er først.",
+    };
+  }
+  return evaluate(current) === task.result
+    ? { type: "correct" }
+    : { type: "wrong" };
+}
+
+function formatValue(value: number) {
+  return String(Number(value.toFixed(4))).replace(".", ",");
+}
+
+function checkTarget(
+  task: RegnehierarkietTask,
+  answer: RegnehierarkietAnswer
+): CheckResult {
+  const numbers = task.target?.numbers ?? [];
+  const expr = parseExpression(answer.value);
+  if (!expr) {
+    return { type: "error", message: "Skriv et regneudtryk, fx 2 · (3 + 4)." };
+  }
+  // Hverken potenser eller fortegnsminus er med blandt regnetegnene.
+  if (usedCategories(expr).has("power") || hasNegation(expr)) {
+    return { type: "error", message: "Brug kun +, -, ·, ÷ og parenteser." };
+  }
+  if (numbersIn(expr).join(",") !== numbers.join(",")) {
+    return {
+      type: "error",
+      message: `Brug tallene ${numbers.join(", ")} præcis én gang og i den rækkefølge.`,
+    };
+  }
+  // Flere udtryk kan vaere rigtige, saa elevens udtryk regnes ud.
+  const value = evaluate(expr);
+  if (Math.abs(value - task.result) < 1e-9) {
+    return {
+      type: "correct",
+      message: `Rigtigt! ${formatExpression(expr)} = ${task.result}.`,
+    };
+  }
+  return {
+    type: "wrong",
+    message: Number.isFinite(value)
+      ? `Dit udtryk giver ${formatValue(value)} - ikke ${task.result}.`
+      : "Du dividerer med 0 et sted.",
+  };
+}
+
+function checkRegnehierarkiet(
+  task: RegnehierarkietTask,
+  answer: RegnehierarkietAnswer
+): CheckResult {
+  if (task.target) return checkTarget(task, answer);
+  if (task.stepwise) return checkStepwise(task, answer);
+  const required = requiredOrder(task);
+  if (answer.order.length < required.length) {
+    return {
+      type: "error",
+      message: `Klik på rækkefølgen (1-${required.length}), før du tjekker.`,
+    };
+  }
+  if (answer.order.join(",") !== required.join(",")) {
+    return { type: "wrong", message: "Rækkefølgen er ikke korrekt." };
+  }
+
+  const value = parseNumber(answer.value);
+  if (value === null) {
+    return { type: "error", message: "Skriv et gyldigt svar." };
+  }
+  return value === task.result ? { type: "correct" } : { type: "wrong" };
+}
+
+function isRegnehierarkietTask(value: unknown): value is RegnehierarkietTask {
+  return (
+    isRecord(value) &&
+    typeof value.expression === "string" &&
+    typeof value.result === "number" &&
+    Array.isArray(value.terms) &&
+    Array.isArray(value.ops)
+  );
+}
+
+export const regnehierarkietModule: TaskModule<
+  RegnehierarkietSettings,
+  RegnehierarkietTask,
+  RegnehierarkietAnswer
+> = {
+  id: "regnehierarkiet",
+  trackLabel: "Regnehierarkiet",
+  track: {
+    title: "Regnehierarkiet",
+    description: "Find r\u00e6kkef\u00f8lgen og regn regnestykket korrekt.",
+    href: "/regnehierarkiet",
+    tag: "Aktiv",
+    accent: "from-amber-100/80 via-white to-rose-100/60",
+  },
+  defaultSettings,
+  emptyAnswer: { order: [], value: "", steps: [] },
+  normalizeSettings,
+  generate: buildTask,
+  check: checkRegnehierarkiet,
+  format: (task) =>
+    task.target ? task.expression : `${task.expression} = ?`,
+  label: (task) => `Regnehierarkiet (${task.label})`,
+  formatAnswer: (answer, task) => {
+    if (task.target) {
+      const expr = parseExpression(answer.value);
+      return expr
+        ? `${formatExpression(expr)} = ${formatValue(evaluate(expr))}`
+        : answer.value;
+    }
+    if (task.stepwise) {
+      return answer.steps.length
+        ? [task.expression, ...answer.steps].join(" = ")
+        : "";
+    }
+    return [answer.order.join(","), answer.value].filter(Boolean).join(" | ");
+  },
+  solution: (task) =>
+    task.target
+      ? `Fx ${task.target.example} = ${task.result}. Der kan være flere løsninger.`
+      : `Rækkefølge: ${orderHint(task)}. Facit: ${task.result}.`,
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isRegnehierarkietTask),
+};
@@ -0,0 +1,251 @@
+import { random } from "@/utils/taskHelpers";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type CheckResult,
+  type TaskModule,
+} from "@/utils/taskModule";
+
+export type TabellerReverse = "off" | "mixed" | "only";
+
+export type TabellerTask = {
+  table: number;
+  factor: number;
+  // Omvendt: "? × 7 = 56" - eleven finder den manglende faktor.
+  reverse: boolean;
+};
+
+export type TabellerSettings = {
+  tables: number[];
+  maxFactor: number;
+  reverse: TabellerReverse;
+};
+
+export type FactStats = {
+  attempts: number;
+  correct: number;
+  streak: number;
+  lastMs: number;
+};
+
+export type TabellerMastery = Record<string, FactStats>;
+
+export const ALL_TABLES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+const LS_MASTERY = "tabeller_mastery_v1";
+const SLOW_MS = 6000;
+const MASTERED_STREAK = 3;
+
+const defaultSettings: TabellerSettings = {
+  tables: [2, 3, 4, 5],
+  maxFactor: 10,
+  reverse: "off",
+};
+
+export function factKey(table: number, factor: number) {
+  return `${table}x${factor}`;
+}
+
+export function loadMastery(): TabellerMastery {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(LS_MASTERY) ?? "{}");
+    return isRecord(parsed) ? (parsed as TabellerMastery) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveMastery(mastery: TabellerMastery) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(LS_MASTERY, JSON.stringify(mastery));
+}
+
+export function resetMastery() {
+  saveMastery({});
+}
+
+export type FactLevel = "new" | "weak" | "slow" | "learning" | "mastered";
+
+export function factLevel(stats?: FactStats): FactLevel {
+  if (!stats || stats.attempts === 0) return "new";
+  if (stats.streak === 0) return "weak";
+  if (stats.lastMs > SLOW_MS) return "slow";
+  if (stats.streak >= MASTERED_STREAK) return "mastered";
+  return "learning";
+}
+
+// Svage og langsomme fakta vejer mere, mestrede mindre.
+const LEVEL_WEIGHTS: Record<FactLevel, number> = {
+  new: 2,
+  weak: 5,
+  slow: 3,
+  learning: 2,
+  mastered: 0.5,
+};
+
+function pickWeighted<T>(items: { item: T; weight: number }[]) {
+  const total = items.reduce((sum, entry) => sum + entry.weight, 0);
+  let roll = random() * total;
+  for (const entry of items) {
+    roll -= entry.weight;
+    if (roll < 0) return entry.item;
+  }
+  return items[items.length - 1].item;
+}
+
+function normalizeTables(raw: unknown) {
+  if (!Array.isArray(raw)) return defaultSettings.tables;
+  const tables = ALL_TABLES.filter((table) => raw.includes(table));
+  return tables.length > 0 ? tables : defaultSettings.tables;
+}
+
+function normalizeSettings(raw: unknown): TabellerSettings {
+  if (!isRecord(raw)) return defaultSettings;
+  const maxFactor =
+    typeof raw.maxFactor === "number" && [10, 12, 20].includes(raw.maxFactor)
+      ? raw.maxFactor
+      : defaultSettings.maxFactor;
+  const reverse =
+    raw.reverse === "mixed" || raw.reverse === "only" ? raw.reverse : "off";
+  return { tables: normalizeTables(raw.tables), maxFactor, reverse };
+}
+
+// Samme stykke kommer ikke to gange i traek, og med elevens mestring vejer
+// svage stykker mere. Uden mestring er alle stykker lige sandsynlige.
+function buildTask(
+  settings: TabellerSettings,
+  previous?: TabellerTask,
+  mastery: TabellerMastery = {}
+): TabellerTask {
+  const tables = normalizeTables(settings.tables);
+  const lastFact = previous ? factKey(previous.table, previous.factor) : "";
+  const facts = tables.flatMap((table) =>
+    Array.from({ length: settings.maxFactor }, (_, i) => ({ table, factor: i + 1 }))
+  );
+  const weighted = facts.map((fact) => {
+    const key = factKey(fact.table, fact.factor);
+    const weight =
+      key === lastFact && facts.length > 1
+        ? 0
+        : LEVEL_WEIGHTS[factLevel(mastery[key])];
+    return { item: fact, weight };
+  });
+  const { table, factor } = pickWeighted(weighted);
+  const reverse =
+    settings.reverse === "only" ||
+    (settings.reverse === "mixed" && random() < 0.5);
+  return { table, factor, reverse };
+}
+
+// Tabeller, laereren har valgt for hele sessionen; tom liste = elevens egne.
+export function sessionTables(raw: Record<string, unknown>) {
+  const tables = raw.tables;
+  return Array.isArray(tables)
+    ? ALL_TABLES.filter((table) => tables.includes(table))
+    : [];
+}
+
+function parseAnswer(raw: string) {
+  const trimmed = raw.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  return Number(trimmed);
+}
+
+function expected(task: TabellerTask) {
+  return task.reverse ? task.factor : task.table * task.factor;
+}
+
+function checkTabeller(task: TabellerTask, answer: string) {
+  const value = parseAnswer(answer);
+  if (value === null) {
+    return { type: "error" as const, message: "Skriv et helt tal." };
+  }
+  if (value === expected(task)) {
+    return { type: "correct" as const, message: "Rigtigt! Godt klaret." };
+  }
+  return { type: "wrong" as const };
+}
+
+function formatTask(task: TabellerTask) {
+  const product = task.table * task.factor;
+  return task.reverse
+    ? `? × ${task.table} = ${product}`
+    : `${task.factor} × ${task.table}`;
+}
+
+function recordResult(
+  task: TabellerTask,
+  result: CheckResult,
+  elapsedMs: number
+) {
+  if (result.type === "error") return;
+  const mastery = loadMastery();
+  const key = factKey(task.table, task.factor);
+  const stats = mastery[key] ?? { attempts: 0, correct: 0, streak: 0, lastMs: 0 };
+  const correct = result.type === "correct";
+  mastery[key] = {
+    attempts: stats.attempts + 1,
+    correct: stats.correct + (correct ? 1 : 0),
+    streak: correct ? stats.streak + 1 : 0,
+    lastMs: correct ? elapsedMs : stats.lastMs,
+  };
+  saveMastery(mastery);
+}
+
+function isTabellerTask(value: unknown): value is TabellerTask {
+  return (
+    isRecord(value) &&
+    typeof value.table === "number" &&
+    typeof value.factor === "number" &&
+    typeof value.reverse === "boolean"
+  );
+}
+
+export const tabellerModule: TaskModule<
+  TabellerSettings,
+  TabellerTask,
+  string
+> = {
+  id: "tabeller",
+  trackLabel: "Tabeller",
+  track: {
+    title: "Tabeltræning",
+    description: "Vælg tabellerne, og træn de stykker, der driller mest.",
+    href: "/tabeller",
+    tag: "Aktiv",
+    accent: "from-rose-100/80 via-white to-amber-100/60",
+  },
+  defaultSettings,
+  emptyAnswer: "",
+  normalizeSettings,
+  generate: buildTask,
+  check: checkTabeller,
+  format: formatTask,
+  label: (task) =>
+    task.reverse ? `${task.table}-tabellen (omvendt)` : `${task.table}-tabellen`,
+  formatAnswer: (answer) => answer,
+  solution: (task) =>
+    `Facit: ${task.factor} × ${task.table} = ${task.table * task.factor}.`,
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isTabellerTask),
+  recordResult,
+};
+
+// Mestringen ligger kun paa elevens enhed, saa siden giver den kun med uden
+// seed. Laererens tabeller for sessionen erstatter elevens valg.
+export function withTabellerSession(
+  mastery: TabellerMastery,
+  tables: number[]
+): TaskModule<TabellerSettings, TabellerTask, string> {
+  return {
+    ...tabellerModule,
+    generate: (settings, previous) =>
+      buildTask(
+        tables.length > 0 ? { ...settings, tables } : settings,
+        previous,
+        mastery
+      ),
+  };
+}
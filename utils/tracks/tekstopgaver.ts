@@ -0,0 +1,674 @@
+import { formatDisplay, randInt, shuffle, withSeed } from "@/utils/taskHelpers";
+import {
+  deserializeJson,
+  isRecord,
+  serializeJson,
+  type CheckResult,
+  type TaskModule,
+} from "@/utils/taskModule";
+import {
+  facitText,
+  formatEquation,
+  fmtDa,
+  practiceModule,
+  type PracticeSettings,
+  type PracticeTask,
+} from "@/utils/tracks/practice";
+import {
+  isChangeTask,
+  procentModule,
+  VAT_RATE,
+  type ProcentSettings,
+  type ProcentTask,
+} from "@/utils/tracks/procent";
+import {
+  broekerModule,
+  formatFractionText,
+  formatMixedText,
+  type BroekerAnswer,
+  type BroekerOperation,
+  type BroekerSettings,
+  type BroekerTask,
+} from "@/utils/tracks/broeker";
+
+export type WordContext = "indkoeb" | "madlavning" | "sport" | "opsparing";
+export type WordSource = "practice" | "procent" | "broeker";
+export type WordRange = "small" | "medium" | "large";
+
+// En skabelon er en tekst med pladser som {name}, {item} og {a}. Tallene
+// kommer fra sporets egen generator (settings er en del af dens indstillinger),
+// og svaret tjekkes af sporets egen check.
+export type WordTemplate = {
+  id: string;
+  context: WordContext;
+  source: WordSource;
+  settings?: Record<string, unknown>;
+  text: string;
+  unit?: string;
+  // Egne ordlister; {item2} traekker et andet ord fra samme liste som {item}.
+  words?: Record<string, string[]>;
+};
+
+export type TekstopgaverSettings = {
+  context: WordContext | "mixed";
+  range: WordRange;
+};
+
+type InnerTask =
+  | { source: "practice"; task: PracticeTask }
+  | { source: "procent"; task: ProcentTask }
+  | { source: "broeker"; task: BroekerTask };
+
+export type TekstopgaverTask = InnerTask & {
+  templateId: string;
+  context: WordContext;
+  text: string;
+  unit: string;
+};
+
+export const contextLabels: Record<WordContext, string> = {
+  indkoeb: "Indkøb",
+  madlavning: "Madlavning",
+  sport: "Sport og fritid",
+  opsparing: "Opsparing",
+};
+
+const CONTEXTS = Object.keys(contextLabels) as WordContext[];
+const SOURCES: WordSource[] = ["practice", "procent", "broeker"];
+
+// Kun broekopgaver med en broek som svar kan skrives som tekst.
+const FRACTION_OPERATIONS: BroekerOperation[] = [
+  "add",
+  "subtract",
+  "multiply",
+  "divide",
+  "mulInt",
+  "divInt",
+];
+
+const NAMES = [
+  "Ali",
+  "Emma",
+  "Noah",
+  "Freja",
+  "Oscar",
+  "Ida",
+  "Malik",
+  "Sofia",
+  "William",
+  "Aya",
+  "Lucas",
+  "Clara",
+];
+
+const contextWords: Record<WordContext, Record<string, string[]>> = {
+  indkoeb: {
+    item: [
+      "en jakke",
+      "en bog",
+      "et par sko",
+      "en cykelhjelm",
+      "et brætspil",
+      "en rygsæk",
+      "en lampe",
+    ],
+    snack: ["chips", "slik", "æbler", "boller", "popcorn"],
+  },
+  madlavning: {
+    dish: ["pandekager", "boller", "en kage", "vafler", "en gryderet"],
+  },
+  sport: {
+    club: ["fodboldklubben", "svømmeklubben", "håndboldklubben", "spejderne"],
+  },
+  opsparing: {
+    goal: [
+      "en ny cykel",
+      "en tur i Tivoli",
+      "en mobiltelefon",
+      "et par fodboldstøvler",
+    ],
+  },
+};
+
+export const builtInTemplates: WordTemplate[] = [
+  {
+    id: "indkoeb-sum",
+    context: "indkoeb",
+    source: "practice",
+    settings: { operation: "addition", digitsSel: 2 },
+    text: "{name} køber {item} til {a} kr. og {item2} til {b} kr. Hvor mange kroner betaler {name} i alt?",
+    unit: "kr.",
+  },
+  {
+    id: "indkoeb-rest",
+    context: "indkoeb",
+    source: "practice",
+    settings: { operation: "subtraction", digitsSel: 2 },
+    text: "{name} har {a} kr. og køber {item} til {b} kr. Hvor mange kroner har {name} tilbage?",
+    unit: "kr.",
+  },
+  {
+    id: "indkoeb-poser",
+    context: "indkoeb",
+    source: "practice",
+    settings: {
+      operation: "multiplication",
+      rangeMode: "custom",
+      ranges: [
+        { min: 2, max: 9, decimals: 0 },
+        { min: 10, max: 49, decimals: 0 },
+      ],
+    },
+    text: "{name} køber {a} poser {snack}, og hver pose koster {b} kr. Hvor mange kroner koster det i alt?",
+    unit: "kr.",
+  },
+  {
+    id: "indkoeb-pris",
+    context: "indkoeb",
+    source: "procent",
+    settings: { operation: "change" },
+    text: "{item} koster {base} kr. Prisen {change} med {rate} %. Hvad er den nye pris?",
+    unit: "kr.",
+  },
+  {
+    id: "indkoeb-moms",
+    context: "indkoeb",
+    source: "procent",
+    settings: { operation: "vat" },
+    text: "{name} ser {item} til {amount} kr. {given}. Hvad er prisen {asked}, når momsen er {vat} %?",
+    unit: "kr.",
+  },
+  {
+    id: "madlavning-maelk",
+    context: "madlavning",
+    source: "broeker",
+    settings: { operation: "add" },
+    text: "{name} bruger {a} liter mælk til {dish} og {b} liter til en sauce. Hvor mange liter mælk bruger {name} i alt?",
+    unit: "liter",
+  },
+  {
+    id: "madlavning-rest",
+    context: "madlavning",
+    source: "broeker",
+    settings: { operation: "subtract" },
+    text: "Der er {a} liter saft i kanden. {name} hælder {b} liter op. Hvor mange liter er der tilbage?",
+    unit: "liter",
+  },
+  {
+    id: "madlavning-portioner",
+    context: "madlavning",
+    source: "broeker",
+    settings: { operation: "mulInt" },
+    text: "Opskriften på {dish} skal bruge {a} kg mel. Hvor mange kg mel skal der bruges, hvis opskriften laves {b} gange?",
+    unit: "kg",
+  },
+  {
+    id: "sport-loeb",
+    context: "sport",
+    source: "practice",
+    settings: {
+      operation: "addition",
+      operandCount: 3,
+      rangeMode: "custom",
+      ranges: [{ min: 2, max: 15, decimals: 1 }],
+    },
+    text: "{name} løber {a} km mandag, {b} km onsdag og {c} km fredag. Hvor mange km løber {name} i alt?",
+    unit: "km",
+  },
+  {
+    id: "sport-hold",
+    context: "sport",
+    source: "practice",
+    settings: { operation: "division", divisionLevel: 1 },
+    text: "{a} børn fra {club} skal deles på hold med {b} på hvert hold. Hvor mange hold bliver det?",
+  },
+  {
+    id: "sport-aarskort",
+    context: "sport",
+    source: "procent",
+    settings: { operation: "changeRate" },
+    text: "Et årskort til {club} kostede {from} kr. sidste år og koster {to} kr. i år. Hvor mange procent er prisen {changed}?",
+    unit: "%",
+  },
+  {
+    id: "opsparing-maal",
+    context: "opsparing",
+    source: "procent",
+    settings: { operation: "share" },
+    text: "{name} sparer op til {goal}, der koster {base} kr. {name} har sparet {part} kr. op. Hvor mange procent af prisen har {name} sparet op?",
+    unit: "%",
+  },
+  {
+    id: "opsparing-simpel",
+    context: "opsparing",
+    source: "procent",
+    settings: { operation: "simpleInterest" },
+    text: "{name} sætter {principal} kr. i banken til {rate} % simpel rente om året. Hvor mange kroner står der efter {periods} år?",
+    unit: "kr.",
+  },
+  {
+    id: "opsparing-rentes-rente",
+    context: "opsparing",
+    source: "procent",
+    settings: { operation: "compoundInterest" },
+    text: "{name} sætter {principal} kr. i banken til {rate} % rente om året med rentes rente. Hvor mange kroner står der efter {periods} år?",
+    unit: "kr.",
+  },
+];
+
+const practiceDigits: Record<WordRange, 1 | 2 | 3> = {
+  small: 1,
+  medium: 2,
+  large: 3,
+};
+
+// Skabelonens indstillinger gaar gennem sporets egen normalizeSettings, saa
+// ukendte vaerdier aldrig naar generatoren.
+function sourceSettings<S>(
+  module: Pick<TaskModule<S, unknown>, "defaultSettings" | "normalizeSettings">,
+  raw: Record<string, unknown>
+): S {
+  return module.normalizeSettings?.(raw) ?? module.defaultSettings;
+}
+
+function practiceSettings(
+  custom: Record<string, unknown>,
+  range: WordRange
+): PracticeSettings {
+  const settings = sourceSettings(practiceModule, {
+    ...practiceModule.defaultSettings,
+    ...custom,
+  });
+  // Skabelonens cifre er et minimum; et stoerre talomraade giver stoerre tal.
+  const rangeDigits = practiceDigits[range];
+  const digitsSel =
+    settings.digitsSel === "mix" || settings.digitsSel > rangeDigits
+      ? settings.digitsSel
+      : rangeDigits;
+  // Opgaven regnes paa papir; svaret er altid et tal i feltet.
+  return { ...settings, digitsSel, layout: "horizontal" };
+}
+
+function procentSettings(
+  custom: Record<string, unknown>,
+  range: WordRange
+): ProcentSettings {
+  return sourceSettings(procentModule, {
+    ...procentModule.defaultSettings,
+    range,
+    ...custom,
+  });
+}
+
+function broekerSettings(
+  custom: Record<string, unknown>,
+  range: WordRange
+): BroekerSettings {
+  const settings = sourceSettings(broekerModule, {
+    ...broekerModule.defaultSettings,
+    range,
+    ...custom,
+  });
+  return { ...settings, answerForm: "any", model: "none" };
+}
+
+function generateInner(template: WordTemplate, range: WordRange): InnerTask {
+  const custom = template.settings ?? {};
+  if (template.source === "practice") {
+    const settings = practiceSettings(custom, range);
+    return { source: "practice", task: practiceModule.generate(settings) };
+  }
+  if (template.source === "procent") {
+    const settings = procentSettings(custom, range);
+    return { source: "procent", task: procentModule.generate(settings) };
+  }
+  const settings = broekerSettings(custom, range);
+  return { source: "broeker", task: broekerModule.generate(settings) };
+}
+
+function numberSlot(value: number | string) {
+  return formatDisplay(String(value));
+}
+
+// Tallene i opgaven, som teksten kan bruge.
+function numberSlots(inner: InnerTask): Record<string, string> {
+  if (inner.source === "practice") {
+    const slots: Record<string, string> = {};
+    inner.task.problem.operands.forEach((operand, index) => {
+      slots[String.fromCharCode(97 + index)] = fmtDa(operand);
+    });
+    return slots;
+  }
+  if (inner.source === "broeker") {
+    const { task } = inner;
+    const text = task.mixed ? formatMixedText : formatFractionText;
+    return {
+      a: text(task.a),
+      b: typeof task.b === "number" ? String(task.b) : text(task.b),
+    };
+  }
+  const task = inner.task;
+  const slots: Record<string, string> = { vat: String(VAT_RATE) };
+  Object.entries(task).forEach(([key, value]) => {
+    if (key === "expected") return;
+    if (typeof value === "number" || (key === "part" && typeof value === "string")) {
+      slots[key] = numberSlot(value);
+    }
+  });
+  if (task.operation === "change") {
+    slots.change = task.direction === "up" ? "stiger" : "falder";
+  }
+  if (task.operation === "changeRate") {
+    slots.changed = task.to < task.from ? "faldet" : "steget";
+  }
+  if (task.operation === "vat") {
+    slots.given = task.direction === "add" ? "uden moms" : "med moms";
+    slots.asked = task.direction === "add" ? "med moms" : "uden moms";
+  }
+  return slots;
+}
+
+// Ord til pladserne; {name2} og {item2} bliver aldrig det samme som {name}.
+function wordSlots(template: WordTemplate): Record<string, string> {
+  const lists: Record<string, string[]> = {
+    name: NAMES,
+    ...contextWords[template.context],
+    ...template.words,
+  };
+  const slots: Record<string, string> = {};
+  Object.entries(lists).forEach(([key, list]) => {
+    shuffle(list).forEach((word, index) => {
+      slots[index === 0 ? key : `${key}${index + 1}`] = word;
+    });
+  });
+  return slots;
+}
+
+function fillText(text: string, slots: Record<string, string>) {
+  const filled = text.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (Object.hasOwn(slots, key)) return slots[key];
+    // {Item} giver ordet med stort forbogstav.
+    const lower = key.charAt(0).toLowerCase() + key.slice(1);
+    const word = slots[lower];
+    return word ? word.charAt(0).toUpperCase() + word.slice(1) : match;
+  });
+  return filled.charAt(0).toUpperCase() + filled.slice(1);
+}
+
+function buildFromTemplate(
+  template: WordTemplate,
+  range: WordRange
+): TekstopgaverTask {
+  const inner = generateInner(template, range);
+  const text = fillText(template.text, {
+    ...wordSlots(template),
+    ...numberSlots(inner),
+  });
+  return {
+    ...inner,
+    templateId: template.id,
+    context: template.context,
+    text,
+    unit: template.unit ?? "",
+  };
+}
+
+// Sporets normalizeSettings erstatter ukendte vaerdier med standarden; her
+// skal laereren i stedet have besked. Talomraader (ranges) ryddes blot op.
+function invalidSetting(source: WordSource, settings: Record<string, unknown>) {
+  const normalized: Record<string, unknown> =
+    source === "practice"
+      ? sourceSettings(practiceModule, settings)
+      : source === "procent"
+        ? sourceSettings(procentModule, settings)
+        : sourceSettings(broekerModule, settings);
+  return Object.keys(settings).find(
+    (key) =>
+      !Object.hasOwn(normalized, key) ||
+      (typeof settings[key] !== "object" && normalized[key] !== settings[key])
+  );
+}
+
+function parseTemplate(value: unknown, index: number): WordTemplate | string {
+  const where = `Skabelon ${index + 1}`;
+  if (!isRecord(value)) return `${where} skal være et objekt.`;
+  if (typeof value.text !== "string" || !value.text.trim()) {
+    return `${where} mangler "text".`;
+  }
+  if (!CONTEXTS.includes(value.context as WordContext)) {
+    return `${where}: "context" skal være en af ${CONTEXTS.join(", ")}.`;
+  }
+  if (!SOURCES.includes(value.source as WordSource)) {
+    return `${where}: "source" skal være en af ${SOURCES.join(", ")}.`;
+  }
+  if (value.settings !== undefined && !isRecord(value.settings)) {
+    return `${where}: "settings" skal være et objekt.`;
+  }
+  if (value.unit !== undefined && typeof value.unit !== "string") {
+    return `${where}: "unit" skal være en tekst.`;
+  }
+  const words: Record<string, string[]> = {};
+  if (value.words !== undefined) {
+    if (!isRecord(value.words)) return `${where}: "words" skal være et objekt.`;
+    for (const [key, list] of Object.entries(value.words)) {
+      if (
+        !Array.isArray(list) ||
+        list.length === 0 ||
+        !list.every((word) => typeof word === "string")
+      ) {
+        return `${where}: ordlisten "${key}" skal være en liste med tekster.`;
+      }
+      words[key] = list;
+    }
+  }
+  const settings = (value.settings ?? {}) as Record<string, unknown>;
+  if (
+    value.source === "broeker" &&
+    settings.operation !== undefined &&
+    !FRACTION_OPERATIONS.includes(settings.operation as BroekerOperation)
+  ) {
+    return `${where}: brøkskabeloner kan kun bruge ${FRACTION_OPERATIONS.join(", ")}.`;
+  }
+  const invalid = invalidSetting(value.source as WordSource, settings);
+  if (invalid) return `${where}: "settings.${invalid}" har en ugyldig værdi.`;
+  const template: WordTemplate = {
+    id: typeof value.id === "string" && value.id ? value.id : `egen-${index + 1}`,
+    context: value.context as WordContext,
+    source: value.source as WordSource,
+    settings,
+    text: value.text,
+    unit: value.unit as string | undefined,
+    words,
+  };
+  // Proevekoersel med fast seed: alle pladser skal kunne udfyldes.
+  try {
+    const sample = withSeed(`skabelon:${template.id}`, () =>
+      buildFromTemplate(template, "small")
+    );
+    const missing = sample.text.match(/\{\w+\}/);
+    if (missing) return `${where}: ukendt plads ${missing[0]}.`;
+  } catch {
+    return `${where}: indstillingerne passer ikke til "${template.source}".`;
+  }
+  return template;
+}
+
+// Laeser laererens JSON. Fejl beskrives paa dansk, saa de kan vises direkte.
+export function parseTemplates(raw: string): {
+  templates: WordTemplate[];
+  error: string | null;
+} {
+  if (!raw.trim()) return { templates: [], error: null };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { templates: [], error: "Skabelonerne er ikke gyldig JSON." };
+  }
+  const list = Array.isArray(parsed) ? parsed : [parsed];
+  const templates: WordTemplate[] = [];
+  for (const [index, value] of list.entries()) {
+    const result = parseTemplate(value, index);
+    if (typeof result === "string") return { templates: [], error: result };
+    templates.push(result);
+  }
+  return { templates, error: null };
+}
+
+function buildTask(
+  settings: TekstopgaverSettings,
+  customTemplates: WordTemplate[] = []
+): TekstopgaverTask {
+  const all = [...builtInTemplates, ...customTemplates];
+  const matching =
+    settings.context === "mixed"
+      ? all
+      : all.filter((template) => template.context === settings.context);
+  const pool = matching.length > 0 ? matching : all;
+  return buildFromTemplate(pool[randInt(0, pool.length - 1)], settings.range);
+}
+
+// "3/4", "1 1/2" eller "2" bliver til broeksporets svarfelter.
+function toBroekerAnswer(answer: string): BroekerAnswer | null {
+  const empty = { whole: "", num: "", den: "", relation: "" as const, order: [] };
+  const mixed = answer.match(/^(-?\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  if (mixed) return { ...empty, whole: mixed[1], num: mixed[2], den: mixed[3] };
+  const fraction = answer.match(/^(-?\d+)\s*\/\s*(\d+)$/);
+  if (fraction) return { ...empty, num: fraction[1], den: fraction[2] };
+  if (/^-?\d+$/.test(answer)) return { ...empty, whole: answer };
+  return null;
+}
+
+// Enheden maa gerne skrives med i svaret, fx "45 kr." eller "12 %".
+function stripUnit(answer: string, unit: string) {
+  const trimmed = answer.trim();
+  const bare = unit.replace(/\.$/, "").toLowerCase();
+  if (!bare) return trimmed;
+  const lower = trimmed.toLowerCase();
+  for (const suffix of [unit.toLowerCase(), bare]) {
+    if (lower.endsWith(suffix)) {
+      return trimmed.slice(0, trimmed.length - suffix.length).trim();
+    }
+  }
+  return trimmed;
+}
+
+function checkTask(task: TekstopgaverTask, answer: string): CheckResult {
+  const value = stripUnit(answer, task.unit);
+  if (task.source === "practice") {
+    return practiceModule.check(task.task, { value });
+  }
+  if (task.source === "procent") return procentModule.check(task.task, value);
+  const parsed = toBroekerAnswer(value);
+  if (!parsed) {
+    return {
+      type: "error",
+      message: "Skriv svaret som en brøk, fx 3/4 eller 1 1/2.",
+    };
+  }
+  return broekerModule.check(task.task, parsed);
+}
+
+// Regnestykket bag teksten; procentopgaver med aendring har det i facit.
+function calculation(task: TekstopgaverTask) {
+  if (task.source === "practice") return formatEquation(task.task);
+  if (task.source === "broeker") return broekerModule.format(task.task);
+  const inner = task.task;
+  if (isChangeTask(inner)) return null;
+  if (inner.operation === "share") {
+    return `${numberSlot(inner.part)} / ${inner.base} · 100`;
+  }
+  if (inner.operation === "whole") {
+    return `${numberSlot(inner.part)} / ${inner.rate} · 100`;
+  }
+  const divisor = inner.operation === "percent" ? 100 : 1000;
+  return `${inner.base} · ${inner.rate} / ${divisor}`;
+}
+
+function sourceLabel(task: TekstopgaverTask) {
+  if (task.source === "practice") return practiceModule.label(task.task);
+  if (task.source === "broeker") return broekerModule.label(task.task);
+  return procentModule.label(task.task);
+}
+
+function sourceSolution(
+  task: Exclude<TekstopgaverTask, { source: "practice" }>
+) {
+  if (task.source === "broeker") return broekerModule.solution(task.task);
+  return procentModule.solution(task.task);
+}
+
+function isTekstopgaverTask(value: unknown): value is TekstopgaverTask {
+  return (
+    isRecord(value) &&
+    SOURCES.includes(value.source as WordSource) &&
+    CONTEXTS.includes(value.context as WordContext) &&
+    typeof value.text === "string" &&
+    typeof value.unit === "string" &&
+    isRecord(value.task)
+  );
+}
+
+const defaultSettings: TekstopgaverSettings = {
+  context: "mixed",
+  range: "small",
+};
+
+function normalizeSettings(raw: unknown): TekstopgaverSettings {
+  if (!isRecord(raw)) return defaultSettings;
+  return {
+    context:
+      raw.context === "mixed" || CONTEXTS.includes(raw.context as WordContext)
+        ? (raw.context as TekstopgaverSettings["context"])
+        : defaultSettings.context,
+    range:
+      raw.range === "medium" || raw.range === "large" ? raw.range : "small",
+  };
+}
+
+export const tekstopgaverModule: TaskModule<
+  TekstopgaverSettings,
+  TekstopgaverTask
+> = {
+  id: "tekstopgaver",
+  trackLabel: "Tekstopgaver",
+  track: {
+    title: "Tekstopgaver",
+    description: "Oversæt hverdagssituationer til regnestykker og løs dem.",
+    href: "/tekstopgaver",
+    tag: "Aktiv",
+    accent: "from-rose-100/80 via-white to-sky-100/60",
+  },
+  defaultSettings,
+  normalizeSettings,
+  emptyAnswer: "",
+  generate: (settings) => buildTask(settings),
+  check: checkTask,
+  format: (task) => task.text,
+  label: (task) => `${contextLabels[task.context]} · ${sourceLabel(task)}`,
+  formatAnswer: (answer) => answer,
+  solution: (task) => {
+    const steps = calculation(task);
+    if (task.source === "practice") {
+      const facit = [facitText(task.task), task.unit].filter(Boolean).join(" ");
+      const end = facit.endsWith(".") ? "" : ".";
+      return `Regnestykke: ${steps} = ${facit}${end}`;
+    }
+    const solution = sourceSolution(task);
+    return steps ? `Regnestykke: ${steps}. ${solution}` : solution;
+  },
+  serialize: serializeJson,
+  deserialize: (raw) => deserializeJson(raw, isTekstopgaverTask),
+};
+
+// Laererens skabeloner hoerer til sessionen (sessions.word_templates), saa
+// hele klassen traekker fra samme pulje og et faelles seed giver samme opgaver.
+export function withWordTemplates(
+  templates: WordTemplate[]
+): TaskModule<TekstopgaverSettings, TekstopgaverTask> {
+  if (templates.length === 0) return tekstopgaverModule;
+  return {
+    ...tekstopgaverModule,
+    generate: (settings) => buildTask(settings, templates),
+  };
+}